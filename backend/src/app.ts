@@ -6,7 +6,7 @@
  * 2. Express 서버 초기화
  * 3. 미들웨어 설정 (JSON 파싱)
  * 4. 라우트 등록
- * 5. 서버 시작 (포트 3000 또는 환경변수 PORT)
+ * 5. APP_ROLES에 따라 HTTP 서버, 블록체인 리스너, 워커 시작 (services/lifecycle.service.ts)
  */
 
 import express from "express";
@@ -15,9 +15,12 @@ import path from "path";
 import fs from "fs";
 import nftRouter from "./routes/nft";
 import multiTokenRouter from "./routes/multiToken";
+import adminRouter from "./routes/admin";
+import eventSchemasRouter from "./routes/eventSchemas";
+import marketplaceRouter from "./routes/marketplace";
 import { errorHandler } from "./middleware/errorHandler";
-// import { initializeEventListeners } from "./services/blockchain/index.service";
-// import { startBlockchainWorker } from "./services/blockchain/worker.service";
+import { isAdminApiKeyConfigured } from "./middleware/auth";
+import { startApplication } from "./services/lifecycle.service";
 
 // 환경 변수 로드 (.env 파일에서 환경변수 읽기)
 // 현재 작업 디렉토리가 backend/src이므로 프로젝트 루트로 상대 경로 설정
@@ -84,6 +87,29 @@ app.use("/api/multi-token", multiTokenRouter);
  */
 app.use("/api/blockchain/nft", nftRouter);
 
+/**
+ * 이벤트 페이로드 스키마 라우터 등록 (인증 없음)
+ * 예: /api/blockchain/events/schemas, /api/blockchain/events/schemas/NftLocked
+ */
+app.use("/api/blockchain/events", eventSchemasRouter);
+
+/**
+ * 마켓플레이스 라우터 등록 (인증 없음)
+ * 예: /api/blockchain/marketplace/config, /api/blockchain/marketplace/listings, /api/blockchain/marketplace/listings/:tokenId
+ */
+app.use("/api/blockchain/marketplace", marketplaceRouter);
+
+/**
+ * 블록체인 관리자 라우터 등록 (adminKeyAuth 적용)
+ * 예: /api/admin/blockchain/status, /api/admin/blockchain/dead-letters, /api/admin/blockchain/dead-letters/:id/replay
+ * 데드레터 재전송/삭제와 이벤트 재전송이 포함되므로 ADMIN_API_KEY가 설정되지 않으면 등록하지 않습니다.
+ */
+if (isAdminApiKeyConfigured()) {
+  app.use("/api/admin/blockchain", adminRouter);
+} else {
+  console.warn("[App] ADMIN_API_KEY가 설정되지 않아 관리자 API(/api/admin/blockchain)를 비활성화합니다.");
+}
+
 // 전역 에러 핸들러 (항상 라우터 다음에 위치)
 app.use(errorHandler);
 
@@ -92,31 +118,13 @@ const port = Number(process.env.PORT || 3000);
 
 // 테스트 환경이 아닐 때만 서버 시작
 // 테스트 시에는 서버를 시작하지 않고 app 인스턴스만 export
+// APP_ROLES로 이 프로세스에서 실행할 역할(api, listeners, workers)을 선택합니다. (기본: 모두 실행)
 if (process.env.NODE_ENV !== "test") {
-  app.listen(port, () => {
-    console.log(`Server listening on http://localhost:${port}`);
+  startApplication(app, port).catch((error) => {
+    console.error("[Lifecycle] 시작 실패", error);
+    process.exit(1);
   });
 }
 
 // 테스트를 위해 app 인스턴스 export
 export default app;
-
-/**
- * BullMQ 워커와 블록체인 이벤트 리스너를 동시에 초기화합니다.
- * 서버가 시작될 때 비동기로 호출하여 MQ 파이프라인을 구성합니다.
- * 
- * 임시 비활성화: 리스너와 워커 사용 중지
- */
-// const startBlockchainServices = async (): Promise<void> => {
-//   try {
-//     await startBlockchainWorker();
-//     await initializeEventListeners();
-//     console.log("[App] 블록체인 이벤트 리스너와 워커가 시작되었습니다.");
-//   } catch (error) {
-//     console.error("[App] 블록체인 서비스 초기화 실패:", error);
-//   }
-// };
-
-// void startBlockchainServices();
-
-
@@ -0,0 +1,271 @@
+import { config as loadEnv } from "dotenv";
+import { ZeroAddress } from "ethers";
+
+loadEnv();
+
+/**
+ * 이벤트를 큐 작업으로 전달할 때의 작업 이름 규칙입니다.
+ */
+export interface EventJobRule {
+  /** 큐 작업 이름 (메인 서버 엔드포인트는 kebab-case, 예: TokenTransfer → /api/events/token-transfer) */
+  name: string;
+  /** 페이로드 필드 값이 모두 같을 때만 이 작업으로 전달합니다. (대소문자 무시) */
+  where?: Record<string, string>;
+  /** 페이로드에 추가할 필드 (새 필드 이름 → 값을 복사할 이벤트 인자 이름, 예: { owner: "to" }) */
+  fields?: Record<string, string>;
+}
+
+/**
+ * 컨트랙트 이벤트 리스너 레지스트리 항목입니다.
+ *
+ * 새 컨트랙트를 감시하려면 LISTENER_DEFINITIONS에 항목을 추가하면 됩니다.
+ * 리스너 코드(contract.listener.ts)는 항목 정보만으로 백필, 실시간 구독, 큐 적재를 수행합니다.
+ */
+export interface ContractListenerDefinition {
+  /** 리스너 이름 (로그 태그, 체크포인트 키, 페이로드의 contract 필드에 사용) */
+  name: string;
+  /** 기본 활성화 여부 (BLOCKCHAIN_LISTENERS 환경 변수로 덮어쓸 수 있음) */
+  enabled: boolean;
+  /** 컨트랙트 주소를 읽어올 환경 변수 목록 (앞에서부터 처음 설정된 값을 사용) */
+  addressEnv: string[];
+  /** blockchain/artifacts/blockchain/contracts 하위의 Hardhat 아티팩트 경로 */
+  artifact: string;
+  /** 구독할 이벤트 이름 목록 */
+  events: string[];
+  /** 이벤트를 적재할 BullMQ 큐 이름 (큐 대신 전용 처리기로 전달하는 리스너는 생략) */
+  queueName?: string;
+  /**
+   * 체크포인트가 없을 때 백필을 시작할 블록 번호를 읽어올 환경 변수 (컨트랙트 배포 블록 권장)
+   * 설정하지 않으면 전체 체인을 백필하지 않도록 현재 블록부터 처리합니다. (인덱서는 실행하지 않음)
+   */
+  startBlockEnv?: string;
+  /** startBlockEnv가 설정되지 않았을 때 사용할 시작 블록 번호 */
+  startBlock?: number;
+  /**
+   * 전달 순서를 보장할 그룹 키로 사용할 페이로드 필드 이름 (예: tokenId)
+   * 같은 값의 이벤트는 블록/logIndex 순서대로 하나씩 전달되고, 다른 값의 이벤트는 병렬로 전달됩니다.
+   * 그룹은 리스너별로 나뉘므로, 다른 리스너의 같은 값 이벤트 사이의 순서는 보장하지 않습니다.
+   */
+  orderingKey?: string;
+  /**
+   * GameItem 토큰 ID가 담긴 페이로드 필드 이름 (예: tokenId)
+   * 지정하면 전달할 때 itemId, instanceNumber, tokenURI를 페이로드에 추가합니다. (enrichment.service.ts)
+   * 페이로드에 nftContract가 있으면 GameItem 주소(CONTRACT_ADDRESS)와 같을 때만 추가합니다.
+   */
+  gameItemTokenField?: string;
+  /**
+   * 전달할 때 CustomToken 정보(token: { address, name, symbol, decimals })를 페이로드에 추가합니다.
+   * 토큰은 페이로드의 contractAddress 또는 symbol 해시로 찾습니다. (customTokenRegistry.service.ts)
+   */
+  customTokenInfo?: boolean;
+  /**
+   * 여러 컨트랙트의 이벤트를 주소 목록 필터 하나로 구독할 때, 로그를 발생시킨 컨트랙트 주소를 담을 페이로드 필드 이름입니다.
+   * 지정하면 구독할 주소를 초기화 옵션(addresses)과 ContractListener.addAddress()로 지정하고,
+   * addressEnv의 주소는 체크포인트 키와 상태 표시에만 사용합니다.
+   */
+  logAddressField?: string;
+  /**
+   * 이벤트별 큐 작업 이름 규칙 (생략한 이벤트는 이벤트 이름을 그대로 사용)
+   * 조건이 맞는 첫 번째 규칙의 이름으로 전달하고, 맞는 규칙이 없으면 전달하지 않습니다.
+   * 다른 컨트랙트와 이벤트 이름이 겹치거나(예: ERC20/ERC721 Transfer) 인자 값에 따라 나눠야 할 때 사용합니다.
+   */
+  jobs?: Record<string, EventJobRule[]>;
+}
+
+/**
+ * 감시 대상 컨트랙트 목록입니다.
+ */
+export const LISTENER_DEFINITIONS: ContractListenerDefinition[] = [
+  {
+    name: "NftVault",
+    enabled: true,
+    addressEnv: ["LOCKUP_VAULT_ADDRESS", "NFT_VAULT_ADDRESS"],
+    artifact: "NftVault.sol/NftVault.json",
+    events: ["NftLocked", "NftUnlocked"],
+    queueName: "nft-vault-events",
+    startBlockEnv: "NFT_VAULT_START_BLOCK",
+    // 기존 lastProcessedBlock.json이 없으면 처음부터 백필하던 동작을 유지합니다.
+    startBlock: 0,
+    orderingKey: "tokenId",
+    gameItemTokenField: "tokenId",
+  },
+  {
+    name: "MarketplaceVault",
+    // 임시 비활성화 (BLOCKCHAIN_LISTENERS에 포함하면 활성화됩니다)
+    enabled: false,
+    addressEnv: ["MARKETPLACE_VAULT_ADDRESS"],
+    artifact: "MarketplaceVault.sol/MarketplaceVault.json",
+    events: ["NFTListed", "NFTSold", "NFTReclaimed"],
+    queueName: "marketplace-events",
+    startBlockEnv: "MARKETPLACE_VAULT_START_BLOCK",
+    startBlock: 0,
+    orderingKey: "tokenId",
+    // MarketplaceVault.nftContract는 GameItem입니다.
+    gameItemTokenField: "tokenId",
+  },
+  {
+    // 민팅(from = 0x0)과 소각(to = 0x0)만 전달합니다. 일반 전송은 GameItemTransferIndex가 기록합니다.
+    name: "GameItem",
+    enabled: true,
+    addressEnv: ["CONTRACT_ADDRESS"],
+    artifact: "GameItem.sol/GameItem.json",
+    events: ["Transfer"],
+    queueName: "game-item-events",
+    startBlockEnv: "GAME_ITEM_START_BLOCK",
+    orderingKey: "tokenId",
+    gameItemTokenField: "tokenId",
+    jobs: {
+      Transfer: [
+        { name: "ItemMinted", where: { from: ZeroAddress }, fields: { owner: "to" } },
+        { name: "ItemBurned", where: { to: ZeroAddress }, fields: { owner: "from" } },
+      ],
+    },
+  },
+];
+
+/**
+ * GameItem Transfer 이벤트 인덱서 정의입니다.
+ * 큐로 전달하지 않고 transferIndex.service.ts가 로컬 인덱스(Redis)에 기록합니다.
+ * BLOCKCHAIN_TRANSFER_INDEX_ENABLED=false 로 끌 수 있습니다.
+ */
+export const TRANSFER_INDEX_DEFINITION: ContractListenerDefinition = {
+  name: "GameItemTransferIndex",
+  enabled: true,
+  addressEnv: ["CONTRACT_ADDRESS"],
+  artifact: "GameItem.sol/GameItem.json",
+  events: ["Transfer"],
+  startBlockEnv: "GAME_ITEM_START_BLOCK",
+};
+
+/**
+ * MarketplaceVault 리스팅 인덱서 정의입니다.
+ * 컨트랙트는 tokenId로만 리스팅을 조회할 수 있으므로, 리스팅/판매/회수 이벤트로 활성 리스팅 카탈로그를 만듭니다.
+ * 큐로 전달하지 않고 marketplaceIndex.service.ts가 로컬 인덱스(Redis)에 기록합니다.
+ * BLOCKCHAIN_MARKETPLACE_INDEX_ENABLED=false 로 끌 수 있습니다.
+ */
+export const MARKETPLACE_INDEX_DEFINITION: ContractListenerDefinition = {
+  name: "MarketplaceIndex",
+  enabled: true,
+  addressEnv: ["MARKETPLACE_VAULT_ADDRESS"],
+  artifact: "MarketplaceVault.sol/MarketplaceVault.json",
+  events: ["NFTListed", "NFTSold", "NFTReclaimed"],
+  startBlockEnv: "MARKETPLACE_VAULT_START_BLOCK",
+};
+
+/**
+ * MultiTokenFactory 리스너 정의입니다.
+ * 토큰 생성/비활성화/재활성화 이벤트를 큐로 전달하고, 새 CustomToken을 리스너에 등록합니다. (customToken.service.ts)
+ * BLOCKCHAIN_MULTI_TOKEN_LISTENER_ENABLED=false 로 끌 수 있습니다.
+ */
+export const MULTI_TOKEN_FACTORY_DEFINITION: ContractListenerDefinition = {
+  name: "MultiTokenFactory",
+  enabled: true,
+  addressEnv: ["MULTI_TOKEN_FACTORY_ADDRESS"],
+  artifact: "MultiTokenFactory.sol/MultiTokenFactory.json",
+  events: ["TokenCreated", "TokenDeactivated", "TokenReactivated"],
+  queueName: "multi-token-events",
+  startBlockEnv: "MULTI_TOKEN_FACTORY_START_BLOCK",
+  customTokenInfo: true,
+};
+
+/**
+ * 팩토리가 생성한 CustomToken의 ERC20 Transfer 리스너 정의입니다.
+ * 모든 토큰을 주소 목록 필터 하나로 구독하고, TokenCreated가 전달되면 새 토큰 주소를 목록에 추가합니다. (customToken.service.ts)
+ * 체크포인트는 팩토리 주소 기준으로 하나만 사용하며, Transfer를 발생시킨 토큰 주소는 contractAddress 필드로 전달합니다.
+ * GameItem Transfer와 구분하기 위해 TokenTransfer 작업으로 전달합니다.
+ */
+export const CUSTOM_TOKEN_DEFINITION: ContractListenerDefinition = {
+  name: "CustomToken",
+  enabled: true,
+  addressEnv: ["MULTI_TOKEN_FACTORY_ADDRESS"],
+  artifact: "MultiTokenFactory.sol/CustomToken.json",
+  events: ["Transfer"],
+  queueName: "multi-token-events",
+  startBlockEnv: "MULTI_TOKEN_FACTORY_START_BLOCK",
+  customTokenInfo: true,
+  logAddressField: "contractAddress",
+  jobs: {
+    Transfer: [{ name: "TokenTransfer" }],
+  },
+};
+
+/**
+ * 큐로 전달하는 모든 리스너 정의 목록입니다. (레지스트리 + MultiTokenFactory, 활성화 여부 무관)
+ * 재전송과 스키마 생성에서 사용합니다. CustomToken은 여러 토큰 주소를 구독하므로 포함하지 않습니다.
+ */
+export const getQueueListenerDefinitions = (): ContractListenerDefinition[] =>
+  [...LISTENER_DEFINITIONS, MULTI_TOKEN_FACTORY_DEFINITION].filter((definition) => definition.queueName);
+
+/**
+ * 활성화된 리스너 정의 목록을 반환합니다.
+ *
+ * BLOCKCHAIN_LISTENERS가 설정되어 있으면(쉼표 구분 이름 목록) 그 목록만 활성화하고,
+ * 없으면 각 항목의 enabled 값을 따릅니다.
+ */
+export const getEnabledListenerDefinitions = (): ContractListenerDefinition[] => {
+  const override = process.env.BLOCKCHAIN_LISTENERS;
+  if (override === undefined) {
+    return LISTENER_DEFINITIONS.filter((definition) => definition.enabled);
+  }
+
+  const names = override
+    .split(",")
+    .map((name) => name.trim())
+    .filter((name) => name.length > 0);
+
+  const unknown = names.filter((name) => !LISTENER_DEFINITIONS.some((definition) => definition.name === name));
+  if (unknown.length > 0) {
+    throw new Error(`BLOCKCHAIN_LISTENERS에 등록되지 않은 리스너가 있습니다: ${unknown.join(", ")}`);
+  }
+
+  return LISTENER_DEFINITIONS.filter((definition) => names.includes(definition.name));
+};
+
+/**
+ * BLOCKCHAIN_MULTI_TOKEN_LISTENER_ENABLED=false 이면 MultiTokenFactory와 CustomToken 리스너를 실행하지 않습니다.
+ */
+export const isMultiTokenListenerEnabled = (): boolean =>
+  MULTI_TOKEN_FACTORY_DEFINITION.enabled && process.env.BLOCKCHAIN_MULTI_TOKEN_LISTENER_ENABLED !== "false";
+
+/**
+ * 활성화된 리스너가 이벤트를 적재하는 큐 이름 목록입니다. (워커와 상태 API에서 사용)
+ */
+export const getEnabledEventQueueNames = (): string[] => {
+  const definitions = [
+    ...getEnabledListenerDefinitions(),
+    ...(isMultiTokenListenerEnabled() ? [MULTI_TOKEN_FACTORY_DEFINITION] : []),
+  ];
+  return [...new Set(definitions.flatMap((definition) => (definition.queueName ? [definition.queueName] : [])))];
+};
+
+/**
+ * 리스너 정의에서 컨트랙트 주소를 읽어옵니다.
+ */
+export const resolveListenerAddress = (definition: ContractListenerDefinition): string => {
+  for (const key of definition.addressEnv) {
+    const value = process.env[key];
+    if (value) {
+      return value;
+    }
+  }
+  throw new Error(`환경 변수 ${definition.addressEnv.join(" 또는 ")}가 설정되어 있지 않습니다.`);
+};
+
+/**
+ * 리스너 정의에서 시작 블록 번호를 읽어옵니다.
+ * 환경 변수와 정의의 startBlock이 모두 없으면 null을 반환합니다.
+ * 
+ * @throws Error - 환경 변수 값이 0 이상의 정수가 아닐 때
+ */
+export const resolveListenerStartBlock = (definition: ContractListenerDefinition): number | null => {
+  const raw = definition.startBlockEnv ? process.env[definition.startBlockEnv] : undefined;
+  if (raw === undefined || raw === "") {
+    return definition.startBlock ?? null;
+  }
+
+  const value = Number(raw);
+  if (!Number.isInteger(value) || value < 0) {
+    throw new Error(`${definition.startBlockEnv} 값이 올바르지 않습니다: ${raw}`);
+  }
+  return value;
+};
@@ -0,0 +1,109 @@
+import { config as loadEnv } from "dotenv";
+
+loadEnv();
+
+export type SinkType = "http" | "redis-stream" | "file" | "stdout";
+
+/**
+ * 싱크별 재시도 정책입니다. (BullMQ 작업 옵션으로 적용)
+ */
+export interface SinkRetryPolicy {
+  /** 최초 시도를 포함한 최대 시도 횟수 */
+  attempts: number;
+  backoff: {
+    type: "fixed" | "exponential";
+    /** 첫 재시도까지 대기 시간 (ms) */
+    delay: number;
+  };
+}
+
+/**
+ * 이벤트 싱크 레지스트리 항목입니다.
+ *
+ * 워커는 이벤트 큐의 작업마다 events에 해당하는 싱크를 찾아 싱크별 큐로 나누어 적재하고,
+ * 싱크 큐 워커가 각자의 재시도 정책으로 전달합니다.
+ * 한 싱크가 실패해도 다른 싱크의 전달에는 영향을 주지 않습니다.
+ */
+export interface EventSinkDefinition {
+  /** 싱크 이름 (싱크 큐 이름과 로그 태그에 사용) */
+  name: string;
+  type: SinkType;
+  /** 기본 활성화 여부 (BLOCKCHAIN_SINKS 환경 변수로 덮어쓸 수 있음) */
+  enabled: boolean;
+  /** 전달할 이벤트(작업) 이름 목록. "*"는 모든 이벤트 */
+  events: string[];
+  retry: SinkRetryPolicy;
+}
+
+/**
+ * 이벤트 싱크 목록입니다.
+ *
+ * 싱크별 추가 설정:
+ * - http: MAIN_SERVER_API_URL, WEBHOOK_SIGNING_SECRETS
+ * - redis-stream: BLOCKCHAIN_SINK_STREAM_KEY, BLOCKCHAIN_SINK_STREAM_MAXLEN
+ * - file: BLOCKCHAIN_SINK_FILE_PATH
+ */
+export const SINK_DEFINITIONS: EventSinkDefinition[] = [
+  {
+    name: "main-server",
+    type: "http",
+    enabled: true,
+    events: ["*"],
+    retry: { attempts: 5, backoff: { type: "exponential", delay: 5000 } },
+  },
+  {
+    name: "redis-stream",
+    type: "redis-stream",
+    enabled: false,
+    events: ["*"],
+    retry: { attempts: 3, backoff: { type: "fixed", delay: 1000 } },
+  },
+  {
+    name: "ndjson-file",
+    type: "file",
+    enabled: false,
+    events: ["*"],
+    retry: { attempts: 3, backoff: { type: "fixed", delay: 1000 } },
+  },
+  {
+    name: "stdout",
+    type: "stdout",
+    enabled: false,
+    events: ["*"],
+    retry: { attempts: 1, backoff: { type: "fixed", delay: 0 } },
+  },
+];
+
+/**
+ * 활성화된 싱크 정의 목록을 반환합니다.
+ *
+ * BLOCKCHAIN_SINKS가 설정되어 있으면(쉼표 구분 이름 목록) 그 목록만 활성화하고,
+ * 없으면 각 항목의 enabled 값을 따릅니다.
+ */
+export const getEnabledSinkDefinitions = (): EventSinkDefinition[] => {
+  const override = process.env.BLOCKCHAIN_SINKS;
+  if (override === undefined) {
+    return SINK_DEFINITIONS.filter((definition) => definition.enabled);
+  }
+
+  const names = override
+    .split(",")
+    .map((name) => name.trim())
+    .filter((name) => name.length > 0);
+
+  const unknown = names.filter((name) => !SINK_DEFINITIONS.some((definition) => definition.name === name));
+  if (unknown.length > 0) {
+    throw new Error(`BLOCKCHAIN_SINKS에 등록되지 않은 싱크가 있습니다: ${unknown.join(", ")}`);
+  }
+
+  return SINK_DEFINITIONS.filter((definition) => names.includes(definition.name));
+};
+
+/**
+ * 이벤트 이름에 해당하는 싱크 정의 목록을 반환합니다.
+ */
+export const resolveSinksForEvent = (
+  definitions: EventSinkDefinition[],
+  eventName: string,
+): EventSinkDefinition[] =>
+  definitions.filter((definition) => definition.events.includes("*") || definition.events.includes(eventName));
@@ -0,0 +1,213 @@
+/**
+ * 블록체인 관리자 컨트롤러
+ * 
+ * 기능:
+ * - 데드레터 큐 조회, 재전송, 삭제
+ * - 데드레터 통계 조회 (알림 기준용 누적 카운터)
+ * - 리스너, 큐, 워커 상태 조회 (모니터링용)
+ * - 과거 이벤트 재전송 (블록 구간 지정, dry run 지원)
+ * 
+ * 지원 엔드포인트:
+ * - GET /api/admin/blockchain/status - 리스너/큐/워커 상태 조회
+ * - POST /api/admin/blockchain/replay - 과거 이벤트 재전송
+ * - GET /api/admin/blockchain/dead-letters - 데드레터 목록 조회
+ * - GET /api/admin/blockchain/dead-letters/stats - 데드레터 통계 조회
+ * - POST /api/admin/blockchain/dead-letters/replay - 데드레터 전체 재전송
+ * - POST /api/admin/blockchain/dead-letters/:id/replay - 데드레터 하나 재전송
+ * - DELETE /api/admin/blockchain/dead-letters - 데드레터 전체 삭제
+ * - DELETE /api/admin/blockchain/dead-letters/:id - 데드레터 하나 삭제
+ */
+
+import { Request, Response } from "express";
+import {
+  discardAllDeadLetters,
+  discardDeadLetter,
+  getDeadLetterStats,
+  listDeadLetters,
+  replayAllDeadLetters,
+  replayDeadLetter
+} from "../services/blockchain/deadLetter.service";
+import { getBlockchainStatus } from "../services/blockchain/status.service";
+import { replayHistoricalEvents } from "../services/blockchain/replay.service";
+
+const DEFAULT_DEAD_LETTER_LIMIT = 50;
+const MAX_DEAD_LETTER_LIMIT = 200;
+
+/**
+ * 데드레터 목록 조회 컨트롤러
+ * 
+ * 쿼리 파라미터:
+ * - offset: 건너뛸 개수 (기본 0)
+ * - limit: 조회 개수 (기본 50, 최대 200)
+ * 
+ * @param req - Express Request 객체
+ * @param res - Express Response 객체
+ * @returns { entries: Array<{id, sourceQueue, eventName, payload, failedReason, attemptsMade, failedAt}>, total: number }
+ */
+export async function listDeadLettersController(req: Request, res: Response) {
+  try {
+    const offset = req.query.offset === undefined ? 0 : Number(req.query.offset);
+    const limit = req.query.limit === undefined ? DEFAULT_DEAD_LETTER_LIMIT : Number(req.query.limit);
+
+    if (!Number.isInteger(offset) || offset < 0) {
+      return res.status(400).json({ error: "offset must be a non-negative integer" });
+    }
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_DEAD_LETTER_LIMIT) {
+      return res.status(400).json({ error: `limit must be an integer between 1 and ${MAX_DEAD_LETTER_LIMIT}` });
+    }
+
+    const result = await listDeadLetters(offset, limit);
+    return res.json({ ...result, offset, limit });
+  } catch (err: any) {
+    console.error('[listDeadLetters] error:', err);
+    return res.status(500).json({ error: err.message || "Dead letter query failed" });
+  }
+}
+
+/**
+ * 데드레터 통계 조회 컨트롤러
+ * 
+ * total은 누적 값이므로 모니터링에서 증가량을 기준으로 알림을 설정합니다.
+ * 
+ * @param _req - Express Request 객체 (사용하지 않음)
+ * @param res - Express Response 객체
+ * @returns { total: number, pending: number, byQueue: Record<string, number> }
+ */
+export async function getDeadLetterStatsController(_req: Request, res: Response) {
+  try {
+    return res.json(await getDeadLetterStats());
+  } catch (err: any) {
+    console.error('[getDeadLetterStats] error:', err);
+    return res.status(500).json({ error: err.message || "Dead letter stats query failed" });
+  }
+}
+
+/**
+ * 데드레터 재전송 컨트롤러
+ * 
+ * URL 파라미터 id가 있으면 해당 작업만, 없으면 전체를 원래 큐로 다시 적재합니다.
+ * 
+ * @param req - Express Request 객체
+ * @param res - Express Response 객체
+ * @returns { replayed: number }
+ * @throws 404 - 해당 ID의 데드레터가 없을 때
+ */
+export async function replayDeadLetterController(req: Request, res: Response) {
+  try {
+    const { id } = req.params;
+
+    if (!id) {
+      return res.json({ replayed: await replayAllDeadLetters() });
+    }
+
+    if (!(await replayDeadLetter(id))) {
+      return res.status(404).json({ error: "Dead letter not found" });
+    }
+    return res.json({ replayed: 1 });
+  } catch (err: any) {
+    console.error('[replayDeadLetter] error:', err);
+    return res.status(500).json({ error: err.message || "Dead letter replay failed" });
+  }
+}
+
+/**
+ * 데드레터 삭제 컨트롤러
+ * 
+ * URL 파라미터 id가 있으면 해당 작업만, 없으면 전체를 재전송 없이 삭제합니다.
+ * 
+ * @param req - Express Request 객체
+ * @param res - Express Response 객체
+ * @returns { discarded: number }
+ * @throws 404 - 해당 ID의 데드레터가 없을 때
+ */
+export async function discardDeadLetterController(req: Request, res: Response) {
+  try {
+    const { id } = req.params;
+
+    if (!id) {
+      return res.json({ discarded: await discardAllDeadLetters() });
+    }
+
+    if (!(await discardDeadLetter(id))) {
+      return res.status(404).json({ error: "Dead letter not found" });
+    }
+    return res.json({ discarded: 1 });
+  } catch (err: any) {
+    console.error('[discardDeadLetter] error:', err);
+    return res.status(500).json({ error: err.message || "Dead letter discard failed" });
+  }
+}
+
+/**
+ * 블록체인 파이프라인 상태 조회 컨트롤러
+ * 
+ * 실행 흐름:
+ * 1. 리스너/워커 프로세스가 주기적으로 Redis에 기록한 상태를 읽음
+ * 2. 이벤트 큐, 싱크 큐, 데드레터 큐의 작업 수를 조회
+ * 3. 데드레터 통계와 함께 반환
+ * 
+ * 리스너와 워커가 다른 프로세스에서 실행되어도 조회할 수 있으며,
+ * 보고가 끊긴 프로세스의 항목은 stale: true로 표시됩니다.
+ * 
+ * @param _req - Express Request 객체 (사용하지 않음)
+ * @param res - Express Response 객체
+ * @returns { listeners, workers, queues, deadLetters, generatedAt }
+ */
+export async function getBlockchainStatusController(_req: Request, res: Response) {
+  try {
+    return res.json(await getBlockchainStatus());
+  } catch (err: any) {
+    console.error('[getBlockchainStatus] error:', err);
+    return res.status(500).json({ error: err.message || "Blockchain status query failed" });
+  }
+}
+
+/**
+ * 과거 이벤트 재전송 컨트롤러
+ * 
+ * 실행 흐름:
+ * 1. 요청 본문 검증 (listener, fromBlock, toBlock, events, dryRun)
+ * 2. replayHistoricalEvents()로 구간의 이벤트를 다시 조회
+ * 3. dryRun이 아니면 replay: true 플래그와 함께 이벤트 큐에 적재
+ * 
+ * 실시간 리스너의 체크포인트는 변경하지 않습니다.
+ * 
+ * @param req - Express Request 객체
+ *   - req.body.listener: 리스너 이름 (예: NftVault, MarketplaceVault)
+ *   - req.body.fromBlock, req.body.toBlock: 블록 구간 (양 끝 포함)
+ *   - req.body.events: 이벤트 이름 배열 (선택, 생략 시 리스너의 모든 이벤트)
+ *   - req.body.dryRun: true면 적재하지 않고 대상 이벤트만 반환 (선택, 기본 false)
+ * @param res - Express Response 객체
+ * @returns { replayId, listenerName, queueName, fromBlock, toBlock, events, dryRun, total, items }
+ * @throws 400 - 잘못된 리스너, 이벤트, 블록 구간, BLOCKCHAIN_REPLAY_MAX_BLOCKS 또는 BLOCKCHAIN_REPLAY_MAX_EVENTS 초과
+ */
+export async function replayEventsController(req: Request, res: Response) {
+  try {
+    const { listener, fromBlock, toBlock, events, dryRun } = req.body ?? {};
+
+    if (typeof listener !== "string" || listener.length === 0) {
+      return res.status(400).json({ error: "listener is required" });
+    }
+    if (!Number.isInteger(fromBlock) || !Number.isInteger(toBlock)) {
+      return res.status(400).json({ error: "fromBlock and toBlock must be integers" });
+    }
+    if (events !== undefined && (!Array.isArray(events) || !events.every((name) => typeof name === "string"))) {
+      return res.status(400).json({ error: "events must be an array of event names" });
+    }
+    if (dryRun !== undefined && typeof dryRun !== "boolean") {
+      return res.status(400).json({ error: "dryRun must be a boolean" });
+    }
+
+    const result = await replayHistoricalEvents({
+      listenerName: listener,
+      fromBlock,
+      toBlock,
+      events,
+      dryRun: dryRun === true,
+    });
+    return res.json(result);
+  } catch (err: any) {
+    console.error('[replayEvents] error:', err);
+    return res.status(err.status || 500).json({ error: err.message || "Event replay failed" });
+  }
+}
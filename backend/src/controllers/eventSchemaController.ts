@@ -0,0 +1,58 @@
+/**
+ * 이벤트 페이로드 스키마 컨트롤러
+ * 
+ * 기능:
+ * - 메인 서버로 전달되는 이벤트 페이로드의 JSON Schema와 schemaVersion 공개
+ * 
+ * 스키마는 컨트랙트 ABI에서 생성됩니다. (npm run generate:event-schemas)
+ * 메인 서버는 페이로드의 schemaVersion과 이 API의 version을 비교하여 호환 여부를 확인할 수 있습니다.
+ * 
+ * 지원 엔드포인트:
+ * - GET /api/blockchain/events/schemas - 전체 이벤트 스키마 조회
+ * - GET /api/blockchain/events/schemas/:eventName - 이벤트 하나의 스키마 조회
+ */
+
+import { Request, Response } from "express";
+import { getEventSchema, getEventSchemaVersion, getPreviousEventSchema, listEventSchemas } from "../services/blockchain/eventSchema.service";
+
+/**
+ * 전체 이벤트 스키마 조회 컨트롤러
+ * 
+ * @param _req - Express Request 객체 (사용하지 않음)
+ * @param res - Express Response 객체
+ * @returns { schemas: Record<eventName, { version, schema, previous? }> }
+ */
+export async function listEventSchemasController(_req: Request, res: Response) {
+  try {
+    return res.json({ schemas: listEventSchemas() });
+  } catch (err: any) {
+    console.error('[listEventSchemas] error:', err);
+    return res.status(500).json({ error: err.message || "Event schema query failed" });
+  }
+}
+
+/**
+ * 이벤트 하나의 스키마 조회 컨트롤러
+ * 
+ * @param req - Express Request 객체 (params.eventName: 이벤트 이름, 예: NftLocked)
+ * @param res - Express Response 객체
+ * @returns { eventName, version, schema, previous? } (없으면 404)
+ */
+export async function getEventSchemaController(req: Request, res: Response) {
+  try {
+    const { eventName } = req.params;
+    const schema = getEventSchema(eventName);
+    if (!schema) {
+      return res.status(404).json({ error: `Unknown event: ${eventName}` });
+    }
+    return res.json({
+      eventName,
+      version: getEventSchemaVersion(eventName),
+      schema,
+      previous: getPreviousEventSchema(eventName),
+    });
+  } catch (err: any) {
+    console.error('[getEventSchema] error:', err);
+    return res.status(500).json({ error: err.message || "Event schema query failed" });
+  }
+}
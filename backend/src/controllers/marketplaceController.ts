@@ -0,0 +1,355 @@
+/**
+ * 마켓플레이스 컨트롤러
+ * 
+ * 기능:
+ * - MarketplaceVault에 저장된 리스팅과 마켓플레이스 설정 조회 (view 함수만 사용, 가스 비용 없음)
+ * 
+ * 사용되는 스마트 컨트랙트 함수:
+ * - listings(uint256 tokenId) - tokenId의 활성 리스팅
+ * - paymentToken(), feeCollector(), platformFeePercent(), nftContract() - 마켓플레이스 설정
+ * - NFTListed, NFTSold, NFTReclaimed 이벤트 - 활성 리스팅 카탈로그 (컨트랙트는 리스팅 목록을 제공하지 않음)
+ * 
+ * 지원 엔드포인트:
+ * - GET /api/blockchain/marketplace/config - 마켓플레이스 설정 조회
+ * - GET /api/blockchain/marketplace/listings - 활성 리스팅 카탈로그 조회 (필터, 정렬, 페이지)
+ * - GET /api/blockchain/marketplace/listings/:tokenId - tokenId의 리스팅 조회
+ * - POST /api/blockchain/marketplace/prepare-listing - 사용자가 서명할 리스팅 트랜잭션 준비 (approve → listNFT)
+ * - POST /api/blockchain/marketplace/prepare-purchase - 사용자가 서명할 구매 트랜잭션 준비 (결제 토큰 approve → buyNFT)
+ */
+
+import { Request, Response } from "express";
+import { isAddress, parseUnits } from "ethers";
+import {
+  PaymentTokenInfo,
+  getMarketplaceConfig,
+  getMarketplaceListing,
+  getMarketplacePaymentToken,
+  toTokenAmount,
+} from "../services/blockchain/marketplace.service";
+import {
+  IndexedListing,
+  LISTING_SORT_FIELDS,
+  ListingQuery,
+  ListingSortField,
+  getMarketplaceIndexState,
+  parseListingCursor,
+  queryListings,
+} from "../services/blockchain/marketplaceIndex.service";
+import {
+  prepareListingTransactions,
+  preparePurchaseTransactions,
+} from "../services/blockchain/transactionBuilder.service";
+
+const DEFAULT_CATALOG_LIMIT = 50;
+const MAX_CATALOG_LIMIT = 200;
+
+/**
+ * 카탈로그 조회 쿼리 파라미터를 파싱하는 함수
+ * 
+ * 지원 파라미터:
+ * - itemId: 아이템 ID (토큰 ID 상위 자리)
+ * - seller: 판매자 주소
+ * - minPrice, maxPrice: 가격 범위 (결제 토큰 단위, 예: 1.5, 포함)
+ * - expiresAfter, expiresBefore: 만료 시각 범위 (unix seconds 또는 ISO 8601, 포함)
+ * - sort: price, expiresAt, listedAt (기본 listedAt)
+ * - order: asc, desc (기본 desc)
+ * - limit: 페이지 크기 (기본 50, 최대 200)
+ * - cursor: 이전 응답의 nextCursor (같은 sort로만 사용 가능)
+ * 
+ * @param query - Express 쿼리 객체
+ * @param paymentToken - 가격을 최소 단위로 변환할 결제 토큰
+ * @returns 파싱 결과 또는 오류 메시지
+ */
+function parseCatalogQuery(
+  query: Request["query"],
+  paymentToken: PaymentTokenInfo
+): {options: ListingQuery | null, error: string | null} {
+  const readString = (key: string): string | undefined =>
+    typeof query[key] === 'string' && (query[key] as string).length > 0 ? (query[key] as string) : undefined;
+
+  const readPrice = (key: string): bigint | undefined | null => {
+    const raw = readString(key);
+    if (raw === undefined) return undefined;
+    try {
+      const value = parseUnits(raw, paymentToken.decimals);
+      return value >= 0n ? value : null;
+    } catch {
+      return null;
+    }
+  };
+
+  const readTime = (key: string): number | undefined | null => {
+    const raw = readString(key);
+    if (raw === undefined) return undefined;
+    const value = /^\d+$/.test(raw) ? Number(raw) : Math.floor(Date.parse(raw) / 1000);
+    return Number.isFinite(value) && value >= 0 ? value : null;
+  };
+
+  const rawLimit = readString('limit');
+  const limit = rawLimit === undefined ? DEFAULT_CATALOG_LIMIT : Number(rawLimit);
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_CATALOG_LIMIT) {
+    return { options: null, error: `limit must be an integer between 1 and ${MAX_CATALOG_LIMIT}` };
+  }
+
+  const rawItemId = readString('itemId');
+  const itemId = rawItemId === undefined ? undefined : Number(rawItemId);
+  if (itemId !== undefined && (!Number.isInteger(itemId) || itemId < 0)) {
+    return { options: null, error: "itemId must be a non-negative integer" };
+  }
+
+  const seller = readString('seller');
+  if (seller !== undefined && !isAddress(seller)) {
+    return { options: null, error: "Invalid seller address" };
+  }
+
+  const minPrice = readPrice('minPrice');
+  const maxPrice = readPrice('maxPrice');
+  if (minPrice === null || maxPrice === null) {
+    return { options: null, error: `minPrice and maxPrice must be non-negative amounts in ${paymentToken.symbol}` };
+  }
+
+  const expiresAfter = readTime('expiresAfter');
+  const expiresBefore = readTime('expiresBefore');
+  if (expiresAfter === null || expiresBefore === null) {
+    return { options: null, error: "expiresAfter and expiresBefore must be unix seconds or ISO 8601 dates" };
+  }
+
+  const sort = (readString('sort') ?? 'listedAt') as ListingSortField;
+  if (!LISTING_SORT_FIELDS.includes(sort)) {
+    return { options: null, error: `sort must be one of ${LISTING_SORT_FIELDS.join(', ')}` };
+  }
+
+  const order = readString('order') ?? 'desc';
+  if (order !== 'asc' && order !== 'desc') {
+    return { options: null, error: "order must be asc or desc" };
+  }
+
+  const cursor = readString('cursor');
+  if (cursor !== undefined && parseListingCursor(cursor)?.sort !== sort) {
+    return { options: null, error: "Invalid cursor" };
+  }
+
+  return {
+    options: { itemId, seller, minPrice, maxPrice, expiresAfter, expiresBefore, sort, order, cursor, limit },
+    error: null
+  };
+}
+
+/**
+ * 인덱스 레코드를 카탈로그 응답 형식으로 변환하는 함수
+ * 
+ * @param listing - 리스팅 인덱스 레코드
+ * @param paymentToken - 가격 표시에 사용할 결제 토큰
+ * @param checkedAt - 만료 계산 기준 시각 (unix seconds)
+ */
+function toCatalogListing(listing: IndexedListing, paymentToken: PaymentTokenInfo, checkedAt: number) {
+  return {
+    tokenId: listing.tokenId,
+    itemId: listing.itemId,
+    instanceNumber: listing.instanceNumber,
+    listingId: listing.listingId,
+    seller: listing.seller,
+    price: toTokenAmount(BigInt(listing.price), paymentToken),
+    expiresAt: listing.expiresAt,
+    expiresInSeconds: Math.max(listing.expiresAt - checkedAt, 0),
+    blockNumber: listing.blockNumber,
+    transactionHash: listing.transactionHash
+  };
+}
+
+/**
+ * 마켓플레이스 설정 조회 컨트롤러
+ * 
+ * @param _req - Express Request 객체 (사용하지 않음)
+ * @param res - Express Response 객체
+ * @returns { address, nftContract, paymentToken: { address, name, symbol, decimals }, feeCollector, platformFeePercent, platformFeeRate }
+ * @throws 500 - 블록체인 상호작용 실패 시
+ */
+export async function getMarketplaceConfigController(_req: Request, res: Response) {
+  try {
+    return res.json(await getMarketplaceConfig());
+  } catch (err: any) {
+    console.error('[getMarketplaceConfig] error:', err);
+    return res.status(500).json({ error: err.message || "Marketplace config query failed" });
+  }
+}
+
+/**
+ * 활성 리스팅 카탈로그 조회 컨트롤러
+ * 
+ * 실행 흐름:
+ * 1. 리스팅 인덱스 준비 여부 확인 (인덱서가 실행되지 않았거나 최초 백필 중이거나 헤드보다 뒤처져 있으면 503)
+ * 2. 쿼리 파라미터(필터, 정렬, limit, cursor) 검증 (가격은 결제 토큰 단위를 최소 단위로 변환)
+ * 3. 인덱스에서 페이지 단위로 조회 (최신 블록 시각 기준으로 만료되었지만 회수되지 않은 리스팅 제외)
+ * 4. 결제 토큰 단위 가격과 만료까지 남은 시간을 포함하여 반환
+ * 
+ * @param req - Express Request 객체
+ * @param res - Express Response 객체
+ * @returns { listings: Array<{tokenId, itemId, instanceNumber, listingId, seller, price, expiresAt, expiresInSeconds, blockNumber, transactionHash}>, nextCursor: string | null, checkedAt: number, indexedThrough: number, lagBlocks: number }
+ * @throws 400 - 쿼리 파라미터 형식이 잘못되었을 때
+ * @throws 503 - 리스팅 인덱스를 사용할 수 없거나 아직 헤드를 따라잡지 못했을 때
+ * @throws 500 - 조회 실패 시
+ */
+export async function listMarketplaceListingsController(req: Request, res: Response) {
+  try {
+    const indexState = await getMarketplaceIndexState();
+    if (!indexState) {
+      return res.status(503).json({ error: "Marketplace listing index is not available" });
+    }
+    if (!indexState.ready) {
+      return res.status(503).json({
+        error: "Marketplace listing index is not ready yet",
+        indexedThrough: indexState.indexedThrough,
+        lagBlocks: indexState.lagBlocks
+      });
+    }
+
+    const paymentToken = await getMarketplacePaymentToken();
+    const { options, error } = parseCatalogQuery(req.query, paymentToken);
+    if (!options) {
+      return res.status(400).json({ error });
+    }
+
+    const page = await queryListings(options);
+    return res.json({
+      listings: page.items.map((listing) => toCatalogListing(listing, paymentToken, page.checkedAt)),
+      nextCursor: page.nextCursor,
+      checkedAt: page.checkedAt,
+      indexedThrough: indexState.indexedThrough,
+      lagBlocks: indexState.lagBlocks
+    });
+  } catch (err: any) {
+    console.error('[listMarketplaceListings] error:', err);
+    return res.status(500).json({ error: err.message || "Marketplace catalog query failed" });
+  }
+}
+
+/**
+ * 리스팅 조회 컨트롤러
+ * 
+ * 실행 흐름:
+ * 1. URL 파라미터에서 tokenId 추출 및 형식 검증
+ * 2. MarketplaceVault.listings(tokenId) 조회
+ * 3. Status 열거형, 결제 토큰 단위 가격, 최신 블록 기준 만료까지 남은 시간을 포함하여 반환
+ * 
+ * @param req - Express Request 객체 (params.tokenId: 토큰 ID)
+ * @param res - Express Response 객체
+ * @returns { tokenId, itemId, instanceNumber, listingId, seller, status, price: { raw, formatted, symbol, decimals }, listedAt, expiresAt, expired, expiresInSeconds, checkedAt }
+ * @throws 400 - tokenId 형식이 잘못되었을 때
+ * @throws 404 - 리스팅되지 않은 토큰일 때 (판매/회수된 리스팅은 컨트랙트에서 삭제됨)
+ * @throws 500 - 블록체인 상호작용 실패 시
+ */
+export async function getMarketplaceListingController(req: Request, res: Response) {
+  try {
+    const { tokenId } = req.params;
+    if (!tokenId || !/^[0-9]+$/.test(tokenId)) {
+      return res.status(400).json({ error: "Invalid tokenId" });
+    }
+
+    const listing = await getMarketplaceListing(tokenId);
+    if (!listing) {
+      return res.status(404).json({ error: `Token ${tokenId} is not listed` });
+    }
+    return res.json(listing);
+  } catch (err: any) {
+    console.error('[getMarketplaceListing] error:', err);
+    return res.status(500).json({ error: err.message || "Marketplace listing query failed" });
+  }
+}
+
+/**
+ * 리스팅 트랜잭션 준비 컨트롤러
+ * 
+ * 서버 지갑으로 실행하지 않고, 사용자가 지갑(MetaMask 등)으로 서명할 트랜잭션 요청을 반환합니다.
+ * 
+ * 실행 흐름:
+ * 1. 요청 본문에서 walletAddress, tokenId, price(결제 토큰 단위), durationSeconds 추출 및 검증
+ * 2. 지갑이 토큰을 소유하는지 확인
+ * 3. 마켓플레이스 승인(approve)이 없으면 승인 단계 추가, 있으면 생략
+ * 4. listNFT 호출 데이터 생성 (승인이 필요 없으면 가스 추정으로 실행 가능 여부도 확인)
+ * 
+ * @param req - Express Request 객체 (body: { walletAddress, tokenId, price, durationSeconds })
+ * @param res - Express Response 객체
+ * @returns { transactions: Array<{ step, description, from, to, data, value, chainId, gasLimit }>, skippedSteps: string[] }
+ * @throws 400 - 파라미터가 잘못되었거나, 토큰을 소유하지 않았거나, 실행하면 revert될 때
+ * @throws 404 - 존재하지 않는 토큰일 때
+ * @throws 500 - 블록체인 상호작용 실패 시
+ */
+export async function prepareListingController(req: Request, res: Response) {
+  try {
+    const { walletAddress, tokenId, price, durationSeconds } = req.body as {
+      walletAddress: string;
+      tokenId: string | number;
+      price: string | number;
+      durationSeconds: number;
+    };
+
+    if (!walletAddress || typeof walletAddress !== "string" || !isAddress(walletAddress)) {
+      return res.status(400).json({ error: "Invalid wallet address" });
+    }
+    if (tokenId === undefined || tokenId === null || !/^[0-9]+$/.test(String(tokenId))) {
+      return res.status(400).json({ error: "Invalid tokenId" });
+    }
+    if (!Number.isInteger(durationSeconds) || durationSeconds <= 0) {
+      return res.status(400).json({ error: "durationSeconds must be a positive integer" });
+    }
+
+    const paymentToken = await getMarketplacePaymentToken();
+    let rawPrice: bigint;
+    try {
+      rawPrice = parseUnits(String(price), paymentToken.decimals);
+    } catch {
+      return res.status(400).json({ error: `price must be an amount in ${paymentToken.symbol}` });
+    }
+
+    const prepared = await prepareListingTransactions({
+      walletAddress,
+      tokenId: String(tokenId),
+      price: rawPrice,
+      durationSeconds,
+    });
+    return res.json({ ...prepared, price: toTokenAmount(rawPrice, paymentToken) });
+  } catch (err: any) {
+    console.error('[prepareListing] error:', err);
+    return res.status(err.status || 500).json({ error: err.message || "Listing preparation failed" });
+  }
+}
+
+/**
+ * 구매 트랜잭션 준비 컨트롤러
+ * 
+ * 서버 지갑으로 실행하지 않고, 사용자가 지갑(MetaMask 등)으로 서명할 트랜잭션 요청을 반환합니다.
+ * 구매할 수 없으면 blockers에 사유가 담기고 transactions는 비어 있습니다.
+ * 
+ * 실행 흐름:
+ * 1. 요청 본문에서 walletAddress, tokenId 추출 및 검증
+ * 2. 리스팅 조회 (없으면 404)
+ * 3. 리스팅 상태/만료 여부와 구매자의 결제 토큰 잔액 확인 (부족하면 blockers에 사유 추가)
+ * 4. 구매할 수 있으면 승인 금액이 가격보다 적을 때만 approve 단계 추가
+ * 5. buyNFT 호출 데이터 생성 (승인이 필요 없으면 가스 추정으로 실행 가능 여부도 확인)
+ * 
+ * @param req - Express Request 객체 (body: { walletAddress, tokenId })
+ * @param res - Express Response 객체
+ * @returns { transactions: Array<{ step, description, from, to, data, value, chainId, gasLimit }>, skippedSteps: string[], listing, price, fee, sellerProceeds, platformFeePercent, balance, allowance, blockers: string[] }
+ * @throws 400 - 파라미터가 잘못되었거나, 실행하면 revert될 때
+ * @throws 404 - 리스팅되지 않은 토큰일 때
+ * @throws 500 - 블록체인 상호작용 실패 시
+ */
+export async function preparePurchaseController(req: Request, res: Response) {
+  try {
+    const { walletAddress, tokenId } = req.body as { walletAddress: string; tokenId: string | number };
+
+    if (!walletAddress || typeof walletAddress !== "string" || !isAddress(walletAddress)) {
+      return res.status(400).json({ error: "Invalid wallet address" });
+    }
+    if (tokenId === undefined || tokenId === null || !/^[0-9]+$/.test(String(tokenId))) {
+      return res.status(400).json({ error: "Invalid tokenId" });
+    }
+
+    const prepared = await preparePurchaseTransactions({ walletAddress, tokenId: String(tokenId) });
+    return res.json(prepared);
+  } catch (err: any) {
+    console.error('[preparePurchase] error:', err);
+    return res.status(err.status || 500).json({ error: err.message || "Purchase preparation failed" });
+  }
+}
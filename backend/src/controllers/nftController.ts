@@ -18,12 +18,33 @@
  * - ownerOf(uint256 tokenId) - NFT 소유자 조회
  * - tokenURI(uint256 tokenId) - NFT 메타데이터 URI 조회
  * - balanceOf(address owner) - 지갑의 NFT 개수 조회
- * - tokenOfOwnerByIndex(address owner, uint256 index) - 지갑의 특정 인덱스 NFT 조회
+ * - Transfer 이벤트 - 거래 이력 및 지갑 인벤토리 (GameItem은 ERC721Enumerable이 아님)
  */
 
 import { Request, Response } from "express";
-import { getContract, getVaultContract, getWallet } from "../utils/contract";
+import { Contract, ContractEventName } from "ethers";
+import { getContract, getProvider, getVaultContract, getWallet } from "../utils/contract";
 import { uploadJsonToPinata, testPinataConnection } from "../utils/pinata";
+import { resolveListenerStartBlock, TRANSFER_INDEX_DEFINITION } from "../config/listeners.config";
+import {
+  encodeTransferBlockEndCursor,
+  encodeTransferCursor,
+  getTransferIndexState,
+  parseTransferCursor,
+  queryTransfers,
+  resolveTransferType,
+  TRANSFER_TYPES,
+  TransferRecord,
+  TransferType,
+} from "../services/blockchain/transferIndex.service";
+import { isRangeTooLargeError, resolveBackfillChunkSize } from "../services/blockchain/backfill.service";
+import { getWalletInventory } from "../services/blockchain/inventory.service";
+import { MAX_LOCK_BATCH_SIZE, prepareLockupTransactions } from "../services/blockchain/transactionBuilder.service";
+
+const DEFAULT_HISTORY_LIMIT = 50;
+const MAX_HISTORY_LIMIT = 200;
+// RPC 직접 조회 시 요청 한 번에 거슬러 올라갈 최대 블록 수
+const MAX_RPC_HISTORY_SCAN_BLOCKS = 50_000;
 
 /**
  * 구조화된 메타데이터 형식을 검증하는 함수
@@ -70,6 +91,245 @@ function validateStructuredMetadata(itemData: any): {isValid: boolean, errors: s
   };
 }
 
+/**
+ * 거래 이력 조회 공통 쿼리 파라미터
+ */
+interface HistoryQueryOptions {
+  limit: number;
+  cursor?: string;
+  types?: TransferType[];
+  fromBlock?: number;
+  toBlock?: number;
+  fromTime?: number;
+  toTime?: number;
+}
+
+/**
+ * 거래 이력 조회 쿼리 파라미터를 파싱하는 함수
+ * 
+ * 지원 파라미터:
+ * - limit: 페이지 크기 (기본 50, 최대 200)
+ * - cursor: 이전 응답의 nextCursor
+ * - type: mint, transfer, burn (쉼표로 여러 개 지정 가능)
+ * - fromBlock, toBlock: 블록 범위 (포함)
+ * - fromTime, toTime: 시간 범위 (unix seconds 또는 ISO 8601, 포함)
+ * 
+ * @param query - Express 쿼리 객체
+ * @returns 파싱 결과 또는 오류 메시지
+ */
+function parseHistoryQuery(query: Request["query"]): {options: HistoryQueryOptions | null, error: string | null} {
+  const readString = (key: string): string | undefined =>
+    typeof query[key] === 'string' && (query[key] as string).length > 0 ? (query[key] as string) : undefined;
+
+  const readBlock = (key: string): number | undefined | null => {
+    const raw = readString(key);
+    if (raw === undefined) return undefined;
+    const value = Number(raw);
+    return Number.isInteger(value) && value >= 0 ? value : null;
+  };
+
+  const readTime = (key: string): number | undefined | null => {
+    const raw = readString(key);
+    if (raw === undefined) return undefined;
+    const value = /^\d+$/.test(raw) ? Number(raw) : Math.floor(Date.parse(raw) / 1000);
+    return Number.isFinite(value) && value >= 0 ? value : null;
+  };
+
+  const rawLimit = readString('limit');
+  const limit = rawLimit === undefined ? DEFAULT_HISTORY_LIMIT : Number(rawLimit);
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_HISTORY_LIMIT) {
+    return { options: null, error: `limit must be an integer between 1 and ${MAX_HISTORY_LIMIT}` };
+  }
+
+  const rawTypes = readString('type');
+  const types = rawTypes?.split(',').map((type) => type.trim()) as TransferType[] | undefined;
+  if (types && types.some((type) => !TRANSFER_TYPES.includes(type))) {
+    return { options: null, error: `type must be one of ${TRANSFER_TYPES.join(', ')}` };
+  }
+
+  const fromBlock = readBlock('fromBlock');
+  const toBlock = readBlock('toBlock');
+  if (fromBlock === null || toBlock === null) {
+    return { options: null, error: "fromBlock and toBlock must be non-negative integers" };
+  }
+
+  const fromTime = readTime('fromTime');
+  const toTime = readTime('toTime');
+  if (fromTime === null || toTime === null) {
+    return { options: null, error: "fromTime and toTime must be unix seconds or ISO 8601 dates" };
+  }
+
+  const cursor = readString('cursor');
+  if (cursor !== undefined && parseTransferCursor(cursor) === null) {
+    return { options: null, error: "Invalid cursor" };
+  }
+
+  return {
+    options: { limit, cursor, types, fromBlock, toBlock, fromTime, toTime },
+    error: null
+  };
+}
+
+/**
+ * 인덱스 레코드를 거래 이력 응답 형식으로 변환하는 함수
+ * 
+ * @param record - Transfer 인덱스 레코드
+ * @param walletAddress - 지정 시 direction(sent/received) 포함
+ */
+function toHistoryTransaction(record: TransferRecord, walletAddress?: string) {
+  return {
+    from: record.from,
+    to: record.to,
+    tokenId: Number(record.tokenId),
+    txHash: record.transactionHash,
+    blockNumber: record.blockNumber,
+    logIndex: record.logIndex,
+    timestamp: record.timestamp,
+    type: record.type,
+    ...(walletAddress
+      ? { direction: record.from.toLowerCase() === walletAddress.toLowerCase() ? 'sent' : 'received' }
+      : {})
+  };
+}
+
+
+/**
+ * Transfer 이력을 RPC로 직접 조회하는 함수 (Transfer 인덱스를 사용할 수 없거나 아직 따라잡지 못했을 때)
+ * 
+ * 실행 흐름:
+ * 1. 정렬 방향에 따라 커서 위치(없으면 fromBlock 또는 최신 블록)부터 블록 구간을 나누어 조회
+ *    - desc: toBlock(또는 최신 블록)부터 과거 방향, asc: fromBlock(또는 GAME_ITEM_START_BLOCK)부터 최신 방향
+ * 2. 구간마다 filters의 로그를 각각 조회하여 합치고 중복 제거
+ *    (지갑 조회에서 자기 자신에게 보낸 전송은 양쪽에 모두 잡히므로 transactionHash + logIndex로 중복 제거)
+ * 3. 유형과 시간 범위로 걸러 정렬하고, limit개가 모이면 마지막 항목 위치를 nextCursor로 반환
+ * 4. 한 요청에서 MAX_RPC_HISTORY_SCAN_BLOCKS 블록까지만 조회하고, 남은 구간은 nextCursor로 이어서 조회
+ * 
+ * RPC가 조회 범위가 너무 크다고 거절하면 구간 크기를 절반으로 줄여 다시 조회합니다.
+ * 커서 형식은 인덱스 조회와 같으므로 응답의 source가 바뀌어도 이어서 조회할 수 있습니다.
+ * 
+ * @param contract - GameItem 컨트랙트 인스턴스
+ * @param filters - Transfer 이벤트 필터 목록 (예: 지갑이 보낸 전송, 받은 전송)
+ * @param options - 거래 이력 조회 옵션
+ * @param order - 정렬 방향 (asc: 오래된 것부터, desc: 최신 것부터)
+ */
+async function scanTransfersFromRpc(
+  contract: Contract,
+  filters: ContractEventName[],
+  options: HistoryQueryOptions,
+  order: 'asc' | 'desc'
+): Promise<{items: TransferRecord[], nextCursor: string | null}> {
+  const provider = getProvider();
+  const latestBlock = await provider.getBlockNumber();
+  const cursor = options.cursor ? parseTransferCursor(options.cursor) : null;
+
+  let lowerBound = options.fromBlock ?? resolveListenerStartBlock(TRANSFER_INDEX_DEFINITION) ?? 0;
+  let upperBound = Math.min(options.toBlock ?? latestBlock, latestBlock);
+  if (cursor && order === 'asc') {
+    lowerBound = Math.max(lowerBound, cursor.blockNumber);
+  } else if (cursor) {
+    upperBound = Math.min(upperBound, cursor.blockNumber);
+  }
+  if (lowerBound > upperBound) {
+    return { items: [], nextCursor: null };
+  }
+
+  // 이번 요청에서 조회할 구간 [scanFrom, scanTo]
+  const scanFrom = order === 'asc' ? lowerBound : Math.max(lowerBound, upperBound - MAX_RPC_HISTORY_SCAN_BLOCKS + 1);
+  const scanTo = order === 'asc' ? Math.min(upperBound, lowerBound + MAX_RPC_HISTORY_SCAN_BLOCKS - 1) : upperBound;
+  let windowSize = resolveBackfillChunkSize();
+  let next = order === 'asc' ? scanFrom : scanTo;
+
+  const items: TransferRecord[] = [];
+  const seen = new Set<string>();
+  const timestamps = new Map<number, number>();
+
+  // 커서 위치와 같거나 그 앞(정렬 방향 기준)인 로그는 이전 페이지에서 이미 반환됨
+  const isAfterCursor = (blockNumber: number, logIndex: number) => {
+    if (!cursor) return true;
+    const comparison = blockNumber - cursor.blockNumber || logIndex - cursor.logIndex;
+    return order === 'asc' ? comparison > 0 : comparison < 0;
+  };
+
+  while (order === 'asc' ? next <= scanTo : next >= scanFrom) {
+    const from = order === 'asc' ? next : Math.max(scanFrom, next - windowSize + 1);
+    const to = order === 'asc' ? Math.min(scanTo, next + windowSize - 1) : next;
+
+    let logs;
+    try {
+      logs = (await Promise.all(filters.map((filter) => contract.queryFilter(filter, from, to)))).flat();
+    } catch (err) {
+      if (isRangeTooLargeError(err) && windowSize > 1) {
+        windowSize = Math.max(1, Math.floor(windowSize / 2));
+        continue;
+      }
+      throw err;
+    }
+
+    const windowItems: TransferRecord[] = [];
+    for (const log of logs) {
+      const id = `${log.transactionHash.toLowerCase()}:${log.index}`;
+      if (seen.has(id) || !isAfterCursor(log.blockNumber, log.index)) {
+        continue;
+      }
+      seen.add(id);
+
+      const parsedLog = contract.interface.parseLog(log);
+      if (!parsedLog || parsedLog.name !== 'Transfer') {
+        continue;
+      }
+
+      const [fromAddress, toAddress, tokenId] = parsedLog.args;
+      const type = resolveTransferType(fromAddress, toAddress);
+      if (options.types && !options.types.includes(type)) {
+        continue;
+      }
+
+      // 블록 정보 조회 (같은 블록은 한 번만 조회)
+      if (!timestamps.has(log.blockNumber)) {
+        const block = await provider.getBlock(log.blockNumber);
+        timestamps.set(log.blockNumber, block?.timestamp ?? 0);
+      }
+      const timestamp = timestamps.get(log.blockNumber) as number;
+      if ((options.fromTime !== undefined && timestamp < options.fromTime) ||
+          (options.toTime !== undefined && timestamp > options.toTime)) {
+        continue;
+      }
+
+      windowItems.push({
+        id,
+        tokenId: tokenId.toString(),
+        from: fromAddress,
+        to: toAddress,
+        type,
+        transactionHash: log.transactionHash,
+        blockNumber: log.blockNumber,
+        blockHash: log.blockHash,
+        logIndex: log.index,
+        timestamp
+      });
+    }
+
+    // 정렬 방향에 맞게 정렬
+    windowItems.sort((a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex);
+    if (order === 'desc') {
+      windowItems.reverse();
+    }
+    for (const item of windowItems) {
+      items.push(item);
+      if (items.length >= options.limit) {
+        return { items, nextCursor: encodeTransferCursor(item.blockNumber, item.logIndex) };
+      }
+    }
+
+    next = order === 'asc' ? to + 1 : from - 1;
+  }
+
+  // 조회 한도에 걸려 남은 구간이 있으면, 마지막으로 조회한 블록 다음(desc는 이전)부터 이어서 조회
+  if (order === 'asc') {
+    return { items, nextCursor: scanTo < upperBound ? encodeTransferBlockEndCursor(scanTo) : null };
+  }
+  return { items, nextCursor: scanFrom > lowerBound ? encodeTransferCursor(scanFrom, 0) : null };
+}
 
 /**
  * 컨트랙트 주소 조회 컨트롤러
@@ -637,18 +897,21 @@ export async function burnNftController(req: Request, res: Response) {
 /**
  * 지갑의 모든 NFT 조회 컨트롤러
  * 
+ * GameItem은 ERC721Enumerable이 아니어서 tokenOfOwnerByIndex를 사용할 수 없으므로,
+ * Transfer 이벤트로 소유 후보를 찾고 ownerOf로 확인한 결과를 반환합니다. (inventory.service.ts)
+ * 
  * 실행 흐름:
  * 1. 쿼리 파라미터에서 walletAddress 추출
  * 2. 필수 파라미터 검증
  * 3. 블록체인 컨트랙트 인스턴스 생성
- * 4. balanceOf로 소유한 NFT 개수 조회
- * 5. 각 NFT의 정보를 순회하며 조회
- * 6. NFT 정보 배열 반환
+ * 4. getWalletInventory()로 인벤토리 조회 (지갑별 캐시 사용)
+ * 5. NFT 정보 배열 반환
  * 
  * @param req - Express Request 객체
  * @param res - Express Response 객체
- * @returns { nfts: Array<{tokenId: number, owner: string, tokenURI: string}> } - NFT 정보 배열
+ * @returns { nfts: Array<{tokenId: number, itemId: number, instanceNumber: number, owner: string, tokenURI: string}>, source: "index" | "rpc", indexedThrough: number | null, scannedFromBlock: number | null, partial: boolean, cached: boolean } - NFT 정보 배열
  * @throws 400 - 필수 파라미터 누락 시
+ * @throws 503 - Transfer 인덱스가 헤드를 거의 따라잡아 잠시 후 다시 요청해야 할 때 (BLOCKCHAIN_INVENTORY_INDEX_CATCH_UP_BLOCKS 이내)
  * @throws 500 - 블록체인 상호작용 실패 시
  */
 export async function getWalletNftsController(req: Request, res: Response) {
@@ -664,44 +927,31 @@ export async function getWalletNftsController(req: Request, res: Response) {
     // 블록체인 컨트랙트 인스턴스 생성
     const contract = await getContract();
     
-    // 지갑이 소유한 NFT 개수 조회
-    const balance = await contract.balanceOf(walletAddress);
-    const balanceNum = Number(balance);
-    
-    if (balanceNum === 0) {
-      return res.json({ nfts: [] });
-    }
-
-    // 각 NFT의 정보를 조회
-    const nfts = [];
-    for (let i = 0; i < balanceNum; i++) {
-      try {
-        // tokenOfOwnerByIndex로 i번째 NFT의 tokenId 조회
-        const tokenId = await contract.tokenOfOwnerByIndex(walletAddress, i);
-        const tokenIdNum = Number(tokenId);
-        
-        // 해당 NFT의 소유자와 URI 조회
-        const [owner, tokenURI] = await Promise.all([
-          contract.ownerOf(tokenId),
-          contract.tokenURI(tokenId)
-        ]);
-        
-        nfts.push({
-          tokenId: tokenIdNum,
-          owner: owner,
-          tokenURI: tokenURI
-        });
-      } catch (err) {
-        console.warn(`Failed to get NFT at index ${i}:`, err);
-        // 개별 NFT 조회 실패 시 무시하고 계속 진행
-      }
-    }
+    // Transfer 이벤트 기반 인벤토리 조회 (ownerOf로 소유 여부 확인)
+    const inventory = await getWalletInventory(contract, walletAddress);
     
     // NFT 정보 배열 반환
-    return res.json({ nfts });
+    return res.json({
+      nfts: inventory.items.map((item) => ({
+        tokenId: Number(item.tokenId),
+        itemId: item.itemId,
+        instanceNumber: item.instanceNumber,
+        owner: item.owner,
+        tokenURI: item.tokenURI
+      })),
+      source: inventory.source,
+      indexedThrough: inventory.indexedThrough,
+      scannedFromBlock: inventory.scannedFromBlock,
+      partial: inventory.partial,
+      cached: inventory.cached,
+      computedAt: inventory.computedAt
+    });
   } catch (err: any) {
     // 에러 처리 및 500 상태코드로 응답
     console.error('[getWalletNfts] error:', err);
+    if (err.status === 503) {
+      return res.status(503).json({ error: err.message, indexedThrough: err.indexedThrough, lagBlocks: err.lagBlocks });
+    }
     return res.status(500).json({ error: err.message || "Wallet NFTs query failed" });
   }
 }
@@ -761,14 +1011,14 @@ export async function getNftController(req: Request, res: Response) {
  * 
  * 실행 흐름:
  * 1. URL 파라미터에서 tokenId 추출
- * 2. 필수 파라미터 검증
- * 3. 블록체인 컨트랙트 인스턴스 생성
- * 4. Transfer 이벤트 로그 조회
+ * 2. 필수 파라미터 및 쿼리 파라미터(limit, cursor, type, 블록/시간 범위) 검증
+ * 3. Transfer 인덱스가 헤드를 따라잡았으면(ready) 인덱스에서 페이지 단위로 조회
+ * 4. 인덱스를 사용할 수 없거나 최초 백필 중이면 scanTransfersFromRpc()로 RPC에서 직접 조회 (같은 필터와 커서 적용)
  * 5. 거래 이력 배열 반환
  * 
  * @param req - Express Request 객체
  * @param res - Express Response 객체
- * @returns { transactions: Array<{from: string, to: string, txHash: string, blockNumber: number, timestamp: number}> } - 거래 이력
+ * @returns { transactions: Array<{from: string, to: string, txHash: string, blockNumber: number, timestamp: number}>, nextCursor: string | null, source: "index" | "rpc", indexedThrough: number | null, lagBlocks: number | null } - 거래 이력
  * @throws 400 - 필수 파라미터 누락 시
  * @throws 500 - 블록체인 상호작용 실패 시
  */
@@ -786,50 +1036,39 @@ export async function getNftTransactionHistoryController(req: Request, res: Resp
       return res.status(400).json({ error: "Invalid tokenId" });
     }
 
+    const { options, error } = parseHistoryQuery(req.query);
+    if (!options) {
+      return res.status(400).json({ error });
+    }
+
+    // Transfer 인덱스가 헤드를 따라잡았으면 인덱스에서 조회 (오래된 것부터)
+    const indexState = await getTransferIndexState();
+    if (indexState?.ready) {
+      const page = await queryTransfers({ ...options, tokenId: String(numeric), order: 'asc' });
+      return res.json({
+        tokenId: numeric,
+        transactions: page.items.map((record) => toHistoryTransaction(record)),
+        nextCursor: page.nextCursor,
+        source: 'index',
+        indexedThrough: indexState.indexedThrough,
+        lagBlocks: indexState.lagBlocks
+      });
+    }
+
     // 블록체인 컨트랙트 인스턴스 생성
     const contract = await getContract();
     
-    // Transfer 이벤트 필터 생성 (특정 토큰 ID)
-    const filter = contract.filters.Transfer(null, null, BigInt(tokenId));
-    
-    // 이벤트 로그 조회
-    const logs = await contract.queryFilter(filter);
-    
-    // 거래 이력 배열 생성
-    const transactions = [];
-    for (const log of logs) {
-      try {
-        const parsedLog = contract.interface.parseLog(log);
-        if (parsedLog && parsedLog.name === 'Transfer') {
-          const [from, to, tokenIdFromLog] = parsedLog.args;
-          
-          // 블록 정보 조회
-          const block = await log.getBlock();
-          
-          transactions.push({
-            from: from,
-            to: to,
-            tokenId: Number(tokenIdFromLog),
-            txHash: log.transactionHash,
-            blockNumber: log.blockNumber,
-            timestamp: block.timestamp,
-            type: from === '0x0000000000000000000000000000000000000000' ? 'mint' : 
-                  to === '0x0000000000000000000000000000000000000000' ? 'burn' : 'transfer'
-          });
-        }
-      } catch (err) {
-        console.warn('Failed to parse log:', err);
-        // 개별 로그 파싱 실패 시 무시하고 계속 진행
-      }
-    }
-    
-    // 시간순 정렬 (오래된 것부터)
-    transactions.sort((a, b) => a.blockNumber - b.blockNumber);
+    // 토큰의 Transfer 이벤트를 오래된 것부터 페이지 단위로 조회
+    const page = await scanTransfersFromRpc(contract, [contract.filters.Transfer(null, null, BigInt(numeric))], options, 'asc');
     
     // 거래 이력 배열 반환
     return res.json({ 
       tokenId: numeric,
-      transactions: transactions
+      transactions: page.items.map((record) => toHistoryTransaction(record)),
+      nextCursor: page.nextCursor,
+      source: 'rpc',
+      indexedThrough: indexState?.indexedThrough ?? null,
+      lagBlocks: indexState?.lagBlocks ?? null
     });
   } catch (err: any) {
     // 에러 처리 및 500 상태코드로 응답
@@ -843,14 +1082,14 @@ export async function getNftTransactionHistoryController(req: Request, res: Resp
  * 
  * 실행 흐름:
  * 1. 쿼리 파라미터에서 walletAddress 추출
- * 2. 필수 파라미터 검증
- * 3. 블록체인 컨트랙트 인스턴스 생성
- * 4. Transfer 이벤트 로그 조회 (해당 지갑 관련)
+ * 2. 필수 파라미터 및 쿼리 파라미터(limit, cursor, type, 블록/시간 범위) 검증
+ * 3. Transfer 인덱스가 헤드를 따라잡았으면(ready) 인덱스에서 페이지 단위로 조회 (보낸/받은 전송 모두)
+ * 4. 인덱스를 사용할 수 없거나 최초 백필 중이면 scanTransfersFromRpc()로 RPC에서 직접 조회 (보낸/받은 전송 모두)
  * 5. 거래 이력 배열 반환
  * 
  * @param req - Express Request 객체
  * @param res - Express Response 객체
- * @returns { transactions: Array<{from: string, to: string, tokenId: number, txHash: string, blockNumber: number, timestamp: number}> } - 거래 이력
+ * @returns { transactions: Array<{from: string, to: string, tokenId: number, txHash: string, blockNumber: number, timestamp: number, direction: string}>, nextCursor: string | null, source: "index" | "rpc", indexedThrough: number | null, lagBlocks: number | null } - 거래 이력
  * @throws 400 - 필수 파라미터 누락 시
  * @throws 500 - 블록체인 상호작용 실패 시
  */
@@ -864,51 +1103,44 @@ export async function getWalletTransactionHistoryController(req: Request, res: R
       return res.status(400).json({ error: "Invalid wallet address" });
     }
 
+    const { options, error } = parseHistoryQuery(req.query);
+    if (!options) {
+      return res.status(400).json({ error });
+    }
+
+    // Transfer 인덱스가 헤드를 따라잡았으면 인덱스에서 조회 (최신 것부터)
+    const indexState = await getTransferIndexState();
+    if (indexState?.ready) {
+      const page = await queryTransfers({ ...options, walletAddress, order: 'desc' });
+      return res.json({
+        walletAddress: walletAddress,
+        transactions: page.items.map((record) => toHistoryTransaction(record, walletAddress)),
+        nextCursor: page.nextCursor,
+        source: 'index',
+        indexedThrough: indexState.indexedThrough,
+        lagBlocks: indexState.lagBlocks
+      });
+    }
+
     // 블록체인 컨트랙트 인스턴스 생성
     const contract = await getContract();
     
-    // Transfer 이벤트 필터 생성 (해당 지갑이 from 또는 to인 경우)
-    const filter = contract.filters.Transfer(walletAddress, walletAddress);
-    
-    // 이벤트 로그 조회
-    const logs = await contract.queryFilter(filter);
-    
-    // 거래 이력 배열 생성
-    const transactions = [];
-    for (const log of logs) {
-      try {
-        const parsedLog = contract.interface.parseLog(log);
-        if (parsedLog && parsedLog.name === 'Transfer') {
-          const [from, to, tokenId] = parsedLog.args;
-          
-          // 블록 정보 조회
-          const block = await log.getBlock();
-          
-          transactions.push({
-            from: from,
-            to: to,
-            tokenId: Number(tokenId),
-            txHash: log.transactionHash,
-            blockNumber: log.blockNumber,
-            timestamp: block.timestamp,
-            type: from === '0x0000000000000000000000000000000000000000' ? 'mint' : 
-                  to === '0x0000000000000000000000000000000000000000' ? 'burn' : 'transfer',
-            direction: from.toLowerCase() === walletAddress.toLowerCase() ? 'sent' : 'received'
-          });
-        }
-      } catch (err) {
-        console.warn('Failed to parse log:', err);
-        // 개별 로그 파싱 실패 시 무시하고 계속 진행
-      }
-    }
-    
-    // 시간순 정렬 (최신 것부터)
-    transactions.sort((a, b) => b.blockNumber - a.blockNumber);
+    // 보낸 전송과 받은 전송을 모두 조회하여 최신 것부터 페이지 단위로 반환
+    const page = await scanTransfersFromRpc(
+      contract,
+      [contract.filters.Transfer(walletAddress, null), contract.filters.Transfer(null, walletAddress)],
+      options,
+      'desc'
+    );
     
     // 거래 이력 배열 반환
     return res.json({ 
       walletAddress: walletAddress,
-      transactions: transactions
+      transactions: page.items.map((record) => toHistoryTransaction(record, walletAddress)),
+      nextCursor: page.nextCursor,
+      source: 'rpc',
+      indexedThrough: indexState?.indexedThrough ?? null,
+      lagBlocks: indexState?.lagBlocks ?? null
     });
   } catch (err: any) {
     // 에러 처리 및 500 상태코드로 응답
@@ -1063,6 +1295,55 @@ export async function lockNftController(req: Request, res: Response) {
   }
 }
 
+/**
+ * NFT 락업 트랜잭션 준비 컨트롤러
+ * 
+ * lockNftController와 달리 서버 지갑으로 실행하지 않고, 사용자가 지갑(MetaMask 등)으로 서명할 트랜잭션 요청을 반환합니다.
+ * 
+ * 실행 흐름:
+ * 1. 요청 본문에서 walletAddress와 tokenId 또는 tokenIds 추출 및 검증
+ * 2. 지갑이 토큰을 모두 소유하는지 확인
+ * 3. Vault 승인이 없으면 승인 단계 추가 (1개: approve, 여러 개: setApprovalForAll), 있으면 생략
+ * 4. lockNft 또는 lockNftBatch 호출 데이터 생성
+ * 
+ * @param req - Express Request 객체 (body: { walletAddress, tokenId } 또는 { walletAddress, tokenIds })
+ * @param res - Express Response 객체
+ * @returns { transactions: Array<{ step, description, from, to, data, value, chainId, gasLimit }>, skippedSteps: string[] }
+ * @throws 400 - 파라미터가 잘못되었거나, 토큰을 소유하지 않았거나, 실행하면 revert될 때
+ * @throws 404 - 존재하지 않는 토큰일 때
+ * @throws 500 - 블록체인 상호작용 실패 시
+ */
+export async function prepareLockupController(req: Request, res: Response) {
+  try {
+    const { walletAddress, tokenId, tokenIds } = req.body as {
+      walletAddress: string;
+      tokenId?: string | number;
+      tokenIds?: Array<string | number>;
+    };
+
+    if (!walletAddress || typeof walletAddress !== "string" || !/^0x[a-fA-F0-9]{40}$/.test(walletAddress)) {
+      return res.status(400).json({ error: "Invalid wallet address" });
+    }
+
+    const requested = tokenIds ?? (tokenId !== undefined && tokenId !== null ? [tokenId] : []);
+    if (!Array.isArray(requested) || requested.length === 0 || requested.length > MAX_LOCK_BATCH_SIZE) {
+      return res.status(400).json({ error: `Provide tokenId or 1 to ${MAX_LOCK_BATCH_SIZE} tokenIds` });
+    }
+    if (requested.some((value) => !/^[0-9]+$/.test(String(value)))) {
+      return res.status(400).json({ error: "Invalid tokenId" });
+    }
+
+    const prepared = await prepareLockupTransactions({
+      walletAddress,
+      tokenIds: requested.map((value) => String(value)),
+    });
+    return res.json(prepared);
+  } catch (err: any) {
+    console.error('[prepareLockup] error:', err);
+    return res.status(err.status || 500).json({ error: err.message || "Lockup preparation failed" });
+  }
+}
+
 /**
  * NFT 락업 해제 컨트롤러
  * 
@@ -15,6 +15,7 @@
  * @param next - 다음 미들웨어 함수
  */
 
+import { createHash, timingSafeEqual } from "crypto";
 import { Request, Response, NextFunction } from "express";
 
 /**
@@ -33,6 +34,37 @@ export function apiKeyAuth(req: Request, res: Response, next: NextFunction): voi
   return next();
 }
 
+/**
+ * 관리자 API 키가 설정되어 있는지 확인합니다. (app.ts는 설정되지 않았으면 관리자 라우터를 등록하지 않음)
+ */
+export function isAdminApiKeyConfigured(): boolean {
+  return Boolean(process.env.ADMIN_API_KEY);
+}
 
+/**
+ * 관리자 API 키 인증 미들웨어
+ * 
+ * x-api-key 헤더를 환경변수 ADMIN_API_KEY와 비교하여 일치할 때만 통과시킵니다.
+ * 길이와 관계없이 일정한 시간에 비교하도록 두 값의 SHA-256 해시를 비교합니다.
+ * 
+ * @param req - Express Request 객체
+ * @param res - Express Response 객체 (키가 없거나 다르면 401, ADMIN_API_KEY가 설정되지 않았으면 503)
+ * @param next - 다음 미들웨어 함수
+ */
+export function adminKeyAuth(req: Request, res: Response, next: NextFunction): void {
+  const expected = process.env.ADMIN_API_KEY;
+  if (!expected) {
+    res.status(503).json({ error: "Admin API is disabled (ADMIN_API_KEY is not set)" });
+    return;
+  }
 
+  const provided = req.header("x-api-key");
+  const digest = (value: string) => createHash("sha256").update(value).digest();
+  if (!provided || !timingSafeEqual(digest(provided), digest(expected))) {
+    console.warn("[Auth] 관리자 API 키 인증 실패", { path: req.originalUrl, ip: req.ip });
+    res.status(401).json({ error: "Invalid or missing API key" });
+    return;
+  }
 
+  next();
+}
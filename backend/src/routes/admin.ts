@@ -0,0 +1,119 @@
+/**
+ * 블록체인 관리자 라우터
+ * 
+ * 기능:
+ * - 데드레터 큐 관리 (조회, 재전송, 삭제, 통계)
+ * - 리스너, 큐, 워커 상태 조회
+ * - 과거 이벤트 재전송
+ * 
+ * 모든 엔드포인트에 adminKeyAuth 미들웨어가 적용됩니다. (x-api-key 헤더에 ADMIN_API_KEY 값 필요)
+ * ADMIN_API_KEY가 설정되지 않으면 app.ts에서 이 라우터를 등록하지 않습니다.
+ */
+
+import { Router } from "express";
+import { adminKeyAuth } from "../middleware/auth";
+import {
+  listDeadLettersController,
+  getDeadLetterStatsController,
+  replayDeadLetterController,
+  discardDeadLetterController,
+  getBlockchainStatusController,
+  replayEventsController
+} from "../controllers/adminController";
+
+// Express 라우터 인스턴스 생성
+const router = Router();
+
+router.use(adminKeyAuth);
+
+/**
+ * GET /api/admin/blockchain/status
+ * 리스너, 큐, 워커 상태를 한 번에 조회하는 엔드포인트 (모니터링 폴링용)
+ * 
+ * 응답:
+ * - listeners: Array<{name, contractAddress, chainId, provider: {connected, transport, reconnectAttempts, lastActivityAt, lastError},
+ *   headBlock, lastProcessedBlock, lagBlocks, lagSeconds, pendingEvents, outboxEntries, backfill: {fromBlock, toBlock, scannedThrough, progress, startedAt, completedAt} | null,
+ *   hostname, pid, reportedAt, stale}>
+ * - workers: Array<{queueName, running, paused, concurrency, hostname, pid, reportedAt, stale}>
+ * - queues: Array<{name, waiting, active, delayed, failed}>
+ * - deadLetters: { total, pending, byQueue }
+ * - generatedAt: string
+ */
+router.get("/status", getBlockchainStatusController);
+
+/**
+ * POST /api/admin/blockchain/replay
+ * 지정한 블록 구간의 과거 이벤트를 다시 조회하여 이벤트 큐에 적재하는 엔드포인트
+ * (메인 서버 데이터 복구용, 실시간 리스너 체크포인트는 변경하지 않음)
+ * 
+ * 요청 본문:
+ * {
+ *   "listener": "NftVault",
+ *   "fromBlock": 1000,
+ *   "toBlock": 2000,
+ *   "events": ["NftLocked", "NftUnlocked"],  // 선택
+ *   "dryRun": true                           // 선택, true면 적재하지 않고 대상만 반환
+ * }
+ * 
+ * 응답: { replayId, listenerName, queueName, fromBlock, toBlock, events, dryRun, total, items: Array<{eventName, jobId, blockNumber, blockHash, transactionHash, logIndex, payload}> }
+ * - 적재된 이벤트 페이로드에는 replay: true, replayId가 포함됩니다.
+ * - 블록 구간이 BLOCKCHAIN_REPLAY_MAX_BLOCKS(기본 100,000)를 넘거나 대상 이벤트가 BLOCKCHAIN_REPLAY_MAX_EVENTS(기본 5,000)를 넘으면
+ *   아무것도 적재하지 않고 400을 반환합니다. 구간을 나누어 요청하세요.
+ * 
+ * CLI: npm run replay:events -- --listener NftVault --from 1000 --to 2000 [--events NftLocked] [--dry-run]
+ */
+router.post("/replay", replayEventsController);
+
+/**
+ * GET /api/admin/blockchain/dead-letters
+ * 재시도를 모두 소진한 이벤트 작업 목록을 조회하는 엔드포인트
+ * 
+ * 쿼리 파라미터: offset, limit (선택)
+ * 
+ * 응답: { entries: Array<{id, sourceQueue, originalJobId, eventName, payload, failedReason, attemptsMade, failedAt}>, total: number }
+ */
+router.get("/dead-letters", listDeadLettersController);
+
+/**
+ * GET /api/admin/blockchain/dead-letters/stats
+ * 데드레터 통계를 조회하는 엔드포인트 (모니터링 알림용)
+ * 
+ * 응답: { total: number, pending: number, byQueue: Record<string, number> }
+ * - total: 누적 데드레터 건수 (줄어들지 않음)
+ * - pending: 현재 남아 있는 데드레터 건수
+ */
+router.get("/dead-letters/stats", getDeadLetterStatsController);
+
+/**
+ * POST /api/admin/blockchain/dead-letters/replay
+ * 모든 데드레터를 원래 큐로 다시 적재하는 엔드포인트
+ * 
+ * 응답: { replayed: number }
+ */
+router.post("/dead-letters/replay", replayDeadLetterController);
+
+/**
+ * POST /api/admin/blockchain/dead-letters/:id/replay
+ * 데드레터 하나를 원래 큐로 다시 적재하는 엔드포인트
+ * 
+ * 응답: { replayed: 1 } (없으면 404)
+ */
+router.post("/dead-letters/:id/replay", replayDeadLetterController);
+
+/**
+ * DELETE /api/admin/blockchain/dead-letters
+ * 모든 데드레터를 삭제하는 엔드포인트
+ * 
+ * 응답: { discarded: number }
+ */
+router.delete("/dead-letters", discardDeadLetterController);
+
+/**
+ * DELETE /api/admin/blockchain/dead-letters/:id
+ * 데드레터 하나를 삭제하는 엔드포인트
+ * 
+ * 응답: { discarded: 1 } (없으면 404)
+ */
+router.delete("/dead-letters/:id", discardDeadLetterController);
+
+export default router;
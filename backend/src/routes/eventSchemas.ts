@@ -0,0 +1,31 @@
+/**
+ * 이벤트 페이로드 스키마 라우터
+ * 
+ * 기능:
+ * - 메인 서버로 전달되는 이벤트 페이로드의 JSON Schema 조회 (인증 없음)
+ */
+
+import { Router } from "express";
+import { listEventSchemasController, getEventSchemaController } from "../controllers/eventSchemaController";
+
+// Express 라우터 인스턴스 생성
+const router = Router();
+
+/**
+ * GET /api/blockchain/events/schemas
+ * 전체 이벤트 페이로드 스키마를 조회하는 엔드포인트
+ * 
+ * 응답: { schemas: Record<string, { version: number, schema: JSONSchema, previous?: { version: number, schema: JSONSchema } }> }
+ * - previous: 아직 전달될 수 있는 바로 이전 버전의 스키마 (스키마 변경 직후 큐/데드레터에 남은 작업)
+ */
+router.get("/schemas", listEventSchemasController);
+
+/**
+ * GET /api/blockchain/events/schemas/:eventName
+ * 이벤트 하나의 페이로드 스키마를 조회하는 엔드포인트
+ * 
+ * 응답: { eventName: string, version: number, schema: JSONSchema, previous?: { version: number, schema: JSONSchema } } (없으면 404)
+ */
+router.get("/schemas/:eventName", getEventSchemaController);
+
+export default router;
@@ -0,0 +1,80 @@
+/**
+ * 마켓플레이스 라우터
+ * 
+ * 기능:
+ * - MarketplaceVault 리스팅과 설정 조회 (인증 없음)
+ * - 리스팅 이벤트 인덱스 기반 활성 리스팅 카탈로그 조회
+ * - 사용자가 서명할 리스팅/구매 트랜잭션 준비
+ */
+
+import { Router } from "express";
+import {
+  getMarketplaceConfigController,
+  getMarketplaceListingController,
+  listMarketplaceListingsController,
+  prepareListingController,
+  preparePurchaseController,
+} from "../controllers/marketplaceController";
+
+// Express 라우터 인스턴스 생성
+const router = Router();
+
+/**
+ * GET /api/blockchain/marketplace/config
+ * 마켓플레이스 설정을 조회하는 엔드포인트
+ * 
+ * 응답: { address, nftContract, paymentToken: { address, name, symbol, decimals }, feeCollector, platformFeePercent, platformFeeRate }
+ * - platformFeePercent: 컨트랙트 값 그대로 (10000 = 100%), platformFeeRate: 비율 (0.025 = 2.5%)
+ */
+router.get("/config", getMarketplaceConfigController);
+
+/**
+ * GET /api/blockchain/marketplace/listings
+ * 활성 리스팅 카탈로그를 조회하는 엔드포인트 (리스팅 이벤트 인덱스 기반)
+ * 
+ * 쿼리: itemId, seller, minPrice, maxPrice(결제 토큰 단위), expiresAfter, expiresBefore,
+ *       sort(price | expiresAt | listedAt, 기본 listedAt), order(asc | desc, 기본 desc), limit(기본 50, 최대 200), cursor
+ * 예: /api/blockchain/marketplace/listings?itemId=2004&sort=price&order=asc
+ * 
+ * 응답: { listings: Array<{ tokenId, itemId, instanceNumber, listingId, seller, price, expiresAt, expiresInSeconds, blockNumber, transactionHash }>, nextCursor, checkedAt, indexedThrough, lagBlocks }
+ * 최신 블록 시각(checkedAt) 기준으로 만료되었지만 회수되지 않은 리스팅은 제외됩니다.
+ * 인덱서가 실행되지 않았거나 아직 헤드를 따라잡지 못했으면(최초 백필 중 등) 503
+ */
+router.get("/listings", listMarketplaceListingsController);
+
+/**
+ * GET /api/blockchain/marketplace/listings/:tokenId
+ * tokenId의 리스팅을 조회하는 엔드포인트
+ * 
+ * 응답: { tokenId, itemId, instanceNumber, listingId, seller, status, price: { raw, formatted, symbol, decimals }, listedAt, expiresAt, expired, expiresInSeconds, checkedAt }
+ * - status: Active | SellerCancelled | Expired | Sold
+ * - expired/expiresInSeconds: 최신 블록 시각(checkedAt) 기준 만료 여부와 남은 시간(초)
+ * 리스팅되지 않은 토큰이면 404
+ */
+router.get("/listings/:tokenId", getMarketplaceListingController);
+
+/**
+ * POST /api/blockchain/marketplace/prepare-listing
+ * 사용자가 지갑으로 서명할 리스팅 트랜잭션을 준비하는 엔드포인트 (서버는 트랜잭션을 전송하지 않음)
+ * 
+ * 요청 본문: { walletAddress: string, tokenId: string | number, price: string (결제 토큰 단위, 예: "12.5"), durationSeconds: number }
+ * 응답: { transactions: Array<{ step, description, from, to, data, value, chainId, gasLimit }>, skippedSteps: string[], price }
+ * - transactions를 순서대로 서명/전송합니다. (approve → listNFT, 이미 승인되어 있으면 listNFT만)
+ * - 앞 단계가 있는 트랜잭션의 gasLimit은 null입니다. (승인 전에는 시뮬레이션할 수 없음)
+ */
+router.post("/prepare-listing", prepareListingController);
+
+/**
+ * POST /api/blockchain/marketplace/prepare-purchase
+ * 사용자가 지갑으로 서명할 구매 트랜잭션을 준비하는 엔드포인트 (서버는 트랜잭션을 전송하지 않음)
+ * 
+ * 요청 본문: { walletAddress: string, tokenId: string | number }
+ * 응답: { transactions, skippedSteps, blockers: string[], listing, price, fee, sellerProceeds, platformFeePercent, balance, allowance }
+ * - fee = price * platformFeePercent / 10000 (버림), sellerProceeds = price - fee (컨트랙트와 같은 계산)
+ * - blockers: 리스팅 비활성/만료, 결제 토큰 잔액 부족 등 구매할 수 없는 사유 (있으면 transactions는 비어 있음)
+ * - transactions를 순서대로 서명/전송합니다. (approve(가격만큼) → buyNFT, 승인 금액이 충분하면 buyNFT만)
+ * 리스팅되지 않은 토큰이면 404
+ */
+router.post("/prepare-purchase", preparePurchaseController);
+
+export default router;
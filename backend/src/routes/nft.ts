@@ -22,6 +22,7 @@ import {
   getNftTransactionHistoryController,
   getWalletTransactionHistoryController,
   lockNftController,
+  prepareLockupController,
   unlockNftController,
   getVaultedNftsController,
   testPinataController
@@ -62,10 +63,33 @@ router.post("/mint", mintNftController);
  * 쿼리 파라미터: walletAddress
  * - walletAddress: 조회할 지갑 주소
  * 
- * 응답: { nfts: Array<{tokenId: number, owner: string, tokenURI: string}> }
+ * 응답: { nfts: Array<{tokenId: number, itemId: number, instanceNumber: number, owner: string, tokenURI: string}>, source: "index" | "rpc", indexedThrough, scannedFromBlock, partial: boolean, cached: boolean }
+ * 
+ * 참고: Transfer 이벤트로 소유 후보를 찾고 ownerOf로 확인합니다. 결과는 지갑별로 캐시됩니다.
+ * Transfer 인덱스가 헤드를 따라잡지 못했으면 RPC로 조회합니다. (거의 따라잡은 경우에만 잠시 503 반환)
+ * RPC 조회는 최근 BLOCKCHAIN_INVENTORY_RPC_SCAN_BLOCKS 블록(scannedFromBlock부터)에서 받은 토큰만 확인하며,
+ * 그 이전에 받은 토큰이 빠졌을 수 있으면 partial이 true입니다.
  */
 router.get("/wallet", getWalletNftsController);
 
+/**
+ * GET /api/nft/wallet/history
+ * 지갑의 NFT 거래 이력을 조회하는 엔드포인트
+ * 
+ * 쿼리 파라미터: walletAddress
+ * - walletAddress: 조회할 지갑 주소
+ * - limit, cursor, type, fromBlock, toBlock, fromTime, toTime (선택): /:tokenId/history와 동일
+ * 
+ * 보낸 전송과 받은 전송을 모두 최신 것부터 반환합니다.
+ * Transfer 인덱스를 사용할 수 없거나 아직 헤드를 따라잡지 못해(최초 백필 중) RPC로 직접 조회할 때는
+ * 요청당 최대 50,000블록까지 조회하고, 남은 구간은 nextCursor로 이어서 조회합니다. (transactions가 비어 있어도 nextCursor가 있으면 계속 조회)
+ * 
+ * 참고: /:tokenId/history보다 먼저 등록해야 "wallet"이 tokenId로 해석되지 않습니다.
+ * 
+ * 응답: { walletAddress: string, transactions: Array<{from: string, to: string, tokenId: number, txHash: string, blockNumber: number, timestamp: number, type: string, direction: string}>, nextCursor: string | null, source: "index" | "rpc", indexedThrough: number | null, lagBlocks: number | null }
+ */
+router.get("/wallet/history", getWalletTransactionHistoryController);
+
 /**
  * GET /api/nft/:tokenId
  * 특정 NFT 정보를 조회하는 엔드포인트
@@ -84,20 +108,21 @@ router.get("/:tokenId", getNftController);
  * URL 파라미터: tokenId
  * - tokenId: 조회할 NFT의 토큰 ID
  * 
- * 응답: { tokenId: number, transactions: Array<{from: string, to: string, tokenId: number, txHash: string, blockNumber: number, timestamp: number, type: string}> }
- */
-router.get("/:tokenId/history", getNftTransactionHistoryController);
-
-/**
- * GET /api/nft/wallet/history
- * 지갑의 NFT 거래 이력을 조회하는 엔드포인트
+ * 쿼리 파라미터 (선택):
+ * - limit: 페이지 크기 (기본 50, 최대 200)
+ * - cursor: 이전 응답의 nextCursor
+ * - type: mint, transfer, burn (쉼표 구분)
+ * - fromBlock, toBlock: 블록 범위
+ * - fromTime, toTime: 시간 범위 (unix seconds 또는 ISO 8601)
  * 
- * 쿼리 파라미터: walletAddress
- * - walletAddress: 조회할 지갑 주소
+ * 응답: { tokenId: number, transactions: Array<{from: string, to: string, tokenId: number, txHash: string, blockNumber: number, timestamp: number, type: string}>, nextCursor: string | null, source: "index" | "rpc", indexedThrough: number | null, lagBlocks: number | null }
+ * - lagBlocks: Transfer 인덱스가 체인 헤드보다 뒤처진 블록 수
  * 
- * 응답: { walletAddress: string, transactions: Array<{from: string, to: string, tokenId: number, txHash: string, blockNumber: number, timestamp: number, type: string, direction: string}> }
+ * 참고: Transfer 인덱스가 헤드를 따라잡았으면 인덱스에서 조회하고, 아니면 RPC로 직접 조회합니다.
+ * RPC 조회도 같은 필터와 커서를 사용하며, 요청당 최대 50,000블록(기본 GAME_ITEM_START_BLOCK부터)까지 조회하고 남은 구간은 nextCursor로 이어서 조회합니다.
  */
-router.get("/wallet/history", getWalletTransactionHistoryController);
+router.get("/:tokenId/history", getNftTransactionHistoryController);
+
 
 /**
  * POST /api/nft/lockup
@@ -113,6 +138,19 @@ router.get("/wallet/history", getWalletTransactionHistoryController);
  */
 router.post("/lockup", lockNftController);
 
+/**
+ * POST /api/nft/prepare-lockup
+ * 사용자가 지갑으로 서명할 락업 트랜잭션을 준비하는 엔드포인트 (서버 지갑이 NFT를 소유할 필요 없음)
+ * 
+ * 요청 본문: { walletAddress: string, tokenId?: number, tokenIds?: number[] }
+ * - tokenId 하나: approve → lockNft
+ * - tokenIds 여러 개 (최대 100): setApprovalForAll → lockNftBatch
+ * 
+ * 응답: { transactions: Array<{ step, description, from, to, data, value, chainId, gasLimit }>, skippedSteps: string[] }
+ * - 이미 승인되어 있으면 승인 단계를 생략합니다. (skippedSteps에 표시)
+ */
+router.post("/prepare-lockup", prepareLockupController);
+
 /**
  * POST /api/nft/unlockup
  * NFT를 Vault에서 꺼내는 엔드포인트 (락업 해제)
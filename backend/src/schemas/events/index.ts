@@ -0,0 +1,47 @@
+// 자동 생성 파일입니다. 직접 수정하지 말고 npm run generate:event-schemas 로 다시 생성하세요.
+
+import { JsonSchema } from "../../utils/jsonSchema";
+import NftLockedSchema from "./NftLocked.schema.json";
+import NftUnlockedSchema from "./NftUnlocked.schema.json";
+import NFTListedSchema from "./NFTListed.schema.json";
+import NFTSoldSchema from "./NFTSold.schema.json";
+import NFTReclaimedSchema from "./NFTReclaimed.schema.json";
+import ItemMintedSchema from "./ItemMinted.schema.json";
+import ItemBurnedSchema from "./ItemBurned.schema.json";
+import TokenCreatedSchema from "./TokenCreated.schema.json";
+import TokenDeactivatedSchema from "./TokenDeactivated.schema.json";
+import TokenReactivatedSchema from "./TokenReactivated.schema.json";
+import TokenTransferSchema from "./TokenTransfer.schema.json";
+import EventRevertedSchema from "./EventReverted.schema.json";
+import NftLockedV1Schema from "./previous/NftLocked.v1.schema.json";
+import NftUnlockedV1Schema from "./previous/NftUnlocked.v1.schema.json";
+import NFTListedV1Schema from "./previous/NFTListed.v1.schema.json";
+import NFTSoldV1Schema from "./previous/NFTSold.v1.schema.json";
+import NFTReclaimedV1Schema from "./previous/NFTReclaimed.v1.schema.json";
+import TokenTransferV1Schema from "./previous/TokenTransfer.v1.schema.json";
+import EventRevertedV2Schema from "./previous/EventReverted.v2.schema.json";
+
+export interface EventSchemaEntry {
+  version: number;
+  schema: JsonSchema;
+  /** 바로 이전 schemaVersion의 스키마 (이전 코드로 적재된 작업 검증용) */
+  previous?: { version: number; schema: JsonSchema };
+}
+
+/**
+ * 이벤트 이름별 페이로드 스키마와 현재 schemaVersion입니다.
+ */
+export const EVENT_SCHEMAS: Record<string, EventSchemaEntry> = {
+  NftLocked: { version: 2, schema: NftLockedSchema as JsonSchema, previous: { version: 1, schema: NftLockedV1Schema as JsonSchema } },
+  NftUnlocked: { version: 2, schema: NftUnlockedSchema as JsonSchema, previous: { version: 1, schema: NftUnlockedV1Schema as JsonSchema } },
+  NFTListed: { version: 2, schema: NFTListedSchema as JsonSchema, previous: { version: 1, schema: NFTListedV1Schema as JsonSchema } },
+  NFTSold: { version: 2, schema: NFTSoldSchema as JsonSchema, previous: { version: 1, schema: NFTSoldV1Schema as JsonSchema } },
+  NFTReclaimed: { version: 2, schema: NFTReclaimedSchema as JsonSchema, previous: { version: 1, schema: NFTReclaimedV1Schema as JsonSchema } },
+  ItemMinted: { version: 1, schema: ItemMintedSchema as JsonSchema },
+  ItemBurned: { version: 1, schema: ItemBurnedSchema as JsonSchema },
+  TokenCreated: { version: 1, schema: TokenCreatedSchema as JsonSchema },
+  TokenDeactivated: { version: 1, schema: TokenDeactivatedSchema as JsonSchema },
+  TokenReactivated: { version: 1, schema: TokenReactivatedSchema as JsonSchema },
+  TokenTransfer: { version: 2, schema: TokenTransferSchema as JsonSchema, previous: { version: 1, schema: TokenTransferV1Schema as JsonSchema } },
+  EventReverted: { version: 3, schema: EventRevertedSchema as JsonSchema, previous: { version: 2, schema: EventRevertedV2Schema as JsonSchema } },
+};
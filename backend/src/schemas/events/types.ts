@@ -0,0 +1,511 @@
+// 자동 생성 파일입니다. 직접 수정하지 말고 npm run generate:event-schemas 로 다시 생성하세요.
+// 메인 서버에서도 이 파일을 그대로 복사해 사용할 수 있습니다.
+
+/** NftVault NftLocked(address,address,uint256) 이벤트 페이로드 (schemaVersion 2) */
+export interface NftLockedPayload {
+  /** address */
+  owner: string;
+  /** address */
+  nftContract: string;
+  /** uint256 (10진수 문자열) */
+  tokenId: string;
+  /** 이벤트가 포함된 블록 번호 */
+  blockNumber: number;
+  /** 트랜잭션 해시 */
+  transactionHash: string;
+  /** 블록 내 로그 인덱스 */
+  logIndex: number;
+  /** 항상 false (재조직 취소는 EventReverted로 전달) */
+  removed: boolean;
+  /** 리스너 이름 */
+  contract: "NftVault";
+  /** 체인 ID (10진수 문자열) */
+  chainId: string;
+  /** 이벤트가 포함된 블록 해시 */
+  blockHash: string;
+  /** 블록 타임스탬프 (초) */
+  blockTimestamp: number;
+  /** 트랜잭션을 보낸 주소 */
+  transactionFrom: string;
+  /** GameItem 아이템 ID (토큰 ID 상위 자리, 0이면 기존 방식으로 발행된 토큰) */
+  itemId?: number;
+  /** GameItem 인스턴스 번호 (토큰 ID 하위 8자리) */
+  instanceNumber?: number;
+  /** GameItem 메타데이터 URI (소각되어 조회할 수 없으면 null) */
+  tokenURI?: string | null;
+  /** 과거 이벤트 재전송으로 적재된 경우 true */
+  replay?: boolean;
+  /** 재전송 실행 ID */
+  replayId?: string;
+  /** 페이로드 스키마 버전 */
+  schemaVersion: 2;
+}
+
+/** NftVault NftUnlocked(address,address,uint256) 이벤트 페이로드 (schemaVersion 2) */
+export interface NftUnlockedPayload {
+  /** address */
+  owner: string;
+  /** address */
+  nftContract: string;
+  /** uint256 (10진수 문자열) */
+  tokenId: string;
+  /** 이벤트가 포함된 블록 번호 */
+  blockNumber: number;
+  /** 트랜잭션 해시 */
+  transactionHash: string;
+  /** 블록 내 로그 인덱스 */
+  logIndex: number;
+  /** 항상 false (재조직 취소는 EventReverted로 전달) */
+  removed: boolean;
+  /** 리스너 이름 */
+  contract: "NftVault";
+  /** 체인 ID (10진수 문자열) */
+  chainId: string;
+  /** 이벤트가 포함된 블록 해시 */
+  blockHash: string;
+  /** 블록 타임스탬프 (초) */
+  blockTimestamp: number;
+  /** 트랜잭션을 보낸 주소 */
+  transactionFrom: string;
+  /** GameItem 아이템 ID (토큰 ID 상위 자리, 0이면 기존 방식으로 발행된 토큰) */
+  itemId?: number;
+  /** GameItem 인스턴스 번호 (토큰 ID 하위 8자리) */
+  instanceNumber?: number;
+  /** GameItem 메타데이터 URI (소각되어 조회할 수 없으면 null) */
+  tokenURI?: string | null;
+  /** 과거 이벤트 재전송으로 적재된 경우 true */
+  replay?: boolean;
+  /** 재전송 실행 ID */
+  replayId?: string;
+  /** 페이로드 스키마 버전 */
+  schemaVersion: 2;
+}
+
+/** MarketplaceVault NFTListed(uint256,uint256,address,uint256,uint256) 이벤트 페이로드 (schemaVersion 2) */
+export interface NFTListedPayload {
+  /** uint256 (10진수 문자열) */
+  listingId: string;
+  /** uint256 (10진수 문자열) */
+  tokenId: string;
+  /** address */
+  seller: string;
+  /** uint256 (10진수 문자열) */
+  price: string;
+  /** uint256 (10진수 문자열) */
+  expiresAt: string;
+  /** 이벤트가 포함된 블록 번호 */
+  blockNumber: number;
+  /** 트랜잭션 해시 */
+  transactionHash: string;
+  /** 블록 내 로그 인덱스 */
+  logIndex: number;
+  /** 항상 false (재조직 취소는 EventReverted로 전달) */
+  removed: boolean;
+  /** 리스너 이름 */
+  contract: "MarketplaceVault";
+  /** 체인 ID (10진수 문자열) */
+  chainId: string;
+  /** 이벤트가 포함된 블록 해시 */
+  blockHash: string;
+  /** 블록 타임스탬프 (초) */
+  blockTimestamp: number;
+  /** 트랜잭션을 보낸 주소 */
+  transactionFrom: string;
+  /** GameItem 아이템 ID (토큰 ID 상위 자리, 0이면 기존 방식으로 발행된 토큰) */
+  itemId?: number;
+  /** GameItem 인스턴스 번호 (토큰 ID 하위 8자리) */
+  instanceNumber?: number;
+  /** GameItem 메타데이터 URI (소각되어 조회할 수 없으면 null) */
+  tokenURI?: string | null;
+  /** 과거 이벤트 재전송으로 적재된 경우 true */
+  replay?: boolean;
+  /** 재전송 실행 ID */
+  replayId?: string;
+  /** 페이로드 스키마 버전 */
+  schemaVersion: 2;
+}
+
+/** MarketplaceVault NFTSold(uint256,uint256,address,uint256,uint256,uint8) 이벤트 페이로드 (schemaVersion 2) */
+export interface NFTSoldPayload {
+  /** uint256 (10진수 문자열) */
+  listingId: string;
+  /** uint256 (10진수 문자열) */
+  tokenId: string;
+  /** address */
+  buyer: string;
+  /** uint256 (10진수 문자열) */
+  price: string;
+  /** uint256 (10진수 문자열) */
+  feeAmount: string;
+  /** uint8 (10진수 문자열) */
+  finalStatus: string;
+  /** 이벤트가 포함된 블록 번호 */
+  blockNumber: number;
+  /** 트랜잭션 해시 */
+  transactionHash: string;
+  /** 블록 내 로그 인덱스 */
+  logIndex: number;
+  /** 항상 false (재조직 취소는 EventReverted로 전달) */
+  removed: boolean;
+  /** 리스너 이름 */
+  contract: "MarketplaceVault";
+  /** 체인 ID (10진수 문자열) */
+  chainId: string;
+  /** 이벤트가 포함된 블록 해시 */
+  blockHash: string;
+  /** 블록 타임스탬프 (초) */
+  blockTimestamp: number;
+  /** 트랜잭션을 보낸 주소 */
+  transactionFrom: string;
+  /** GameItem 아이템 ID (토큰 ID 상위 자리, 0이면 기존 방식으로 발행된 토큰) */
+  itemId?: number;
+  /** GameItem 인스턴스 번호 (토큰 ID 하위 8자리) */
+  instanceNumber?: number;
+  /** GameItem 메타데이터 URI (소각되어 조회할 수 없으면 null) */
+  tokenURI?: string | null;
+  /** 과거 이벤트 재전송으로 적재된 경우 true */
+  replay?: boolean;
+  /** 재전송 실행 ID */
+  replayId?: string;
+  /** 페이로드 스키마 버전 */
+  schemaVersion: 2;
+}
+
+/** MarketplaceVault NFTReclaimed(uint256,uint256,address,uint8) 이벤트 페이로드 (schemaVersion 2) */
+export interface NFTReclaimedPayload {
+  /** uint256 (10진수 문자열) */
+  listingId: string;
+  /** uint256 (10진수 문자열) */
+  tokenId: string;
+  /** address */
+  seller: string;
+  /** uint8 (10진수 문자열) */
+  finalStatus: string;
+  /** 이벤트가 포함된 블록 번호 */
+  blockNumber: number;
+  /** 트랜잭션 해시 */
+  transactionHash: string;
+  /** 블록 내 로그 인덱스 */
+  logIndex: number;
+  /** 항상 false (재조직 취소는 EventReverted로 전달) */
+  removed: boolean;
+  /** 리스너 이름 */
+  contract: "MarketplaceVault";
+  /** 체인 ID (10진수 문자열) */
+  chainId: string;
+  /** 이벤트가 포함된 블록 해시 */
+  blockHash: string;
+  /** 블록 타임스탬프 (초) */
+  blockTimestamp: number;
+  /** 트랜잭션을 보낸 주소 */
+  transactionFrom: string;
+  /** GameItem 아이템 ID (토큰 ID 상위 자리, 0이면 기존 방식으로 발행된 토큰) */
+  itemId?: number;
+  /** GameItem 인스턴스 번호 (토큰 ID 하위 8자리) */
+  instanceNumber?: number;
+  /** GameItem 메타데이터 URI (소각되어 조회할 수 없으면 null) */
+  tokenURI?: string | null;
+  /** 과거 이벤트 재전송으로 적재된 경우 true */
+  replay?: boolean;
+  /** 재전송 실행 ID */
+  replayId?: string;
+  /** 페이로드 스키마 버전 */
+  schemaVersion: 2;
+}
+
+/** GameItem Transfer(address,address,uint256) (from = 0x0000000000000000000000000000000000000000) 이벤트 페이로드 (schemaVersion 1) */
+export interface ItemMintedPayload {
+  /** address */
+  from: string;
+  /** address */
+  to: string;
+  /** uint256 (10진수 문자열) */
+  tokenId: string;
+  /** to 인자와 같은 값 */
+  owner: string;
+  /** 이벤트가 포함된 블록 번호 */
+  blockNumber: number;
+  /** 트랜잭션 해시 */
+  transactionHash: string;
+  /** 블록 내 로그 인덱스 */
+  logIndex: number;
+  /** 항상 false (재조직 취소는 EventReverted로 전달) */
+  removed: boolean;
+  /** 리스너 이름 */
+  contract: "GameItem";
+  /** 체인 ID (10진수 문자열) */
+  chainId: string;
+  /** 이벤트가 포함된 블록 해시 */
+  blockHash: string;
+  /** 블록 타임스탬프 (초) */
+  blockTimestamp: number;
+  /** 트랜잭션을 보낸 주소 */
+  transactionFrom: string;
+  /** GameItem 아이템 ID (토큰 ID 상위 자리, 0이면 기존 방식으로 발행된 토큰) */
+  itemId?: number;
+  /** GameItem 인스턴스 번호 (토큰 ID 하위 8자리) */
+  instanceNumber?: number;
+  /** GameItem 메타데이터 URI (소각되어 조회할 수 없으면 null) */
+  tokenURI?: string | null;
+  /** 과거 이벤트 재전송으로 적재된 경우 true */
+  replay?: boolean;
+  /** 재전송 실행 ID */
+  replayId?: string;
+  /** 페이로드 스키마 버전 */
+  schemaVersion: 1;
+}
+
+/** GameItem Transfer(address,address,uint256) (to = 0x0000000000000000000000000000000000000000) 이벤트 페이로드 (schemaVersion 1) */
+export interface ItemBurnedPayload {
+  /** address */
+  from: string;
+  /** address */
+  to: string;
+  /** uint256 (10진수 문자열) */
+  tokenId: string;
+  /** from 인자와 같은 값 */
+  owner: string;
+  /** 이벤트가 포함된 블록 번호 */
+  blockNumber: number;
+  /** 트랜잭션 해시 */
+  transactionHash: string;
+  /** 블록 내 로그 인덱스 */
+  logIndex: number;
+  /** 항상 false (재조직 취소는 EventReverted로 전달) */
+  removed: boolean;
+  /** 리스너 이름 */
+  contract: "GameItem";
+  /** 체인 ID (10진수 문자열) */
+  chainId: string;
+  /** 이벤트가 포함된 블록 해시 */
+  blockHash: string;
+  /** 블록 타임스탬프 (초) */
+  blockTimestamp: number;
+  /** 트랜잭션을 보낸 주소 */
+  transactionFrom: string;
+  /** GameItem 아이템 ID (토큰 ID 상위 자리, 0이면 기존 방식으로 발행된 토큰) */
+  itemId?: number;
+  /** GameItem 인스턴스 번호 (토큰 ID 하위 8자리) */
+  instanceNumber?: number;
+  /** GameItem 메타데이터 URI (소각되어 조회할 수 없으면 null) */
+  tokenURI?: string | null;
+  /** 과거 이벤트 재전송으로 적재된 경우 true */
+  replay?: boolean;
+  /** 재전송 실행 ID */
+  replayId?: string;
+  /** 페이로드 스키마 버전 */
+  schemaVersion: 1;
+}
+
+/** MultiTokenFactory TokenCreated(string,string,address,address,uint256) 이벤트 페이로드 (schemaVersion 1) */
+export interface TokenCreatedPayload {
+  /** string (indexed, 원래 값 대신 keccak256 해시) */
+  name: {
+    hash: string;
+    _isIndexed?: boolean;
+  };
+  /** string (indexed, 원래 값 대신 keccak256 해시) */
+  symbol: {
+    hash: string;
+    _isIndexed?: boolean;
+  };
+  /** address */
+  contractAddress: string;
+  /** address */
+  owner: string;
+  /** uint256 (10진수 문자열) */
+  totalSupply: string;
+  /** 이벤트가 포함된 블록 번호 */
+  blockNumber: number;
+  /** 트랜잭션 해시 */
+  transactionHash: string;
+  /** 블록 내 로그 인덱스 */
+  logIndex: number;
+  /** 항상 false (재조직 취소는 EventReverted로 전달) */
+  removed: boolean;
+  /** 리스너 이름 */
+  contract: "MultiTokenFactory";
+  /** 체인 ID (10진수 문자열) */
+  chainId: string;
+  /** 이벤트가 포함된 블록 해시 */
+  blockHash: string;
+  /** 블록 타임스탬프 (초) */
+  blockTimestamp: number;
+  /** 트랜잭션을 보낸 주소 */
+  transactionFrom: string;
+  /** CustomToken 정보 (팩토리에서 찾을 수 없으면 null) */
+  token: {
+    address: string;
+    name: string;
+    symbol: string;
+    decimals: number;
+  } | null;
+  /** 과거 이벤트 재전송으로 적재된 경우 true */
+  replay?: boolean;
+  /** 재전송 실행 ID */
+  replayId?: string;
+  /** 페이로드 스키마 버전 */
+  schemaVersion: 1;
+}
+
+/** MultiTokenFactory TokenDeactivated(string) 이벤트 페이로드 (schemaVersion 1) */
+export interface TokenDeactivatedPayload {
+  /** string (indexed, 원래 값 대신 keccak256 해시) */
+  symbol: {
+    hash: string;
+    _isIndexed?: boolean;
+  };
+  /** 이벤트가 포함된 블록 번호 */
+  blockNumber: number;
+  /** 트랜잭션 해시 */
+  transactionHash: string;
+  /** 블록 내 로그 인덱스 */
+  logIndex: number;
+  /** 항상 false (재조직 취소는 EventReverted로 전달) */
+  removed: boolean;
+  /** 리스너 이름 */
+  contract: "MultiTokenFactory";
+  /** 체인 ID (10진수 문자열) */
+  chainId: string;
+  /** 이벤트가 포함된 블록 해시 */
+  blockHash: string;
+  /** 블록 타임스탬프 (초) */
+  blockTimestamp: number;
+  /** 트랜잭션을 보낸 주소 */
+  transactionFrom: string;
+  /** CustomToken 정보 (팩토리에서 찾을 수 없으면 null) */
+  token: {
+    address: string;
+    name: string;
+    symbol: string;
+    decimals: number;
+  } | null;
+  /** 과거 이벤트 재전송으로 적재된 경우 true */
+  replay?: boolean;
+  /** 재전송 실행 ID */
+  replayId?: string;
+  /** 페이로드 스키마 버전 */
+  schemaVersion: 1;
+}
+
+/** MultiTokenFactory TokenReactivated(string) 이벤트 페이로드 (schemaVersion 1) */
+export interface TokenReactivatedPayload {
+  /** string (indexed, 원래 값 대신 keccak256 해시) */
+  symbol: {
+    hash: string;
+    _isIndexed?: boolean;
+  };
+  /** 이벤트가 포함된 블록 번호 */
+  blockNumber: number;
+  /** 트랜잭션 해시 */
+  transactionHash: string;
+  /** 블록 내 로그 인덱스 */
+  logIndex: number;
+  /** 항상 false (재조직 취소는 EventReverted로 전달) */
+  removed: boolean;
+  /** 리스너 이름 */
+  contract: "MultiTokenFactory";
+  /** 체인 ID (10진수 문자열) */
+  chainId: string;
+  /** 이벤트가 포함된 블록 해시 */
+  blockHash: string;
+  /** 블록 타임스탬프 (초) */
+  blockTimestamp: number;
+  /** 트랜잭션을 보낸 주소 */
+  transactionFrom: string;
+  /** CustomToken 정보 (팩토리에서 찾을 수 없으면 null) */
+  token: {
+    address: string;
+    name: string;
+    symbol: string;
+    decimals: number;
+  } | null;
+  /** 과거 이벤트 재전송으로 적재된 경우 true */
+  replay?: boolean;
+  /** 재전송 실행 ID */
+  replayId?: string;
+  /** 페이로드 스키마 버전 */
+  schemaVersion: 1;
+}
+
+/** CustomToken Transfer(address,address,uint256) 이벤트 페이로드 (schemaVersion 2) */
+export interface TokenTransferPayload {
+  /** address */
+  from: string;
+  /** address */
+  to: string;
+  /** uint256 (10진수 문자열) */
+  value: string;
+  /** 이벤트를 발생시킨 컨트랙트 주소 */
+  contractAddress: string;
+  /** 이벤트가 포함된 블록 번호 */
+  blockNumber: number;
+  /** 트랜잭션 해시 */
+  transactionHash: string;
+  /** 블록 내 로그 인덱스 */
+  logIndex: number;
+  /** 항상 false (재조직 취소는 EventReverted로 전달) */
+  removed: boolean;
+  /** 리스너 이름 */
+  contract: "CustomToken";
+  /** 체인 ID (10진수 문자열) */
+  chainId: string;
+  /** 이벤트가 포함된 블록 해시 */
+  blockHash: string;
+  /** 블록 타임스탬프 (초) */
+  blockTimestamp: number;
+  /** 트랜잭션을 보낸 주소 */
+  transactionFrom: string;
+  /** CustomToken 정보 (팩토리에서 찾을 수 없으면 null) */
+  token: {
+    address: string;
+    name: string;
+    symbol: string;
+    decimals: number;
+  } | null;
+  /** 과거 이벤트 재전송으로 적재된 경우 true */
+  replay?: boolean;
+  /** 재전송 실행 ID */
+  replayId?: string;
+  /** 페이로드 스키마 버전 */
+  schemaVersion: 2;
+}
+
+/** 재조직으로 취소된 이벤트 보상 페이로드 (schemaVersion 3) */
+export interface EventRevertedPayload {
+  /** 취소된 원래 이벤트 이름 */
+  originalEvent: "NftLocked" | "NftUnlocked" | "NFTListed" | "NFTSold" | "NFTReclaimed" | "ItemMinted" | "ItemBurned" | "TokenCreated" | "TokenDeactivated" | "TokenReactivated" | "TokenTransfer";
+  /** 이벤트가 포함된 블록 번호 */
+  blockNumber: number;
+  /** 취소된 블록 해시 */
+  blockHash: string;
+  /** 트랜잭션 해시 */
+  transactionHash: string;
+  /** 블록 내 로그 인덱스 */
+  logIndex: number;
+  /** 리스너 이름 */
+  contract: string;
+  /** 원래 이벤트 페이로드 (원래 이벤트의 스키마를 따름) */
+  originalPayload: Record<string, unknown>;
+  reason: "reorg";
+  /** 페이로드 스키마 버전 */
+  schemaVersion: 3;
+}
+
+/**
+ * 이벤트 이름(메인 서버 엔드포인트는 kebab-case)별 페이로드 타입입니다.
+ */
+export interface EventPayloadMap {
+  NftLocked: NftLockedPayload;
+  NftUnlocked: NftUnlockedPayload;
+  NFTListed: NFTListedPayload;
+  NFTSold: NFTSoldPayload;
+  NFTReclaimed: NFTReclaimedPayload;
+  ItemMinted: ItemMintedPayload;
+  ItemBurned: ItemBurnedPayload;
+  TokenCreated: TokenCreatedPayload;
+  TokenDeactivated: TokenDeactivatedPayload;
+  TokenReactivated: TokenReactivatedPayload;
+  TokenTransfer: TokenTransferPayload;
+  EventReverted: EventRevertedPayload;
+}
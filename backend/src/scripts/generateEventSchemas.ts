@@ -0,0 +1,462 @@
+/**
+ * 이벤트 페이로드 스키마 생성 스크립트
+ *
+ * 기능:
+ * - 리스너 정의(config/listeners.config.ts)에서 큐로 전달되는 이벤트를 찾아
+ *   Hardhat 아티팩트 ABI로부터 큐 작업 이름별 JSON Schema와 TypeScript 타입을 생성
+ *   (jobs 규칙이 있는 이벤트는 규칙의 작업 이름마다 생성)
+ * - 스키마 모양이 바뀐 이벤트만 schemaVersion을 1 올림 (manifest.json의 fingerprint 비교)
+ * - schemaVersion을 올릴 때 바로 이전 버전 스키마를 previous/에 보관하여, 이전 코드로 적재된 작업
+ *   (배포 직전에 큐에 남은 작업, 데드레터에서 재전송한 작업)도 다음 버전 변경 전까지 검증을 통과하도록 함
+ *
+ * 생성 파일 (backend/src/schemas/events):
+ * - <이벤트 이름>.schema.json: 메인 서버가 그대로 사용할 수 있는 JSON Schema (draft-07)
+ * - previous/<이벤트 이름>.v<버전>.schema.json: 바로 이전 버전의 JSON Schema
+ * - manifest.json: 이벤트별 schemaVersion, fingerprint, 보관 중인 이전 버전
+ * - index.ts: 워커가 검증에 사용하는 스키마 목록
+ * - types.ts: 페이로드 TypeScript 타입
+ *
+ * 사용법:
+ * - npm run compile (아티팩트 생성) 후 npm run generate:event-schemas
+ * - 컨트랙트 이벤트나 buildPayload()가 바뀌면 다시 실행하여 생성 파일을 함께 커밋합니다.
+ */
+
+import { createHash } from "crypto";
+import { copyFileSync, existsSync, mkdirSync, readFileSync, readdirSync, rmSync, writeFileSync } from "fs";
+import path from "path";
+import { EventFragment, Interface, ParamType } from "ethers";
+import {
+  CUSTOM_TOKEN_DEFINITION,
+  ContractListenerDefinition,
+  EventJobRule,
+  getQueueListenerDefinitions,
+} from "../config/listeners.config";
+import { EVENT_REVERTED_JOB_NAME, loadArtifactAbi } from "../services/blockchain/listeners/base.listener";
+import { JsonSchema } from "../utils/jsonSchema";
+
+const OUTPUT_DIR = path.resolve(__dirname, "../schemas/events");
+const PREVIOUS_DIR = path.join(OUTPUT_DIR, "previous");
+const MANIFEST_PATH = path.join(OUTPUT_DIR, "manifest.json");
+const GENERATED_HEADER = "// 자동 생성 파일입니다. 직접 수정하지 말고 npm run generate:event-schemas 로 다시 생성하세요.";
+
+type Manifest = Record<string, { version: number; fingerprint: string; previousVersion?: number }>;
+
+interface EventSchemaEntry {
+  eventName: string;
+  listenerName: string;
+  signature: string;
+  /** 버전 정보가 없는 스키마 (fingerprint 계산용) */
+  shape: JsonSchema;
+}
+
+const HEX_PATTERN = "^0x([0-9a-fA-F]{2})*$";
+
+/**
+ * buildPayload()가 모든 이벤트에 추가하는 공통 필드입니다.
+ */
+const COMMON_PROPERTIES: Record<string, JsonSchema> = {
+  blockNumber: { type: "integer", description: "이벤트가 포함된 블록 번호" },
+  transactionHash: { type: "string", pattern: "^0x[0-9a-fA-F]{64}$", description: "트랜잭션 해시" },
+  logIndex: { type: "integer", description: "블록 내 로그 인덱스" },
+  removed: { type: "boolean", description: "항상 false (재조직 취소는 EventReverted로 전달)" },
+};
+
+/**
+ * 큐에 적재할 때 EventEnricher(enrichment.service.ts)가 모든 이벤트에 추가하는 필드입니다.
+ */
+const ENRICHMENT_PROPERTIES: Record<string, JsonSchema> = {
+  chainId: { type: "string", pattern: "^[0-9]+$", description: "체인 ID (10진수 문자열)" },
+  blockHash: { type: "string", pattern: "^0x[0-9a-fA-F]{64}$", description: "이벤트가 포함된 블록 해시" },
+  blockTimestamp: { type: "integer", description: "블록 타임스탬프 (초)" },
+  transactionFrom: { type: "string", pattern: "^0x[0-9a-fA-F]{40}$", description: "트랜잭션을 보낸 주소" },
+};
+
+/**
+ * 리스너 정의에 gameItemTokenField가 있는 이벤트에서, 토큰이 GameItem일 때만 추가되는 필드입니다.
+ */
+const GAME_ITEM_TOKEN_PROPERTIES: Record<string, JsonSchema> = {
+  itemId: { type: "integer", description: "GameItem 아이템 ID (토큰 ID 상위 자리, 0이면 기존 방식으로 발행된 토큰)" },
+  instanceNumber: { type: "integer", description: "GameItem 인스턴스 번호 (토큰 ID 하위 8자리)" },
+  tokenURI: { type: ["string", "null"], description: "GameItem 메타데이터 URI (소각되어 조회할 수 없으면 null)" },
+};
+
+/**
+ * 리스너 정의에 customTokenInfo가 있는 이벤트에 추가되는 필드입니다.
+ */
+const CUSTOM_TOKEN_PROPERTIES: Record<string, JsonSchema> = {
+  token: {
+    type: ["object", "null"],
+    description: "CustomToken 정보 (팩토리에서 찾을 수 없으면 null)",
+    properties: {
+      address: { type: "string", pattern: "^0x[0-9a-fA-F]{40}$" },
+      name: { type: "string" },
+      symbol: { type: "string" },
+      decimals: { type: "integer" },
+    },
+    required: ["address", "name", "symbol", "decimals"],
+    additionalProperties: false,
+  },
+};
+
+/**
+ * 재전송(replay.service.ts)으로 적재된 이벤트에만 포함되는 필드입니다.
+ */
+const REPLAY_PROPERTIES: Record<string, JsonSchema> = {
+  replay: { type: "boolean", description: "과거 이벤트 재전송으로 적재된 경우 true" },
+  replayId: { type: "string", description: "재전송 실행 ID" },
+};
+
+/**
+ * Solidity 파라미터 타입을 normalizeValue() 결과에 맞는 JSON Schema로 변환합니다.
+ * - 정수는 BigInt를 10진수 문자열로 변환하여 전달
+ * - indexed 동적 타입(string, bytes, 배열, 구조체)은 값 대신 { hash } 형태로 전달
+ */
+const paramToSchema = (param: ParamType): JsonSchema => {
+  const description = param.type;
+
+  if (param.indexed && (param.isArray() || param.isTuple() || param.type === "string" || param.type === "bytes")) {
+    return {
+      type: "object",
+      description: `${description} (indexed, 원래 값 대신 keccak256 해시)`,
+      properties: {
+        hash: { type: "string", pattern: "^0x[0-9a-fA-F]{64}$" },
+        _isIndexed: { type: "boolean" },
+      },
+      required: ["hash"],
+      additionalProperties: false,
+    };
+  }
+
+  if (param.isArray()) {
+    return { type: "array", description, items: paramToSchema(param.arrayChildren) };
+  }
+
+  if (param.isTuple()) {
+    const components = param.components;
+    return {
+      type: "object",
+      description,
+      properties: Object.fromEntries(components.map((component) => [component.name, paramToSchema(component)])),
+      required: components.map((component) => component.name),
+      additionalProperties: false,
+    };
+  }
+
+  if (param.baseType === "address") {
+    return { type: "string", pattern: "^0x[0-9a-fA-F]{40}$", description };
+  }
+  if (param.baseType.startsWith("uint")) {
+    return { type: "string", pattern: "^[0-9]+$", description: `${description} (10진수 문자열)` };
+  }
+  if (param.baseType.startsWith("int")) {
+    return { type: "string", pattern: "^-?[0-9]+$", description: `${description} (10진수 문자열)` };
+  }
+  if (param.baseType === "bool") {
+    return { type: "boolean", description };
+  }
+  if (param.baseType === "string") {
+    return { type: "string", description };
+  }
+  if (param.baseType.startsWith("bytes")) {
+    return { type: "string", pattern: HEX_PATTERN, description };
+  }
+
+  throw new Error(`지원하지 않는 Solidity 타입입니다: ${param.type}`);
+};
+
+/**
+ * jobs 규칙의 조건을 설명 문자열로 변환합니다.
+ */
+const describeJobRule = (rule: EventJobRule): string => {
+  const conditions = Object.entries(rule.where ?? {}).map(([field, value]) => `${field} = ${value}`);
+  return conditions.length > 0 ? ` (${conditions.join(", ")})` : "";
+};
+
+/**
+ * 이벤트 프래그먼트로 페이로드 스키마를 구성합니다. (schemaVersion 제외)
+ * 인자 이름이 없으면 buildPayload()와 같이 arg<index>를 사용하고, 작업 규칙의 fields는 원래 인자와 같은 스키마로 추가합니다.
+ */
+const buildEventShape = (
+  definition: ContractListenerDefinition,
+  fragment: EventFragment,
+  rule: EventJobRule,
+): JsonSchema => {
+  const argProperties = Object.fromEntries(
+    fragment.inputs.map((input, index) => [
+      input.name && input.name.length > 0 ? input.name : `arg${index}`,
+      paramToSchema(input),
+    ]),
+  );
+  const aliasProperties = Object.fromEntries(
+    Object.entries(rule.fields ?? {}).map(([field, source]) => {
+      if (!(source in argProperties)) {
+        throw new Error(`${definition.name} ${fragment.name} 이벤트에 없는 인자입니다: ${source}`);
+      }
+      return [field, { ...argProperties[source], description: `${source} 인자와 같은 값` }];
+    }),
+  );
+  const logAddressProperties: Record<string, JsonSchema> = definition.logAddressField
+    ? {
+        [definition.logAddressField]: {
+          type: "string",
+          pattern: "^0x[0-9a-fA-F]{40}$",
+          description: "이벤트를 발생시킨 컨트랙트 주소",
+        },
+      }
+    : {};
+  const properties: Record<string, JsonSchema> = {
+    ...argProperties,
+    ...aliasProperties,
+    ...logAddressProperties,
+    ...COMMON_PROPERTIES,
+    contract: { type: "string", const: definition.name, description: "리스너 이름" },
+    ...ENRICHMENT_PROPERTIES,
+    ...(definition.customTokenInfo ? CUSTOM_TOKEN_PROPERTIES : {}),
+  };
+  const tokenProperties =
+    definition.gameItemTokenField && definition.gameItemTokenField in argProperties ? GAME_ITEM_TOKEN_PROPERTIES : {};
+
+  return {
+    type: "object",
+    properties: { ...properties, ...tokenProperties, ...REPLAY_PROPERTIES },
+    required: Object.keys(properties),
+    additionalProperties: false,
+  };
+};
+
+/**
+ * 재조직 보상 이벤트(EventReverted) 스키마를 구성합니다. (buildRevertedPayload() 참고)
+ */
+const buildRevertedShape = (entries: EventSchemaEntry[]): JsonSchema => {
+  const properties: Record<string, JsonSchema> = {
+    originalEvent: { type: "string", enum: entries.map((entry) => entry.eventName), description: "취소된 원래 이벤트 이름" },
+    blockNumber: COMMON_PROPERTIES.blockNumber,
+    blockHash: { type: "string", pattern: "^0x[0-9a-fA-F]{64}$", description: "취소된 블록 해시" },
+    transactionHash: COMMON_PROPERTIES.transactionHash,
+    logIndex: COMMON_PROPERTIES.logIndex,
+    contract: { type: "string", description: "리스너 이름" },
+    originalPayload: { type: "object", description: "원래 이벤트 페이로드 (원래 이벤트의 스키마를 따름)" },
+    reason: { type: "string", const: "reorg" },
+  };
+
+  return {
+    type: "object",
+    properties,
+    required: Object.keys(properties),
+    additionalProperties: false,
+  };
+};
+
+const fingerprintOf = (shape: JsonSchema): string =>
+  createHash("sha256").update(JSON.stringify(shape)).digest("hex");
+
+/**
+ * 버전 정보를 붙여 최종 JSON Schema를 만듭니다.
+ */
+const withVersion = (eventName: string, description: string, shape: JsonSchema, version: number): JsonSchema => ({
+  $schema: "http://json-schema.org/draft-07/schema#",
+  $id: `${eventName}.schema.json`,
+  title: `${eventName}Payload`,
+  description: `${description} (schemaVersion ${version})`,
+  type: shape.type,
+  properties: {
+    ...shape.properties,
+    schemaVersion: { type: "integer", const: version, description: "페이로드 스키마 버전" },
+  },
+  required: [...(shape.required ?? []), "schemaVersion"],
+  additionalProperties: shape.additionalProperties,
+});
+
+/**
+ * JSON Schema를 TypeScript 타입 표현식으로 변환합니다.
+ */
+const schemaToTs = (schema: JsonSchema, indent = ""): string => {
+  if (schema.const !== undefined) {
+    return JSON.stringify(schema.const);
+  }
+  if (schema.enum !== undefined) {
+    return schema.enum.map((item) => JSON.stringify(item)).join(" | ");
+  }
+
+  if (Array.isArray(schema.type)) {
+    return schema.type.map((type) => schemaToTs({ ...schema, type }, indent)).join(" | ");
+  }
+
+  switch (schema.type) {
+    case "null":
+      return "null";
+    case "string":
+      return "string";
+    case "integer":
+    case "number":
+      return "number";
+    case "boolean":
+      return "boolean";
+    case "array":
+      return `Array<${schema.items ? schemaToTs(schema.items, indent) : "unknown"}>`;
+    case "object": {
+      if (!schema.properties) {
+        return "Record<string, unknown>";
+      }
+      const required = new Set(schema.required ?? []);
+      const lines = Object.entries(schema.properties).map(([key, property]) => {
+        const doc = property.description ? `${indent}  /** ${property.description} */\n` : "";
+        return `${doc}${indent}  ${key}${required.has(key) ? "" : "?"}: ${schemaToTs(property, `${indent}  `)};`;
+      });
+      return `{\n${lines.join("\n")}\n${indent}}`;
+    }
+    default:
+      return "unknown";
+  }
+};
+
+const previousSchemaFile = (eventName: string, version: number) => `${eventName}.v${version}.schema.json`;
+
+const writeJson = (filePath: string, value: unknown) => {
+  writeFileSync(filePath, `${JSON.stringify(value, null, 2)}\n`, "utf8");
+};
+
+async function main() {
+  const entries: EventSchemaEntry[] = [];
+
+  // 큐로 전달되는 리스너의 이벤트만 대상으로 합니다. (활성화 여부와 무관)
+  for (const definition of [...getQueueListenerDefinitions(), CUSTOM_TOKEN_DEFINITION]) {
+    const iface = new Interface(loadArtifactAbi(definition.artifact));
+
+    for (const eventName of definition.events) {
+      const fragment = iface.getEvent(eventName);
+      if (!fragment) {
+        throw new Error(`${definition.name} ABI에 없는 이벤트입니다: ${eventName}`);
+      }
+      for (const rule of definition.jobs?.[eventName] ?? [{ name: eventName }]) {
+        if (entries.some((entry) => entry.eventName === rule.name)) {
+          throw new Error(`작업 이름이 중복됩니다: ${rule.name} (워커는 작업 이름으로 스키마를 찾습니다)`);
+        }
+
+        entries.push({
+          eventName: rule.name,
+          listenerName: definition.name,
+          signature: `${fragment.format("sighash")}${describeJobRule(rule)}`,
+          shape: buildEventShape(definition, fragment, rule),
+        });
+      }
+    }
+  }
+
+  const schemas: Array<{ eventName: string; description: string; shape: JsonSchema }> = [
+    ...entries.map((entry) => ({
+      eventName: entry.eventName,
+      description: `${entry.listenerName} ${entry.signature} 이벤트 페이로드`,
+      shape: entry.shape,
+    })),
+    {
+      eventName: EVENT_REVERTED_JOB_NAME,
+      description: "재조직으로 취소된 이벤트 보상 페이로드",
+      shape: buildRevertedShape(entries),
+    },
+  ];
+
+  mkdirSync(PREVIOUS_DIR, { recursive: true });
+  const previous: Manifest = existsSync(MANIFEST_PATH) ? JSON.parse(readFileSync(MANIFEST_PATH, "utf8")) : {};
+  const manifest: Manifest = {};
+  const finalSchemas: Array<{ eventName: string; version: number; schema: JsonSchema; previousVersion?: number }> = [];
+
+  for (const { eventName, description, shape } of schemas) {
+    const fingerprint = fingerprintOf(shape);
+    const before = previous[eventName];
+    const version = !before ? 1 : before.fingerprint === fingerprint ? before.version : before.version + 1;
+    const schemaPath = path.join(OUTPUT_DIR, `${eventName}.schema.json`);
+    let previousVersion = before?.previousVersion;
+
+    if (before && before.version !== version) {
+      console.log(`🔄 ${eventName}: 스키마 변경 (schemaVersion ${before.version} → ${version})`);
+      // 덮어쓰기 전에 지금 배포된 버전의 스키마를 이전 버전으로 보관합니다.
+      if (existsSync(schemaPath)) {
+        copyFileSync(schemaPath, path.join(PREVIOUS_DIR, previousSchemaFile(eventName, before.version)));
+        previousVersion = before.version;
+      }
+    }
+
+    manifest[eventName] = { version, fingerprint, ...(previousVersion !== undefined ? { previousVersion } : {}) };
+    const schema = withVersion(eventName, description, shape, version);
+    finalSchemas.push({ eventName, version, schema, previousVersion });
+    writeJson(schemaPath, schema);
+  }
+
+  writeJson(MANIFEST_PATH, manifest);
+
+  // 두 버전 이상 지난 스키마는 더 이상 허용하지 않으므로 삭제합니다.
+  const keptPreviousFiles = new Set(
+    finalSchemas.flatMap(({ eventName, previousVersion }) =>
+      previousVersion !== undefined ? [previousSchemaFile(eventName, previousVersion)] : [],
+    ),
+  );
+  for (const file of readdirSync(PREVIOUS_DIR)) {
+    if (!keptPreviousFiles.has(file)) {
+      rmSync(path.join(PREVIOUS_DIR, file));
+    }
+  }
+
+  const indexSource = [
+    GENERATED_HEADER,
+    "",
+    'import { JsonSchema } from "../../utils/jsonSchema";',
+    ...finalSchemas.map(({ eventName }) => `import ${eventName}Schema from "./${eventName}.schema.json";`),
+    ...finalSchemas.flatMap(({ eventName, previousVersion }) =>
+      previousVersion !== undefined
+        ? [`import ${eventName}V${previousVersion}Schema from "./previous/${previousSchemaFile(eventName, previousVersion)}";`]
+        : [],
+    ),
+    "",
+    "export interface EventSchemaEntry {",
+    "  version: number;",
+    "  schema: JsonSchema;",
+    "  /** 바로 이전 schemaVersion의 스키마 (이전 코드로 적재된 작업 검증용) */",
+    "  previous?: { version: number; schema: JsonSchema };",
+    "}",
+    "",
+    "/**",
+    " * 이벤트 이름별 페이로드 스키마와 현재 schemaVersion입니다.",
+    " */",
+    "export const EVENT_SCHEMAS: Record<string, EventSchemaEntry> = {",
+    ...finalSchemas.map(({ eventName, version, previousVersion }) => {
+      const previousEntry =
+        previousVersion !== undefined
+          ? `, previous: { version: ${previousVersion}, schema: ${eventName}V${previousVersion}Schema as JsonSchema }`
+          : "";
+      return `  ${eventName}: { version: ${version}, schema: ${eventName}Schema as JsonSchema${previousEntry} },`;
+    }),
+    "};",
+    "",
+  ].join("\n");
+  writeFileSync(path.join(OUTPUT_DIR, "index.ts"), indexSource, "utf8");
+
+  const typesSource = [
+    GENERATED_HEADER,
+    "// 메인 서버에서도 이 파일을 그대로 복사해 사용할 수 있습니다.",
+    "",
+    ...finalSchemas.flatMap(({ eventName, schema }) => [
+      `/** ${schema.description} */`,
+      `export interface ${eventName}Payload ${schemaToTs(schema)}`,
+      "",
+    ]),
+    "/**",
+    " * 이벤트 이름(메인 서버 엔드포인트는 kebab-case)별 페이로드 타입입니다.",
+    " */",
+    "export interface EventPayloadMap {",
+    ...finalSchemas.map(({ eventName }) => `  ${eventName}: ${eventName}Payload;`),
+    "}",
+    "",
+  ].join("\n");
+  writeFileSync(path.join(OUTPUT_DIR, "types.ts"), typesSource, "utf8");
+
+  console.log(`✅ 이벤트 스키마 ${finalSchemas.length}개 생성 완료`, {
+    outputDir: OUTPUT_DIR,
+    versions: Object.fromEntries(finalSchemas.map(({ eventName, version }) => [eventName, version])),
+  });
+}
+
+main().catch((error) => {
+  console.error("❌ 이벤트 스키마 생성 실패:", error);
+  process.exit(1);
+});
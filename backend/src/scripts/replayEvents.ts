@@ -0,0 +1,90 @@
+/**
+ * 과거 이벤트 재전송 스크립트
+ * 
+ * 기능:
+ * - 지정한 블록 구간의 컨트랙트 이벤트를 다시 조회하여 replay 플래그와 함께 이벤트 큐에 적재
+ * - 실시간 리스너의 체크포인트(lastProcessedBlock)는 변경하지 않음
+ * - --dry-run 지정 시 큐에 적재하지 않고 보낼 이벤트만 출력
+ * - 관리자 API와 같은 한도(BLOCKCHAIN_REPLAY_MAX_BLOCKS, BLOCKCHAIN_REPLAY_MAX_EVENTS)를 적용
+ * 
+ * 사용법:
+ * - npm run replay:events -- --listener NftVault --from 1000 --to 2000
+ * - npm run replay:events -- --listener NftVault --from 1000 --to 2000 --events NftLocked,NftUnlocked --dry-run
+ * - npm run replay:events -- --listener MarketplaceVault --from 1000 --to 2000 --events NFTSold
+ * 
+ * 옵션:
+ * - --listener: 리스너 레지스트리 이름 (필수, config/listeners.config.ts)
+ * - --from, --to: 블록 구간 (필수, 양 끝 포함)
+ * - --events: 재전송할 이벤트 이름 (쉼표 구분, 생략 시 리스너의 모든 이벤트)
+ * - --dry-run: 큐에 적재하지 않고 출력만 함
+ * 
+ * 적재된 이벤트는 워커(APP_ROLES에 workers 포함)가 실행 중일 때 싱크로 전달됩니다.
+ */
+
+// 환경 변수는 config 모듈이 로드합니다. (프로젝트 루트에서 npm run으로 실행)
+import { redisConnection } from "../config/redis.config";
+import { replayHistoricalEvents } from "../services/blockchain/replay.service";
+
+/**
+ * "--name value" 형식의 인자를 읽습니다. 값이 없는 플래그는 "true"로 취급합니다.
+ */
+const parseArgs = (argv: string[]): Record<string, string> => {
+  const args: Record<string, string> = {};
+  for (let index = 0; index < argv.length; index += 1) {
+    const arg = argv[index];
+    if (!arg.startsWith("--")) continue;
+
+    const next = argv[index + 1];
+    if (next !== undefined && !next.startsWith("--")) {
+      args[arg.slice(2)] = next;
+      index += 1;
+    } else {
+      args[arg.slice(2)] = "true";
+    }
+  }
+  return args;
+};
+
+async function main() {
+  const args = parseArgs(process.argv.slice(2));
+
+  if (!args.listener || args.from === undefined || args.to === undefined) {
+    throw new Error("사용법: npm run replay:events -- --listener <name> --from <block> --to <block> [--events A,B] [--dry-run]");
+  }
+
+  const result = await replayHistoricalEvents({
+    listenerName: args.listener,
+    fromBlock: Number(args.from),
+    toBlock: Number(args.to),
+    events: args.events ? args.events.split(",").map((eventName) => eventName.trim()).filter(Boolean) : undefined,
+    dryRun: args["dry-run"] === "true",
+  });
+
+  if (result.dryRun) {
+    console.log("🔍 Dry run - 아래 이벤트가 적재됩니다 (실제로 적재하지 않음)");
+    result.items.forEach((item) => {
+      console.log(JSON.stringify({ event: item.eventName, jobId: item.jobId, payload: item.payload }));
+    });
+  }
+
+  console.log(`✅ ${result.dryRun ? "대상" : "적재"} 이벤트 ${result.total}건`, {
+    replayId: result.replayId,
+    listener: result.listenerName,
+    queue: result.queueName,
+    fromBlock: result.fromBlock,
+    toBlock: result.toBlock,
+    events: result.events,
+  });
+}
+
+main()
+  .then(async () => {
+    if (redisConnection.status === "ready") {
+      await redisConnection.quit();
+    }
+    process.exit(0);
+  })
+  .catch((error) => {
+    console.error("❌ 재전송 실패:", error.message ?? error);
+    process.exit(1);
+  });
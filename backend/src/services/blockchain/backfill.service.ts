@@ -0,0 +1,140 @@
+const DEFAULT_CHUNK_SIZE = 2048;
+const DEFAULT_MIN_CHUNK_SIZE = 1;
+const MAX_TRANSIENT_RETRIES = 3;
+const RETRY_DELAY_MS = 1000;
+const SUCCESSES_BEFORE_GROW = 5;
+
+/**
+ * RPC가 조회 범위가 너무 크다고 거절할 때 사용하는 대표적인 오류 문구입니다.
+ * 공급자마다 표현이 달라 여러 패턴을 함께 검사합니다.
+ */
+const RANGE_TOO_LARGE_PATTERNS = [
+  /block range/i,
+  /range (is )?too (large|wide|big)/i,
+  /maximum .*range/i,
+  /exceed(s|ed)? .*(range|limit|max)/i,
+  /too many (blocks|logs|results)/i,
+  /query returned more than/i,
+  /response size/i,
+  /-32005/,
+];
+
+export interface ChunkedBackfillOptions {
+  /** 로그에 표시할 태그 (예: NftVaultListener) */
+  label: string;
+  fromBlock: number;
+  toBlock: number;
+  /** 청크 하나를 조회합니다. 조회된 이벤트 수를 반환합니다. */
+  fetchChunk: (fromBlock: number, toBlock: number) => Promise<number>;
+  /** 청크 조회가 끝난 뒤 진행 상황을 저장합니다. */
+  onChunkComplete?: (toBlock: number) => Promise<void>;
+  chunkSize?: number;
+  minChunkSize?: number;
+}
+
+export interface ChunkedBackfillResult {
+  totalEvents: number;
+  chunks: number;
+}
+
+const readPositiveInt = (key: string, fallback: number): number => {
+  const value = Number(process.env[key]);
+  return Number.isInteger(value) && value > 0 ? value : fallback;
+};
+
+/**
+ * BLOCKCHAIN_BACKFILL_CHUNK_SIZE 설정값을 반환합니다. (기본 2048블록)
+ */
+export const resolveBackfillChunkSize = (): number =>
+  readPositiveInt("BLOCKCHAIN_BACKFILL_CHUNK_SIZE", DEFAULT_CHUNK_SIZE);
+
+/**
+ * RPC 오류가 조회 범위 초과로 인한 것인지 판별합니다.
+ */
+export const isRangeTooLargeError = (error: unknown): boolean => {
+  const err = error as { message?: string; shortMessage?: string; error?: { message?: string; code?: number } };
+  const messages = [err?.message, err?.shortMessage, err?.error?.message, String(err?.error?.code ?? "")]
+    .filter((message): message is string => typeof message === "string" && message.length > 0);
+
+  return messages.some((message) => RANGE_TOO_LARGE_PATTERNS.some((pattern) => pattern.test(message)));
+};
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * 블록 구간을 청크 단위로 나누어 백필합니다.
+ *
+ * 동작 방식:
+ * 1. chunkSize 블록씩 fetchChunk()를 호출합니다.
+ * 2. RPC가 범위 초과로 거절하면 청크 크기를 절반으로 줄여 같은 구간을 다시 시도합니다.
+ * 3. 그 외의 오류는 잠시 대기 후 재시도하고, 계속 실패하면 throw합니다.
+ * 4. 청크가 성공할 때마다 onChunkComplete()로 진행 상황을 저장하므로,
+ *    중간에 중단되어도 마지막으로 완료된 청크 이후부터 다시 시작할 수 있습니다.
+ * 5. 축소된 크기로 여러 번 연속 성공하면 청크 크기를 원래 크기까지 다시 늘립니다.
+ */
+export const backfillInChunks = async (options: ChunkedBackfillOptions): Promise<ChunkedBackfillResult> => {
+  const { label, fromBlock, toBlock, fetchChunk, onChunkComplete } = options;
+  const maxChunkSize = options.chunkSize ?? resolveBackfillChunkSize();
+  const minChunkSize = Math.min(options.minChunkSize ?? DEFAULT_MIN_CHUNK_SIZE, maxChunkSize);
+
+  let chunkSize = maxChunkSize;
+  let cursor = fromBlock;
+  let totalEvents = 0;
+  let chunks = 0;
+  let transientFailures = 0;
+  let consecutiveSuccesses = 0;
+
+  while (cursor <= toBlock) {
+    const chunkTo = Math.min(cursor + chunkSize - 1, toBlock);
+
+    try {
+      totalEvents += await fetchChunk(cursor, chunkTo);
+    } catch (error) {
+      if (isRangeTooLargeError(error) && chunkSize > minChunkSize) {
+        consecutiveSuccesses = 0;
+        chunkSize = Math.max(minChunkSize, Math.floor(chunkSize / 2));
+        console.warn(`[${label}] 백필 조회 범위 초과, 청크 크기 축소`, {
+          fromBlock: cursor,
+          toBlock: chunkTo,
+          nextChunkSize: chunkSize,
+        });
+        continue;
+      }
+
+      transientFailures += 1;
+      if (transientFailures > MAX_TRANSIENT_RETRIES) {
+        console.error(`[${label}] 백필 청크 조회 실패, 재시도 한도 초과`, {
+          fromBlock: cursor,
+          toBlock: chunkTo,
+          error,
+        });
+        throw error;
+      }
+
+      console.warn(`[${label}] 백필 청크 조회 실패, 재시도`, {
+        fromBlock: cursor,
+        toBlock: chunkTo,
+        attempt: transientFailures,
+        error,
+      });
+      await sleep(RETRY_DELAY_MS * transientFailures);
+      continue;
+    }
+
+    if (onChunkComplete) {
+      await onChunkComplete(chunkTo);
+    }
+
+    chunks += 1;
+    transientFailures = 0;
+    cursor = chunkTo + 1;
+
+    consecutiveSuccesses += 1;
+    if (chunkSize < maxChunkSize && consecutiveSuccesses >= SUCCESSES_BEFORE_GROW) {
+      chunkSize = Math.min(maxChunkSize, chunkSize * 2);
+      consecutiveSuccesses = 0;
+    }
+  }
+
+  return { totalEvents, chunks };
+};
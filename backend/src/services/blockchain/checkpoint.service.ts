@@ -0,0 +1,311 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { ensureRedisConnected, redisConnection } from "../../config/redis.config";
+
+const DATA_DIR = path.resolve(__dirname, "../../../data");
+const CHECKPOINT_FILE_PATH = path.join(DATA_DIR, "checkpoints.json");
+const LEGACY_CHECKPOINT_PATH = path.join(DATA_DIR, "lastProcessedBlock.json");
+
+/**
+ * lastProcessedBlock.json을 공유하던 리스너 이름입니다.
+ * 이후에 추가된 리스너는 이 파일과 관계가 없으므로 값을 옮겨오지 않고 initialBlock부터 시작합니다.
+ */
+const LEGACY_CHECKPOINT_LISTENERS = new Set(["NftVault", "MarketplaceVault"]);
+
+const REDIS_KEY_PREFIX = "blockchain:checkpoint";
+const REDIS_PING_TIMEOUT_MS = 3000;
+const MAX_CAS_ATTEMPTS = 10;
+
+/**
+ * 현재 값이 기대값과 같을 때만 새 블록 번호를 기록하는 Lua 스크립트입니다.
+ * 기대값이 빈 문자열이면 키가 존재하지 않는 경우에만 기록합니다.
+ */
+const COMPARE_AND_SET_SCRIPT = `
+local current = redis.call("GET", KEYS[1])
+if (current == false and ARGV[1] == "") or current == ARGV[1] then
+  redis.call("SET", KEYS[1], ARGV[2])
+  return 1
+end
+return 0
+`;
+
+/**
+ * 체크포인트를 구분하는 키입니다.
+ * 같은 컨트랙트라도 체인이나 리스너가 다르면 별도의 커서를 가집니다.
+ */
+export interface CheckpointKey {
+  chainId: string;
+  contractAddress: string;
+  listenerName: string;
+}
+
+/**
+ * 리스너별 마지막 처리 블록을 보관하는 저장소입니다.
+ */
+export interface CheckpointStore {
+  readonly kind: "redis" | "file";
+  get(key: CheckpointKey): Promise<number | null>;
+  /**
+   * 저장된 값이 expected와 같을 때만 next로 갱신합니다.
+   * expected가 null이면 체크포인트가 없을 때만 기록합니다.
+   */
+  compareAndSet(key: CheckpointKey, expected: number | null, next: number): Promise<boolean>;
+}
+
+interface FileCheckpointEntry {
+  lastBlock: number;
+  updatedAt: string;
+}
+
+/**
+ * 체크포인트 키를 저장소에서 사용하는 문자열로 변환합니다.
+ */
+export const formatCheckpointKey = (key: CheckpointKey): string =>
+  `${key.chainId}:${key.contractAddress.toLowerCase()}:${key.listenerName}`;
+
+const parseBlockNumber = (value: unknown): number | null => {
+  const block = Number(value);
+  if (value === null || value === undefined || !Number.isFinite(block) || block < 0) {
+    return null;
+  }
+  return Math.floor(block);
+};
+
+/**
+ * 체크포인트의 Redis 키를 반환합니다. (아웃박스 커밋에서 같은 키를 함께 갱신할 때 사용)
+ */
+export const toRedisCheckpointKey = (key: CheckpointKey): string => `${REDIS_KEY_PREFIX}:${formatCheckpointKey(key)}`;
+
+/**
+ * Redis 기반 체크포인트 저장소를 생성합니다.
+ * 갱신은 Lua 스크립트로 원자적으로 처리되어 여러 프로세스가 동시에 써도 안전합니다.
+ */
+export const createRedisCheckpointStore = (): CheckpointStore => {
+  return {
+    kind: "redis",
+    get: async (key) => parseBlockNumber(await redisConnection.get(toRedisCheckpointKey(key))),
+    compareAndSet: async (key, expected, next) => {
+      const result = await redisConnection.eval(
+        COMPARE_AND_SET_SCRIPT,
+        1,
+        toRedisCheckpointKey(key),
+        expected === null ? "" : String(expected),
+        String(Math.floor(next)),
+      );
+      return Number(result) === 1;
+    },
+  };
+};
+
+/**
+ * 파일 기반 체크포인트 저장소를 생성합니다.
+ * Redis를 사용할 수 없을 때의 대체 저장소이며, 프로세스 내부에서만 쓰기를 직렬화합니다.
+ */
+export const createFileCheckpointStore = (filePath: string = CHECKPOINT_FILE_PATH): CheckpointStore => {
+  let writeChain: Promise<unknown> = Promise.resolve();
+
+  const readAll = async (): Promise<Record<string, FileCheckpointEntry>> => {
+    try {
+      const buffer = await fs.readFile(filePath, "utf8");
+      return JSON.parse(buffer) as Record<string, FileCheckpointEntry>;
+    } catch (error) {
+      const err = error as NodeJS.ErrnoException;
+      if (err.code === "ENOENT") {
+        return {};
+      }
+      throw error;
+    }
+  };
+
+  const writeAll = async (entries: Record<string, FileCheckpointEntry>): Promise<void> => {
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    const tempPath = `${filePath}.tmp`;
+    await fs.writeFile(tempPath, JSON.stringify(entries, null, 2), "utf8");
+    await fs.rename(tempPath, filePath);
+  };
+
+  return {
+    kind: "file",
+    get: async (key) => {
+      const entries = await readAll();
+      return parseBlockNumber(entries[formatCheckpointKey(key)]?.lastBlock);
+    },
+    compareAndSet: (key, expected, next) => {
+      const task = writeChain.then(async () => {
+        const entries = await readAll();
+        const id = formatCheckpointKey(key);
+        const current = parseBlockNumber(entries[id]?.lastBlock);
+        if (current !== expected) {
+          return false;
+        }
+        entries[id] = { lastBlock: Math.floor(next), updatedAt: new Date().toISOString() };
+        await writeAll(entries);
+        return true;
+      });
+      writeChain = task.catch(() => undefined);
+      return task;
+    },
+  };
+};
+
+/**
+ * 이전 버전에서 NftVault/MarketplaceVault 리스너가 공유하던 lastProcessedBlock.json 값을 읽어옵니다.
+ */
+const readLegacyLastBlock = async (): Promise<number | null> => {
+  try {
+    const buffer = await fs.readFile(LEGACY_CHECKPOINT_PATH, "utf8");
+    const parsed = JSON.parse(buffer) as { lastBlock?: number | string };
+    return parseBlockNumber(parsed?.lastBlock);
+  } catch (error) {
+    const err = error as NodeJS.ErrnoException;
+    if (err.code !== "ENOENT") {
+      console.error("[Checkpoint] 기존 lastProcessedBlock.json 읽기 실패:", error);
+    }
+    return null;
+  }
+};
+
+const pingRedis = async (): Promise<void> => {
+  await ensureRedisConnected();
+  await Promise.race([
+    redisConnection.ping(),
+    new Promise((_, reject) =>
+      setTimeout(() => reject(new Error("Redis ping 시간 초과")), REDIS_PING_TIMEOUT_MS),
+    ),
+  ]);
+};
+
+let storePromise: Promise<CheckpointStore> | null = null;
+
+/**
+ * 체크포인트 저장소를 반환합니다.
+ *
+ * BLOCKCHAIN_CHECKPOINT_STORE=file 이면 파일 저장소를 사용하고,
+ * 그 외에는 Redis를 우선 사용하되 연결할 수 없으면 파일 저장소로 대체합니다.
+ */
+export const getCheckpointStore = (): Promise<CheckpointStore> => {
+  if (storePromise) {
+    return storePromise;
+  }
+
+  storePromise = (async () => {
+    if (process.env.BLOCKCHAIN_CHECKPOINT_STORE === "file") {
+      return createFileCheckpointStore();
+    }
+
+    try {
+      await pingRedis();
+      return createRedisCheckpointStore();
+    } catch (error) {
+      console.warn("[Checkpoint] Redis를 사용할 수 없어 파일 저장소로 대체합니다:", error);
+      return createFileCheckpointStore();
+    }
+  })();
+
+  return storePromise;
+};
+
+/**
+ * 체크포인트를 읽어오고, 없으면 이전 저장 위치의 값을 옮겨옵니다.
+ *
+ * 마이그레이션 순서:
+ * 1. Redis 저장소라면 파일 저장소(checkpoints.json)에 남아 있는 값
+ * 2. NftVault/MarketplaceVault 리스너만: 두 리스너가 공유하던 lastProcessedBlock.json의 lastBlock 값
+ *
+ * 공유 파일의 값은 가장 느린 리스너 기준이 아니므로, 각 리스너는 그 값부터 다시 백필합니다.
+ * 옮겨올 값도 없으면 resolveInitialBlock()의 값을 반환합니다. (기록하지는 않음)
+ */
+export const loadCheckpoint = async (
+  store: CheckpointStore,
+  key: CheckpointKey,
+  resolveInitialBlock: () => Promise<number>,
+): Promise<number> => {
+  const current = await store.get(key);
+  if (current !== null) {
+    return current;
+  }
+
+  let migrated: number | null = null;
+  let source = "";
+
+  if (store.kind === "redis") {
+    migrated = await createFileCheckpointStore().get(key);
+    source = CHECKPOINT_FILE_PATH;
+  }
+
+  if (migrated === null && LEGACY_CHECKPOINT_LISTENERS.has(key.listenerName)) {
+    migrated = await readLegacyLastBlock();
+    source = LEGACY_CHECKPOINT_PATH;
+  }
+
+  if (migrated === null) {
+    return resolveInitialBlock();
+  }
+
+  if (await store.compareAndSet(key, null, migrated)) {
+    console.log("[Checkpoint] 기존 체크포인트 마이그레이션 완료", {
+      key: formatCheckpointKey(key),
+      source,
+      lastBlock: migrated,
+    });
+    return migrated;
+  }
+
+  return (await store.get(key)) ?? resolveInitialBlock();
+};
+
+/**
+ * 체크포인트를 blockNumber까지 전진시킵니다.
+ * 이미 더 높은 블록이 기록되어 있으면 되돌리지 않으며, 경합 시 compare-and-set을 재시도합니다.
+ *
+ * @returns 실제로 값을 갱신했는지 여부
+ */
+export const advanceCheckpoint = async (
+  store: CheckpointStore,
+  key: CheckpointKey,
+  blockNumber: number,
+): Promise<boolean> => {
+  if (!Number.isFinite(blockNumber) || blockNumber < 0) {
+    return false;
+  }
+
+  for (let attempt = 0; attempt < MAX_CAS_ATTEMPTS; attempt++) {
+    const current = await store.get(key);
+    if (current !== null && current >= blockNumber) {
+      return false;
+    }
+    if (await store.compareAndSet(key, current, blockNumber)) {
+      return true;
+    }
+  }
+
+  throw new Error(`체크포인트 갱신 경합이 해소되지 않았습니다: ${formatCheckpointKey(key)}`);
+};
+
+/**
+ * 재조직으로 다시 조회해야 하는 구간이 생겼을 때 체크포인트를 blockNumber로 되돌립니다.
+ * 이미 blockNumber 이하이면 그대로 두며, 경합 시 compare-and-set을 재시도합니다.
+ *
+ * @returns 실제로 값을 갱신했는지 여부
+ */
+export const rewindCheckpoint = async (
+  store: CheckpointStore,
+  key: CheckpointKey,
+  blockNumber: number,
+): Promise<boolean> => {
+  if (!Number.isFinite(blockNumber) || blockNumber < 0) {
+    return false;
+  }
+
+  for (let attempt = 0; attempt < MAX_CAS_ATTEMPTS; attempt++) {
+    const current = await store.get(key);
+    if (current === null || current <= blockNumber) {
+      return false;
+    }
+    if (await store.compareAndSet(key, current, blockNumber)) {
+      return true;
+    }
+  }
+
+  throw new Error(`체크포인트 갱신 경합이 해소되지 않았습니다: ${formatCheckpointKey(key)}`);
+};
@@ -0,0 +1,318 @@
+import { EventLog, Provider } from "ethers";
+
+const DEFAULT_CONFIRMATIONS = 3;
+const DEFAULT_REORG_WINDOW = 64;
+
+/**
+ * 확정 대기 중이거나 이미 전달된 이벤트 한 건입니다.
+ */
+export interface TrackedEvent {
+  eventName: string;
+  payload: Record<string, unknown>;
+  blockNumber: number;
+  blockHash: string;
+  transactionHash: string;
+  logIndex: number;
+}
+
+export interface ConfirmationTrackerOptions {
+  /** 블록 해시 조회에 사용할 provider (재연결 시 교체되므로 호출 시점의 provider를 반환) */
+  getProvider: () => Provider | null;
+  listenerName: string;
+  /** 이벤트를 전달하기 전에 기다릴 블록 수 */
+  confirmations?: number;
+  /** 전달한 이벤트의 블록 해시를 보관하며 재조직을 감시할 블록 수 */
+  reorgWindow?: number;
+  /** 확정된 이벤트를 전달합니다. 실패하면 throw하여 다음 블록에서 재시도합니다. */
+  deliver: (event: TrackedEvent) => Promise<void>;
+  /** 이미 전달했지만 재조직으로 사라진 이벤트의 보상 처리를 수행합니다. */
+  revert: (event: TrackedEvent) => Promise<void>;
+  /** 해당 블록까지 모든 이벤트가 전달되었을 때 호출됩니다. */
+  onConfirmedThrough?: (blockNumber: number) => Promise<void>;
+  /**
+   * 재조직이 감지되었거나 requestRescan()이 호출되었을 때 호출됩니다. blockNumber부터 로그를 다시 조회해야 이벤트를 놓치지 않습니다.
+   * 이미 기록한 체크포인트가 blockNumber 이상이면 되돌려야 합니다. (다음 onConfirmedThrough 값이 더 작아짐)
+   */
+  onReorg?: (blockNumber: number) => void;
+}
+
+export interface ConfirmationTracker {
+  readonly confirmations: number;
+  /** 확정 깊이를 기다리는 이벤트 수 */
+  readonly pendingCount: number;
+  /** 재조직으로 다시 조회해야 하는 블록이 있는지 여부 */
+  readonly rescanPending: boolean;
+  /** 새 이벤트를 확정 대기열에 추가합니다. 같은 블록 해시로 이미 전달한 이벤트는 무시합니다. */
+  track(event: TrackedEvent): void;
+  /** removed 플래그가 붙은 로그를 처리합니다. (processHead()와 같은 순서로 직렬화됨) */
+  remove(event: Pick<TrackedEvent, "transactionHash" | "logIndex">): Promise<void>;
+  /**
+   * 재조직으로 다시 조회해야 하는 가장 낮은 블록을 반환하고 초기화합니다. (없으면 null)
+   * 반환되기 전까지는 그 블록 이후의 이벤트를 전달하지 않고, 확정 블록도 그 이전 블록까지만 보고합니다.
+   * 호출한 쪽은 반환된 블록부터 로그를 다시 조회한 뒤 processHead()에 조회한 블록을 전달해야 합니다.
+   */
+  takeRescanFrom(): number | null;
+  /**
+   * 재조직과 같은 방식으로 blockNumber부터 로그를 다시 조회하도록 요청합니다.
+   * 이미 조회한 구간에 새로 구독한 주소의 로그가 있을 때 사용합니다. (이미 전달한 이벤트는 track()이 걸러냄)
+   */
+  requestRescan(blockNumber: number): void;
+  /**
+   * 새 체인 헤드를 기준으로 재조직 감지와 확정 이벤트 전달을 수행합니다.
+   * scannedThrough를 지정하면 그 블록까지만 전달하고 체크포인트를 갱신합니다. (백필 진행 중 사용)
+   */
+  processHead(head: number, scannedThrough?: number): Promise<void>;
+}
+
+/**
+ * 환경 변수에서 음이 아닌 정수 설정을 읽어옵니다.
+ */
+const readNonNegativeInt = (key: string, fallback: number): number => {
+  const value = Number(process.env[key]);
+  return process.env[key] !== undefined && Number.isInteger(value) && value >= 0 ? value : fallback;
+};
+
+/**
+ * BLOCKCHAIN_CONFIRMATIONS 설정값을 반환합니다. (기본 3블록)
+ */
+export const resolveConfirmations = (): number =>
+  readNonNegativeInt("BLOCKCHAIN_CONFIRMATIONS", DEFAULT_CONFIRMATIONS);
+
+/**
+ * BLOCKCHAIN_REORG_WINDOW 설정값을 반환합니다. (기본 64블록)
+ */
+export const resolveReorgWindow = (): number =>
+  readNonNegativeInt("BLOCKCHAIN_REORG_WINDOW", DEFAULT_REORG_WINDOW);
+
+const eventId = (event: Pick<TrackedEvent, "transactionHash" | "logIndex">): string =>
+  `${event.transactionHash}:${event.logIndex}`;
+
+const compareEvents = (a: TrackedEvent, b: TrackedEvent): number =>
+  a.blockNumber === b.blockNumber ? a.logIndex - b.logIndex : a.blockNumber - b.blockNumber;
+
+/**
+ * ethers 이벤트 로그와 페이로드로 추적 대상 이벤트를 만듭니다.
+ */
+export const toTrackedEvent = (
+  eventName: string,
+  payload: Record<string, unknown>,
+  eventLog: EventLog,
+): TrackedEvent => ({
+  eventName,
+  payload,
+  blockNumber: eventLog.blockNumber,
+  blockHash: eventLog.blockHash,
+  transactionHash: eventLog.transactionHash,
+  logIndex: eventLog.index,
+});
+
+/**
+ * 확정 깊이와 재조직을 관리하는 추적기를 생성합니다.
+ *
+ * 동작 방식:
+ * 1. track()으로 들어온 이벤트는 head - confirmations 블록에 도달할 때까지 대기합니다.
+ * 2. 확정 시점에 해당 블록의 정식 해시와 로그의 blockHash를 비교하여, 다르면 전달하지 않고 버립니다.
+ * 3. 전달한 이벤트가 속한 블록의 해시는 reorgWindow 동안 보관하고, 새 블록마다 정식 해시와 비교합니다.
+ * 4. 해시가 달라진 블록의 이벤트는 revert()로 보상 처리합니다.
+ * 5. 재조직된 블록(2, 4번 또는 removed 로그)부터 로그를 다시 조회하도록 onReorg()로 알리고,
+ *    takeRescanFrom()으로 다시 조회가 시작될 때까지 그 블록 이후로는 전달과 확정 블록 보고를 멈춥니다.
+ *
+ * processHead()와 remove() 호출은 내부적으로 직렬화되어 동시에 실행되지 않습니다.
+ */
+export const createConfirmationTracker = (options: ConfirmationTrackerOptions): ConfirmationTracker => {
+  const { getProvider, listenerName, deliver, revert, onConfirmedThrough, onReorg } = options;
+  const confirmations = options.confirmations ?? resolveConfirmations();
+  const reorgWindow = Math.max(options.reorgWindow ?? resolveReorgWindow(), confirmations);
+  const logTag = `[${listenerName}Listener]`;
+
+  const pending = new Map<string, TrackedEvent>();
+  // 블록 번호 → (블록 해시, 해당 블록에서 전달한 이벤트 목록)
+  const delivered = new Map<number, { blockHash: string; events: TrackedEvent[] }>();
+  let processing: Promise<void> = Promise.resolve();
+  // 재조직으로 다시 조회해야 하는 가장 낮은 블록 (takeRescanFrom()으로 가져갈 때까지 유지)
+  let rescanFrom: number | null = null;
+
+  const markReorged = (blockNumber: number) => {
+    rescanFrom = rescanFrom === null ? blockNumber : Math.min(rescanFrom, blockNumber);
+    onReorg?.(blockNumber);
+  };
+
+  const isDelivered = (event: TrackedEvent): boolean => {
+    const entry = delivered.get(event.blockNumber);
+    return (
+      entry !== undefined &&
+      entry.blockHash === event.blockHash &&
+      entry.events.some((item) => eventId(item) === eventId(event))
+    );
+  };
+
+  const getCanonicalHash = async (blockNumber: number): Promise<string | null> => {
+    const provider = getProvider();
+    if (!provider) {
+      throw new Error("provider가 연결되어 있지 않습니다.");
+    }
+    const block = await provider.getBlock(blockNumber);
+    return block?.hash ?? null;
+  };
+
+  const revertBlock = async (blockNumber: number, reason: string): Promise<void> => {
+    const entry = delivered.get(blockNumber);
+    if (!entry) {
+      return;
+    }
+
+    for (const event of [...entry.events].reverse()) {
+      await revert(event);
+      console.warn(`${logTag} 재조직으로 전달된 이벤트 취소`, {
+        event: event.eventName,
+        blockNumber,
+        transactionHash: event.transactionHash,
+        logIndex: event.logIndex,
+        reason,
+      });
+    }
+    delivered.delete(blockNumber);
+    markReorged(blockNumber);
+  };
+
+  const detectReorgs = async (head: number): Promise<void> => {
+    const blockNumbers = [...delivered.keys()].sort((a, b) => b - a);
+    for (const blockNumber of blockNumbers) {
+      if (blockNumber < head - reorgWindow) {
+        delivered.delete(blockNumber);
+        continue;
+      }
+
+      const canonicalHash = await getCanonicalHash(blockNumber);
+      if (canonicalHash !== delivered.get(blockNumber)?.blockHash) {
+        await revertBlock(blockNumber, "block-hash-mismatch");
+      }
+    }
+  };
+
+  const deliverConfirmed = async (head: number, scannedThrough: number): Promise<void> => {
+    // 재조직된 블록을 다시 조회하기 전에는 그 블록 이후를 전달하지 않습니다. (정식 체인의 이벤트가 아직 없음)
+    const rescanFloor = rescanFrom === null ? Infinity : rescanFrom - 1;
+    const safeHead = Math.min(head - confirmations, scannedThrough, rescanFloor);
+    const ready = [...pending.values()].filter((event) => event.blockNumber <= safeHead).sort(compareEvents);
+    const canonicalHashes = new Map<number, string | null>();
+    let firstFailedBlock: number | null = null;
+
+    for (const event of ready) {
+      if (firstFailedBlock !== null && event.blockNumber >= firstFailedBlock) {
+        break;
+      }
+
+      // reorgWindow보다 깊은 블록은 최종 확정된 것으로 간주하고 해시 비교를 생략합니다.
+      if (event.blockNumber >= head - reorgWindow) {
+        if (!canonicalHashes.has(event.blockNumber)) {
+          canonicalHashes.set(event.blockNumber, await getCanonicalHash(event.blockNumber));
+        }
+        const canonicalHash = canonicalHashes.get(event.blockNumber);
+        if (canonicalHash !== event.blockHash) {
+          // 같은 블록에서 조회한 이벤트를 모두 버리고, 정식 블록의 로그를 다시 조회할 때까지 이후 전달을 멈춥니다.
+          for (const item of [...pending.values()]) {
+            if (item.blockNumber === event.blockNumber && item.blockHash !== canonicalHash) {
+              pending.delete(eventId(item));
+              console.warn(`${logTag} 확정 전 재조직으로 사라진 이벤트 폐기`, {
+                event: item.eventName,
+                blockNumber: item.blockNumber,
+                transactionHash: item.transactionHash,
+              });
+            }
+          }
+          markReorged(event.blockNumber);
+          firstFailedBlock = event.blockNumber;
+          break;
+        }
+      }
+
+      try {
+        await deliver(event);
+      } catch (error) {
+        firstFailedBlock = event.blockNumber;
+        console.error(`${logTag} 확정 이벤트 전달 실패 (다음 블록에서 재시도)`, {
+          event: event.eventName,
+          blockNumber: event.blockNumber,
+          error,
+        });
+        break;
+      }
+
+      pending.delete(eventId(event));
+      if (event.blockNumber >= head - reorgWindow) {
+        const entry = delivered.get(event.blockNumber) ?? { blockHash: event.blockHash, events: [] };
+        entry.events.push(event);
+        delivered.set(event.blockNumber, entry);
+      }
+    }
+
+    const confirmedThrough = firstFailedBlock === null ? safeHead : firstFailedBlock - 1;
+    if (onConfirmedThrough && confirmedThrough >= 0) {
+      await onConfirmedThrough(confirmedThrough);
+    }
+  };
+
+  return {
+    confirmations,
+    get pendingCount() {
+      return pending.size;
+    },
+    get rescanPending() {
+      return rescanFrom !== null;
+    },
+    track: (event) => {
+      // 재조직 후 다시 조회한 구간에는 이미 전달한 이벤트도 포함되어 있습니다.
+      if (isDelivered(event)) {
+        return;
+      }
+      pending.set(eventId(event), event);
+    },
+    remove: (event) => {
+      const id = eventId(event);
+      processing = processing
+        .catch(() => undefined)
+        .then(async () => {
+          if (pending.delete(id)) {
+            return;
+          }
+
+          for (const [blockNumber, entry] of delivered) {
+            const target = entry.events.find((item) => eventId(item) === id);
+            if (target) {
+              await revert(target);
+              entry.events = entry.events.filter((item) => item !== target);
+              if (entry.events.length === 0) {
+                delivered.delete(blockNumber);
+              }
+              markReorged(blockNumber);
+              console.warn(`${logTag} removed 로그 수신으로 전달된 이벤트 취소`, {
+                event: target.eventName,
+                blockNumber,
+                transactionHash: target.transactionHash,
+              });
+              return;
+            }
+          }
+        });
+      return processing;
+    },
+    takeRescanFrom: () => {
+      const blockNumber = rescanFrom;
+      rescanFrom = null;
+      return blockNumber;
+    },
+    requestRescan: (blockNumber) => {
+      markReorged(blockNumber);
+    },
+    processHead: (head, scannedThrough = head) => {
+      processing = processing
+        .catch(() => undefined)
+        .then(async () => {
+          await detectReorgs(head);
+          await deliverConfirmed(head, scannedThrough);
+        });
+      return processing;
+    },
+  };
+};
@@ -0,0 +1,318 @@
+import { JsonRpcProvider, Provider, WebSocketProvider } from "ethers";
+
+const DEFAULT_HEARTBEAT_INTERVAL_MS = 15_000;
+const DEFAULT_STALE_AFTER_MS = 60_000;
+const DEFAULT_REQUEST_TIMEOUT_MS = 10_000;
+const DEFAULT_HTTP_POLLING_INTERVAL_MS = 4_000;
+const DEFAULT_WS_MAX_FAILURES = 5;
+const DEFAULT_WS_RETRY_INTERVAL_MS = 5 * 60_000;
+const RECONNECT_BASE_DELAY_MS = 1_000;
+const RECONNECT_MAX_DELAY_MS = 60_000;
+
+export type ProviderTransport = "websocket" | "http";
+
+/**
+ * 연결 한 번에 해당하는 세션 정보입니다.
+ * 재연결할 때마다 새 세션(새 provider)이 만들어집니다.
+ */
+export interface ProviderSession {
+  provider: Provider;
+  transport: ProviderTransport;
+  /** 블록 수신 등 연결이 살아 있다는 신호를 기록합니다. */
+  markAlive: () => void;
+}
+
+/**
+ * 세션이 연결되었을 때 호출됩니다.
+ * 구독 등록과 누락 구간 백필을 수행하고, 세션 종료 시 실행할 정리 함수를 반환합니다.
+ * throw하면 연결 실패로 간주하여 백오프 후 다시 연결합니다.
+ */
+export type SessionHandler = (session: ProviderSession) => Promise<() => Promise<void> | void>;
+
+export interface ProviderSupervisorOptions {
+  /** 로그에 표시할 태그 (예: NftVaultListener) */
+  label: string;
+  wssUrl?: string;
+  httpUrl?: string;
+  onConnect: SessionHandler;
+}
+
+export interface ProviderSupervisorStatus {
+  connected: boolean;
+  transport: ProviderTransport | null;
+  reconnectAttempts: number;
+  lastActivityAt: string | null;
+  lastError: string | null;
+}
+
+export interface ProviderSupervisor {
+  /** 현재 세션의 provider (연결되지 않았으면 null) */
+  readonly provider: Provider | null;
+  start(): Promise<void>;
+  stop(): Promise<void>;
+  status(): ProviderSupervisorStatus;
+}
+
+const readPositiveInt = (key: string, fallback: number): number => {
+  const value = Number(process.env[key]);
+  return Number.isInteger(value) && value > 0 ? value : fallback;
+};
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const withTimeout = <T>(promise: Promise<T>, ms: number, message: string): Promise<T> =>
+  Promise.race([
+    promise,
+    new Promise<T>((_, reject) => setTimeout(() => reject(new Error(message)), ms)),
+  ]);
+
+/**
+ * 리스너가 사용할 RPC 주소를 환경 변수에서 읽어옵니다.
+ * WSS_PROVIDER_URL이 없으면 HTTP(RPC_URL → FUJI_RPC_URL) 폴링만 사용합니다.
+ */
+export const resolveProviderUrls = (): { wssUrl?: string; httpUrl?: string } => ({
+  wssUrl: process.env.WSS_PROVIDER_URL || undefined,
+  httpUrl: process.env.RPC_URL || process.env.FUJI_RPC_URL || undefined,
+});
+
+/**
+ * provider 연결을 감시하고 끊기면 스스로 복구하는 감독자를 생성합니다.
+ *
+ * 동작 방식:
+ * 1. WSS 주소가 있으면 WebSocketProvider로, 없으면 HTTP 폴링 provider로 연결합니다.
+ * 2. 연결되면 onConnect()로 구독 등록과 누락 구간 백필을 수행합니다.
+ * 3. 하트비트 주기마다 eth_blockNumber를 호출하고, 일정 시간 블록 수신이 없으면 연결이 멈춘 것으로 판단합니다.
+ * 4. 소켓 종료, 하트비트 실패, 정체 감지 시 세션을 정리하고 지수 백오프로 재연결합니다.
+ * 5. WSS 연결이 연속으로 실패하면 HTTP 폴링으로 전환하고, 일정 시간 후 WSS를 다시 시도합니다.
+ */
+export const createProviderSupervisor = (options: ProviderSupervisorOptions): ProviderSupervisor => {
+  const { label, wssUrl, httpUrl, onConnect } = options;
+  const logTag = `[${label}]`;
+
+  if (!wssUrl && !httpUrl) {
+    throw new Error("환경 변수 WSS_PROVIDER_URL 또는 RPC_URL이 설정되어 있지 않습니다.");
+  }
+
+  const heartbeatIntervalMs = readPositiveInt("BLOCKCHAIN_HEARTBEAT_INTERVAL_MS", DEFAULT_HEARTBEAT_INTERVAL_MS);
+  const staleAfterMs = readPositiveInt("BLOCKCHAIN_STALE_AFTER_MS", DEFAULT_STALE_AFTER_MS);
+  const wsMaxFailures = readPositiveInt("BLOCKCHAIN_WS_MAX_FAILURES", DEFAULT_WS_MAX_FAILURES);
+  const wsRetryIntervalMs = readPositiveInt("BLOCKCHAIN_WS_RETRY_INTERVAL_MS", DEFAULT_WS_RETRY_INTERVAL_MS);
+
+  let provider: Provider | null = null;
+  let transport: ProviderTransport | null = null;
+  let teardown: (() => Promise<void> | void) | null = null;
+  let heartbeatTimer: NodeJS.Timeout | null = null;
+  let wsRetryTimer: NodeJS.Timeout | null = null;
+  let lastActivityAt = 0;
+  let lastError: string | null = null;
+  let reconnectAttempts = 0;
+  let wsFailures = 0;
+  let reconnecting: Promise<void> | null = null;
+  let stopped = false;
+
+  const markAlive = () => {
+    lastActivityAt = Date.now();
+  };
+
+  const closeSession = async (): Promise<void> => {
+    if (heartbeatTimer) {
+      clearInterval(heartbeatTimer);
+      heartbeatTimer = null;
+    }
+
+    const current = provider;
+    const currentTeardown = teardown;
+    provider = null;
+    transport = null;
+    teardown = null;
+
+    try {
+      await currentTeardown?.();
+    } catch (error) {
+      console.error(`${logTag} 세션 정리 실패`, error);
+    }
+
+    try {
+      current?.destroy();
+    } catch (error) {
+      console.error(`${logTag} provider 종료 실패`, error);
+    }
+  };
+
+  const chooseTransport = (): ProviderTransport => {
+    if (!wssUrl) {
+      return "http";
+    }
+    if (httpUrl && wsFailures >= wsMaxFailures) {
+      return "http";
+    }
+    return "websocket";
+  };
+
+  const scheduleWebSocketRetry = () => {
+    if (wsRetryTimer || !wssUrl) {
+      return;
+    }
+    wsRetryTimer = setTimeout(() => {
+      wsRetryTimer = null;
+      wsFailures = 0;
+      console.log(`${logTag} HTTP 폴링 중 WSS 재연결 시도`);
+      void reconnect("websocket-retry");
+    }, wsRetryIntervalMs);
+  };
+
+  const openSession = async (): Promise<void> => {
+    const nextTransport = chooseTransport();
+    const nextProvider: Provider =
+      nextTransport === "websocket"
+        ? new WebSocketProvider(wssUrl as string)
+        : new JsonRpcProvider(httpUrl as string, undefined, {
+            pollingInterval: readPositiveInt("BLOCKCHAIN_HTTP_POLLING_INTERVAL_MS", DEFAULT_HTTP_POLLING_INTERVAL_MS),
+          });
+
+    try {
+      await withTimeout(nextProvider.getBlockNumber(), DEFAULT_REQUEST_TIMEOUT_MS, "RPC 응답 시간 초과");
+
+      provider = nextProvider;
+      transport = nextTransport;
+      markAlive();
+
+      if (nextProvider instanceof WebSocketProvider) {
+        const socket = nextProvider.websocket as unknown as {
+          addEventListener?: (event: string, handler: () => void) => void;
+        };
+        socket.addEventListener?.("close", () => {
+          if (provider === nextProvider) {
+            void reconnect("websocket-closed");
+          }
+        });
+      }
+
+      teardown = await onConnect({ provider: nextProvider, transport: nextTransport, markAlive });
+    } catch (error) {
+      if (provider === nextProvider) {
+        await closeSession();
+      } else {
+        try {
+          nextProvider.destroy();
+        } catch {
+          // 연결되지 않은 provider 정리 실패는 무시
+        }
+      }
+      if (nextTransport === "websocket") {
+        wsFailures += 1;
+      }
+      throw error;
+    }
+
+    // 연결 도중 stop()이 호출되었으면 방금 연결한 세션을 바로 정리합니다.
+    if (stopped) {
+      await closeSession();
+      return;
+    }
+
+    if (nextTransport === "websocket") {
+      wsFailures = 0;
+    } else if (wssUrl) {
+      scheduleWebSocketRetry();
+    }
+
+    heartbeatTimer = setInterval(() => {
+      void checkHeartbeat(nextProvider);
+    }, heartbeatIntervalMs);
+
+    console.log(`${logTag} provider 연결 완료`, { transport: nextTransport });
+  };
+
+  const checkHeartbeat = async (target: Provider): Promise<void> => {
+    if (provider !== target || reconnecting) {
+      return;
+    }
+
+    try {
+      await withTimeout(target.getBlockNumber(), DEFAULT_REQUEST_TIMEOUT_MS, "하트비트 응답 시간 초과");
+    } catch (error) {
+      lastError = error instanceof Error ? error.message : String(error);
+      void reconnect("heartbeat-failed");
+      return;
+    }
+
+    if (Date.now() - lastActivityAt > staleAfterMs) {
+      void reconnect("stale");
+    }
+  };
+
+  const connectWithRetry = async (): Promise<void> => {
+    while (!stopped) {
+      try {
+        await openSession();
+        reconnectAttempts = 0;
+        lastError = null;
+        return;
+      } catch (error) {
+        reconnectAttempts += 1;
+        lastError = error instanceof Error ? error.message : String(error);
+        const delay = Math.min(RECONNECT_MAX_DELAY_MS, RECONNECT_BASE_DELAY_MS * 2 ** (reconnectAttempts - 1));
+        console.error(`${logTag} provider 연결 실패, ${delay}ms 후 재시도`, {
+          attempt: reconnectAttempts,
+          error: lastError,
+        });
+        await sleep(delay);
+      }
+    }
+  };
+
+  const reconnect = (reason: string): Promise<void> => {
+    if (stopped) {
+      return Promise.resolve();
+    }
+    if (reconnecting) {
+      return reconnecting;
+    }
+
+    console.warn(`${logTag} provider 재연결 시작`, { reason, transport });
+
+    reconnecting = (async () => {
+      await closeSession();
+      await connectWithRetry();
+    })().finally(() => {
+      reconnecting = null;
+    });
+
+    return reconnecting;
+  };
+
+  return {
+    get provider() {
+      return provider;
+    },
+    /**
+     * 첫 연결을 시도합니다. 실패하면 백그라운드에서 재연결을 계속하고 바로 반환합니다.
+     */
+    start: async () => {
+      stopped = false;
+      try {
+        await openSession();
+      } catch (error) {
+        lastError = error instanceof Error ? error.message : String(error);
+        console.error(`${logTag} 첫 provider 연결 실패, 백그라운드에서 재시도합니다`, { error: lastError });
+        void reconnect("initial-connect-failed");
+      }
+    },
+    stop: async () => {
+      stopped = true;
+      if (wsRetryTimer) {
+        clearTimeout(wsRetryTimer);
+        wsRetryTimer = null;
+      }
+      await closeSession();
+    },
+    status: () => ({
+      connected: provider !== null,
+      transport,
+      reconnectAttempts,
+      lastActivityAt: lastActivityAt > 0 ? new Date(lastActivityAt).toISOString() : null,
+      lastError,
+    }),
+  };
+};
@@ -0,0 +1,68 @@
+import {
+  CUSTOM_TOKEN_DEFINITION,
+  MULTI_TOKEN_FACTORY_DEFINITION,
+  isMultiTokenListenerEnabled,
+} from "../../config/listeners.config";
+import { getProvider } from "../../utils/contract";
+import { ContractListener, initializeContractListener } from "./listeners/contract.listener";
+import type { TrackedEvent } from "./confirmation.service";
+import { CustomTokenSummary, loadCustomTokensFromFactory } from "./customTokenRegistry.service";
+
+/**
+ * MultiTokenFactory 리스너와 CustomToken ERC20 Transfer 리스너를 초기화합니다.
+ *
+ * 실행 흐름:
+ * 1. 팩토리 리스너 시작 - TokenCreated, TokenDeactivated, TokenReactivated를 multi-token-events 큐로 전달
+ * 2. 팩토리의 getAllTokens()로 기존 토큰 주소를 읽어 CustomToken 리스너 하나로 구독
+ *    (주소 목록 필터를 사용하며, 체크포인트가 없으면 팩토리 시작 블록부터 백필)
+ * 3. 확정된 TokenCreated를 큐에 넣을 때마다 새 토큰 주소를 구독 목록에 추가하고 생성 블록부터 다시 조회
+ *
+ * CustomToken 리스너는 Transfer를 TokenTransfer 작업으로 전달합니다. (GameItem Transfer와 구분)
+ * 토큰 수와 관계없이 provider 연결은 팩토리와 CustomToken 리스너의 두 개만 사용합니다.
+ *
+ * @returns 팩토리 리스너와 CustomToken 리스너 (BLOCKCHAIN_MULTI_TOKEN_LISTENER_ENABLED=false 이면 빈 배열)
+ */
+export const initializeCustomTokenListeners = async (): Promise<ContractListener[]> => {
+  if (!isMultiTokenListenerEnabled()) {
+    return [];
+  }
+
+  let tokenListener: ContractListener | null = null;
+  // CustomToken 리스너가 시작되기 전에 전달된 TokenCreated (주소 → 생성 블록)
+  const createdBeforeStart = new Map<string, number>();
+
+  const onEnqueued = async (event: TrackedEvent) => {
+    if (event.eventName !== "TokenCreated") {
+      return;
+    }
+    const address = String(event.payload.contractAddress);
+    if (!tokenListener) {
+      createdBeforeStart.set(address, Math.min(createdBeforeStart.get(address) ?? Infinity, event.blockNumber));
+      return;
+    }
+
+    if (tokenListener.addAddress?.(address, event.blockNumber)) {
+      const symbol = (event.payload.token as CustomTokenSummary | null)?.symbol ?? null;
+      console.log("[CustomTokenListener] 새 토큰 주소 구독", { address, symbol, fromBlock: event.blockNumber });
+    }
+  };
+
+  const factoryListener = await initializeContractListener(MULTI_TOKEN_FACTORY_DEFINITION, undefined, { onEnqueued });
+
+  try {
+    const tokens = await loadCustomTokensFromFactory(getProvider());
+    tokenListener = await initializeContractListener(CUSTOM_TOKEN_DEFINITION, undefined, {
+      addresses: tokens.map((token) => token.address),
+    });
+  } catch (error) {
+    await factoryListener.cleanup();
+    throw error;
+  }
+
+  // getAllTokens() 조회 이후에 생성된 토큰은 생성 블록부터 조회합니다. (이미 구독 중인 주소는 무시됨)
+  for (const [address, blockNumber] of createdBeforeStart) {
+    tokenListener.addAddress?.(address, blockNumber);
+  }
+
+  return [factoryListener, tokenListener];
+};
@@ -0,0 +1,94 @@
+import { Contract, Provider, id } from "ethers";
+import { MULTI_TOKEN_FACTORY_DEFINITION, resolveListenerAddress } from "../../config/listeners.config";
+import { loadArtifactAbi } from "./listeners/base.listener";
+
+/**
+ * MultiTokenFactory가 생성한 CustomToken 정보입니다.
+ */
+export interface CustomTokenInfo {
+  address: string;
+  name: string;
+  symbol: string;
+  decimals: number;
+  isActive: boolean;
+}
+
+/**
+ * 페이로드에 추가하는 토큰 정보입니다. (활성화 여부는 이벤트 시점과 다를 수 있어 제외)
+ */
+export type CustomTokenSummary = Pick<CustomTokenInfo, "address" | "name" | "symbol" | "decimals">;
+
+const tokensByAddress = new Map<string, CustomTokenInfo>();
+const tokensBySymbolHash = new Map<string, CustomTokenInfo>();
+let loading: Promise<CustomTokenInfo[]> | null = null;
+
+const register = (info: CustomTokenInfo) => {
+  tokensByAddress.set(info.address.toLowerCase(), info);
+  tokensBySymbolHash.set(id(info.symbol).toLowerCase(), info);
+};
+
+/**
+ * 팩토리의 getAllTokens()로 전체 토큰 목록을 읽어 레지스트리를 갱신합니다.
+ * 동시에 여러 번 호출되어도 조회는 한 번만 수행합니다.
+ */
+export const loadCustomTokensFromFactory = (provider: Provider): Promise<CustomTokenInfo[]> => {
+  if (loading) {
+    return loading;
+  }
+
+  loading = (async () => {
+    const factory = new Contract(
+      resolveListenerAddress(MULTI_TOKEN_FACTORY_DEFINITION),
+      loadArtifactAbi(MULTI_TOKEN_FACTORY_DEFINITION.artifact),
+      provider,
+    );
+    const tokens = (await factory.getAllTokens()) as Array<{
+      name: string;
+      symbol: string;
+      contractAddress: string;
+      decimals: bigint;
+      isActive: boolean;
+    }>;
+
+    const infos = tokens.map((token) => ({
+      address: token.contractAddress,
+      name: token.name,
+      symbol: token.symbol,
+      decimals: Number(token.decimals),
+      isActive: token.isActive,
+    }));
+    infos.forEach(register);
+    return infos;
+  })().finally(() => {
+    loading = null;
+  });
+
+  return loading;
+};
+
+/**
+ * 등록된 토큰 목록을 반환합니다.
+ */
+export const listCustomTokens = (): CustomTokenInfo[] => [...tokensByAddress.values()];
+
+/**
+ * 주소 또는 심볼 해시(keccak256, indexed string 이벤트 인자)로 토큰을 찾습니다.
+ * 레지스트리에 없으면 팩토리에서 목록을 다시 읽고, 그래도 없으면 null을 반환합니다.
+ */
+export const resolveCustomToken = async (
+  query: { address?: string; symbolHash?: string },
+  provider: Provider,
+): Promise<CustomTokenInfo | null> => {
+  const find = () =>
+    (query.address ? tokensByAddress.get(query.address.toLowerCase()) : undefined) ??
+    (query.symbolHash ? tokensBySymbolHash.get(query.symbolHash.toLowerCase()) : undefined) ??
+    null;
+
+  const found = find();
+  if (found) {
+    return found;
+  }
+
+  await loadCustomTokensFromFactory(provider);
+  return find();
+};
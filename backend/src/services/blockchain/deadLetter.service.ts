@@ -0,0 +1,257 @@
+import { Job, Queue } from "bullmq";
+import { getBullMQConnection, redisConnection } from "../../config/redis.config";
+import { createEventQueue } from "./listeners/base.listener";
+import { createSinkQueue, findSinkDefinitionByQueueName } from "./sinks";
+import { releaseOrderedJob, resolveOrderedEvent } from "./ordering.service";
+
+export const DEAD_LETTER_QUEUE_NAME = "blockchain-dead-letter";
+
+const COUNTER_KEY = "blockchain:dead-letter:total";
+const COUNTER_BY_QUEUE_KEY = "blockchain:dead-letter:by-queue";
+const REPLAY_BATCH_SIZE = 100;
+
+/**
+ * 재시도를 모두 소진하여 데드레터 큐로 옮겨진 작업의 데이터입니다.
+ */
+export interface DeadLetterData {
+  /** 원래 작업이 있던 큐 이름 */
+  sourceQueue: string;
+  /** 원래 작업 ID (재전송 시 같은 ID를 사용하여 Idempotency-Key가 유지됨) */
+  originalJobId: string | null;
+  eventName: string;
+  payload: Record<string, unknown>;
+  failedReason: string;
+  attemptsMade: number;
+  failedAt: string;
+}
+
+export interface DeadLetterEntry extends DeadLetterData {
+  id: string;
+}
+
+export interface DeadLetterStats {
+  /** 지금까지 데드레터 큐로 옮겨진 작업 수 (누적, 알림 기준으로 사용) */
+  total: number;
+  /** 현재 데드레터 큐에 남아 있는 작업 수 */
+  pending: number;
+  /** 원래 큐별 누적 건수 */
+  byQueue: Record<string, number>;
+}
+
+let deadLetterQueue: Queue<DeadLetterData> | null = null;
+const sourceQueues = new Map<string, Queue<Record<string, unknown>>>();
+
+/**
+ * 데드레터 큐 인스턴스를 반환합니다.
+ * 이 큐에는 워커를 붙이지 않으며, 관리자 API로만 조회/재전송/삭제합니다.
+ */
+export const getDeadLetterQueue = (): Queue<DeadLetterData> => {
+  if (!deadLetterQueue) {
+    deadLetterQueue = new Queue<DeadLetterData>(DEAD_LETTER_QUEUE_NAME, {
+      connection: getBullMQConnection(),
+      defaultJobOptions: {
+        removeOnComplete: true,
+        removeOnFail: true,
+      },
+    });
+  }
+  return deadLetterQueue;
+};
+
+const getSourceQueue = (queueName: string): Queue<Record<string, unknown>> => {
+  let queue = sourceQueues.get(queueName);
+  if (!queue) {
+    // 싱크 큐로 재전송할 때는 해당 싱크의 재시도 정책을 그대로 적용합니다.
+    const sinkDefinition = findSinkDefinitionByQueueName(queueName);
+    queue = sinkDefinition ? createSinkQueue(sinkDefinition) : createEventQueue(queueName);
+    sourceQueues.set(queueName, queue);
+  }
+  return queue;
+};
+
+/**
+ * 작업이 마지막 재시도까지 실패했는지 확인합니다.
+ * UnrecoverableError로 실패한 작업은 BullMQ가 재시도하지 않으므로 바로 마지막 시도로 봅니다.
+ */
+export const isFinalAttempt = (job: Job<Record<string, unknown>>, error?: Error): boolean =>
+  error?.name === "UnrecoverableError" || job.attemptsMade >= (job.opts.attempts ?? 1);
+
+/**
+ * 재시도를 모두 소진한 작업을 데드레터 큐로 옮기고 누적 카운터를 증가시킵니다.
+ */
+export const moveToDeadLetter = async (
+  sourceQueue: string,
+  job: Job<Record<string, unknown>>,
+  error: Error,
+): Promise<void> => {
+  const data: DeadLetterData = {
+    sourceQueue,
+    originalJobId: job.id ?? null,
+    eventName: job.name,
+    payload: job.data,
+    failedReason: error?.message ?? job.failedReason ?? "unknown",
+    attemptsMade: job.attemptsMade,
+    failedAt: new Date().toISOString(),
+  };
+
+  // 싱크 큐들은 같은 작업 ID를 공유하므로 원래 큐 이름을 함께 넣어 구분합니다.
+  await getDeadLetterQueue().add(job.name, data, job.id ? { jobId: `dead-${sourceQueue}-${job.id}` } : undefined);
+  await redisConnection.multi().incr(COUNTER_KEY).hincrby(COUNTER_BY_QUEUE_KEY, sourceQueue, 1).exec();
+
+  console.error("[DeadLetter] 재시도 소진으로 데드레터 큐에 적재", {
+    sourceQueue,
+    jobId: job.id,
+    eventName: job.name,
+    attemptsMade: job.attemptsMade,
+    failedReason: data.failedReason,
+  });
+};
+
+const toEntry = (job: Job<DeadLetterData>): DeadLetterEntry => ({
+  id: job.id as string,
+  ...job.data,
+});
+
+/**
+ * 데드레터 큐의 작업을 오래된 것부터 조회합니다.
+ */
+export const listDeadLetters = async (
+  offset: number,
+  limit: number,
+): Promise<{ entries: DeadLetterEntry[]; total: number }> => {
+  const queue = getDeadLetterQueue();
+  const [jobs, counts] = await Promise.all([
+    queue.getJobs(["waiting"], offset, offset + limit - 1, true),
+    queue.getJobCounts("waiting"),
+  ]);
+
+  return {
+    entries: jobs.filter((job) => job?.id).map(toEntry),
+    total: counts.waiting ?? 0,
+  };
+};
+
+/**
+ * 데드레터 작업 하나를 원래 큐로 다시 적재하고 데드레터 큐에서 제거합니다.
+ *
+ * @returns 해당 ID의 작업이 없으면 false
+ */
+export const replayDeadLetter = async (id: string): Promise<boolean> => {
+  const job = await getDeadLetterQueue().getJob(id);
+  if (!job) {
+    return false;
+  }
+
+  const { sourceQueue, originalJobId, eventName, payload } = job.data;
+  const queue = getSourceQueue(sourceQueue);
+
+  if (originalJobId) {
+    // 같은 ID의 작업이 남아 있으면 add()가 무시되므로 먼저 정리합니다.
+    await queue.remove(originalJobId);
+  }
+  await queue.add(eventName, payload, originalJobId ? { jobId: originalJobId } : undefined);
+  await job.remove();
+
+  console.log("[DeadLetter] 데드레터 작업 재전송", { id, sourceQueue, eventName, originalJobId });
+  return true;
+};
+
+/**
+ * 데드레터 큐의 모든 작업을 원래 큐로 다시 적재합니다.
+ *
+ * @returns 재전송한 작업 수
+ */
+export const replayAllDeadLetters = async (): Promise<number> => {
+  let replayed = 0;
+
+  for (;;) {
+    const jobs = await getDeadLetterQueue().getJobs(["waiting"], 0, REPLAY_BATCH_SIZE - 1, true);
+    const ids = jobs.filter((job) => job?.id).map((job) => job.id as string);
+    if (ids.length === 0) {
+      return replayed;
+    }
+
+    for (const id of ids) {
+      if (await replayDeadLetter(id)) {
+        replayed += 1;
+      }
+    }
+  }
+};
+
+/**
+ * 데드레터 작업 하나를 재전송 없이 삭제합니다.
+ *
+ * @returns 해당 ID의 작업이 없으면 false
+ */
+export const discardDeadLetter = async (id: string): Promise<boolean> => {
+  const job = await getDeadLetterQueue().getJob(id);
+  if (!job) {
+    return false;
+  }
+
+  await job.remove();
+
+  // 삭제한 이벤트를 기다리던 같은 그룹의 뒤 이벤트가 진행되도록 순서 대기 목록에서도 제거합니다.
+  const { sourceQueue, originalJobId, eventName, payload } = job.data;
+  const ordered = originalJobId ? resolveOrderedEvent(eventName, payload) : null;
+  if (ordered && originalJobId) {
+    await releaseOrderedJob(sourceQueue, ordered, originalJobId);
+  }
+
+  console.warn("[DeadLetter] 데드레터 작업 삭제", { id, sourceQueue: job.data.sourceQueue, eventName: job.name });
+  return true;
+};
+
+/**
+ * 데드레터 큐의 모든 작업을 삭제합니다.
+ *
+ * @returns 삭제한 작업 수
+ */
+export const discardAllDeadLetters = async (): Promise<number> => {
+  let discarded = 0;
+
+  // 작업마다 순서 대기 목록도 정리해야 하므로 drain() 대신 하나씩 삭제합니다.
+  for (;;) {
+    const jobs = await getDeadLetterQueue().getJobs(["waiting"], 0, REPLAY_BATCH_SIZE - 1, true);
+    const ids = jobs.filter((job) => job?.id).map((job) => job.id as string);
+    if (ids.length === 0) {
+      console.warn("[DeadLetter] 데드레터 큐 전체 삭제", { count: discarded });
+      return discarded;
+    }
+
+    for (const id of ids) {
+      if (await discardDeadLetter(id)) {
+        discarded += 1;
+      }
+    }
+  }
+};
+
+/**
+ * 데드레터 통계를 반환합니다.
+ * total은 재전송/삭제해도 줄지 않는 누적 값이므로 증가율 기준으로 알림을 설정할 수 있습니다.
+ */
+export const getDeadLetterStats = async (): Promise<DeadLetterStats> => {
+  const [total, byQueue, counts] = await Promise.all([
+    redisConnection.get(COUNTER_KEY),
+    redisConnection.hgetall(COUNTER_BY_QUEUE_KEY),
+    getDeadLetterQueue().getJobCounts("waiting"),
+  ]);
+
+  return {
+    total: Number(total ?? 0),
+    pending: counts.waiting ?? 0,
+    byQueue: Object.fromEntries(Object.entries(byQueue).map(([queueName, count]) => [queueName, Number(count)])),
+  };
+};
+
+/**
+ * 데드레터 큐와 재전송용 큐 연결을 종료합니다. (프로세스 종료 시 사용)
+ */
+export const closeDeadLetterQueues = async (): Promise<void> => {
+  const queues = [...sourceQueues.values(), ...(deadLetterQueue ? [deadLetterQueue] : [])];
+  sourceQueues.clear();
+  deadLetterQueue = null;
+  await Promise.all(queues.map((queue) => queue.close()));
+};
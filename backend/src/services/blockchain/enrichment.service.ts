@@ -0,0 +1,235 @@
+import { Block, Contract, Provider, isError } from "ethers";
+import type { ContractListenerDefinition } from "../../config/listeners.config";
+import { decodeGameItemTokenId } from "../../utils/contract";
+import type { TrackedEvent } from "./confirmation.service";
+import { CustomTokenSummary, resolveCustomToken } from "./customTokenRegistry.service";
+
+const DEFAULT_CACHE_SIZE = 1000;
+const GAME_ITEM_TOKEN_URI_ABI = ["function tokenURI(uint256 tokenId) view returns (string)"];
+
+/**
+ * 블록에서 페이로드 보강에 필요한 정보입니다.
+ */
+interface BlockContext {
+  timestamp: number;
+  /** 트랜잭션 해시(소문자) → 보낸 주소 */
+  senders: Map<string, string>;
+}
+
+/**
+ * 확정된 이벤트 페이로드에 블록/트랜잭션/토큰 정보를 추가하는 보강기입니다.
+ */
+export interface EventEnricher {
+  /**
+   * 이벤트 페이로드에 chainId, blockHash, blockTimestamp, transactionFrom을 추가하고,
+   * GameItem 토큰 이벤트에는 itemId, instanceNumber, tokenURI를 추가한 새 페이로드를 반환합니다.
+   * 블록 조회에 실패하면 throw합니다. (호출한 쪽에서 재시도)
+   */
+  enrich: (
+    event: Pick<TrackedEvent, "payload" | "blockNumber" | "blockHash" | "transactionHash">,
+  ) => Promise<Record<string, unknown>>;
+}
+
+export interface EventEnricherOptions {
+  definition: ContractListenerDefinition;
+  chainId: string;
+  /** 조회에 사용할 provider (재연결 시 교체되므로 호출 시점의 provider를 반환) */
+  getProvider: () => Provider | null;
+}
+
+/**
+ * BLOCKCHAIN_ENRICHMENT_CACHE_SIZE 설정값을 반환합니다. (기본 1000개 블록)
+ */
+const resolveCacheSize = (): number => {
+  const value = Number(process.env.BLOCKCHAIN_ENRICHMENT_CACHE_SIZE);
+  return Number.isInteger(value) && value > 0 ? value : DEFAULT_CACHE_SIZE;
+};
+
+/**
+ * 최근에 사용한 항목만 보관하는 조회 캐시를 만듭니다.
+ * 조회 중인 Promise를 저장하므로 같은 키를 동시에 조회해도 RPC는 한 번만 호출되고, 실패한 조회는 캐시하지 않습니다.
+ */
+const createLookupCache = <T>(maxSize: number) => {
+  const entries = new Map<string, Promise<T>>();
+
+  return (key: string, load: () => Promise<T>): Promise<T> => {
+    const cached = entries.get(key);
+    if (cached) {
+      // 최근 사용 순서를 갱신합니다.
+      entries.delete(key);
+      entries.set(key, cached);
+      return cached;
+    }
+
+    const loading = load();
+    entries.set(key, loading);
+    loading.catch(() => entries.delete(key));
+
+    if (entries.size > maxSize) {
+      entries.delete(entries.keys().next().value as string);
+    }
+    return loading;
+  };
+};
+
+/**
+ * GameItem 컨트랙트 주소를 반환합니다. (CONTRACT_ADDRESS, 설정되지 않았으면 null)
+ */
+const resolveGameItemAddress = (): string | null => process.env.CONTRACT_ADDRESS?.toLowerCase() ?? null;
+
+/**
+ * 리스너 하나의 이벤트 보강기를 생성합니다.
+ *
+ * 보강 항목:
+ * - chainId, blockHash
+ * - blockTimestamp: 블록 타임스탬프 (초)
+ * - transactionFrom: 트랜잭션을 보낸 주소
+ * - itemId, instanceNumber, tokenURI: 리스너 정의에 gameItemTokenField가 있고 해당 토큰이 GameItem일 때
+ *   (이벤트 블록 시점의 tokenURI, 소각 이벤트는 직전 블록 시점의 tokenURI, 조회할 수 없으면 null)
+ * - token: 리스너 정의에 customTokenInfo가 있을 때 CustomToken 주소/이름/심볼/소수점 (찾을 수 없으면 null)
+ *
+ * 블록은 트랜잭션을 포함하여 블록 해시로 한 번만 조회하고 캐시하므로,
+ * 백필처럼 한 블록에 이벤트가 여러 개 있어도 블록당 RPC 호출은 한 번입니다.
+ * 블록 해시로 조회하므로 재조직으로 바뀐 블록의 정보가 섞이지 않습니다.
+ */
+export const createEventEnricher = (options: EventEnricherOptions): EventEnricher => {
+  const { definition, chainId, getProvider } = options;
+  const cacheSize = resolveCacheSize();
+  const blockCache = createLookupCache<BlockContext>(cacheSize);
+  const tokenURICache = createLookupCache<string | null>(cacheSize);
+  const gameItemAddress = resolveGameItemAddress();
+
+  const requireProvider = (): Provider => {
+    const provider = getProvider();
+    if (!provider) {
+      throw new Error("provider가 연결되어 있지 않습니다.");
+    }
+    return provider;
+  };
+
+  const loadBlockContext = async (blockHash: string): Promise<BlockContext> => {
+    const block: Block | null = await requireProvider().getBlock(blockHash, true);
+    if (!block) {
+      throw new Error(`블록을 찾을 수 없습니다: ${blockHash}`);
+    }
+    return {
+      timestamp: block.timestamp,
+      senders: new Map(block.prefetchedTransactions.map((tx) => [tx.hash.toLowerCase(), tx.from])),
+    };
+  };
+
+  const loadTransactionFrom = async (context: BlockContext, transactionHash: string): Promise<string> => {
+    const sender = context.senders.get(transactionHash.toLowerCase());
+    if (sender) {
+      return sender;
+    }
+    const tx = await requireProvider().getTransaction(transactionHash);
+    if (!tx) {
+      throw new Error(`트랜잭션을 찾을 수 없습니다: ${transactionHash}`);
+    }
+    return tx.from;
+  };
+
+  /**
+   * 이벤트 블록 시점의 tokenURI를 조회합니다.
+   * GameItem은 소각 시 인스턴스 번호를 되돌리므로 같은 tokenId가 다시 민팅될 수 있어, 최신 블록이 아닌 이벤트 블록 기준으로 조회합니다.
+   * 이벤트 블록에서 revert되면(그 블록에서 소각된 토큰) 직전 블록 시점으로 다시 조회합니다.
+   *
+   * 과거 시점 조회는 아카이브 노드가 아니면 실패할 수 있습니다. 이때 최신 블록 조회도 실패하면 RPC 장애로 보고 throw하여 다시 시도하고,
+   * 최신 블록 조회는 되면 다른 토큰의 tokenURI일 수 있으므로 사용하지 않고 null을 반환합니다.
+   */
+  const loadTokenURI = async (tokenId: string, blockNumber: number): Promise<string | null> => {
+    const contract = new Contract(gameItemAddress as string, GAME_ITEM_TOKEN_URI_ABI, requireProvider());
+
+    for (const blockTag of [blockNumber, blockNumber - 1]) {
+      try {
+        return (await contract.tokenURI(BigInt(tokenId), { blockTag })) as string;
+      } catch (error) {
+        if (isError(error, "CALL_EXCEPTION")) {
+          // 소각된 토큰이면 직전 블록 시점으로 넘어갑니다.
+          continue;
+        }
+
+        try {
+          await contract.tokenURI(BigInt(tokenId));
+        } catch (latestError) {
+          if (!isError(latestError, "CALL_EXCEPTION")) {
+            throw latestError;
+          }
+        }
+        console.warn("[EventEnricher] 이벤트 블록 시점의 tokenURI를 조회할 수 없습니다 (아카이브 노드 필요)", {
+          tokenId,
+          blockTag,
+          error,
+        });
+        return null;
+      }
+    }
+    return null;
+  };
+
+  /**
+   * GameItem 토큰 이벤트이면 토큰 정보를 반환합니다.
+   * 페이로드에 nftContract가 있으면 GameItem 주소와 같을 때만 GameItem 토큰으로 봅니다.
+   */
+  const resolveTokenContext = async (
+    payload: Record<string, unknown>,
+    blockNumber: number,
+    blockHash: string,
+  ): Promise<Record<string, unknown>> => {
+    const field = definition.gameItemTokenField;
+    const tokenId = field ? payload[field] : undefined;
+    if (typeof tokenId !== "string" || !gameItemAddress) {
+      return {};
+    }
+    if (typeof payload.nftContract === "string" && payload.nftContract.toLowerCase() !== gameItemAddress) {
+      return {};
+    }
+
+    return {
+      ...decodeGameItemTokenId(tokenId),
+      // 같은 tokenId라도 다시 민팅된 다른 토큰일 수 있으므로 블록별로 캐시합니다.
+      tokenURI: await tokenURICache(`${tokenId}@${blockHash}`, () => loadTokenURI(tokenId, blockNumber)),
+    };
+  };
+
+  /**
+   * CustomToken 정보를 반환합니다.
+   * TokenCreated는 contractAddress, TokenDeactivated/TokenReactivated는 symbol 해시(indexed string),
+   * CustomToken Transfer는 로그를 발생시킨 토큰 주소(contractAddress)로 토큰을 찾습니다.
+   */
+  const resolveCustomTokenContext = async (payload: Record<string, unknown>): Promise<Record<string, unknown>> => {
+    if (!definition.customTokenInfo) {
+      return {};
+    }
+
+    const symbol = payload.symbol as { hash?: unknown } | undefined;
+    const info = await resolveCustomToken(
+      {
+        address: typeof payload.contractAddress === "string" ? payload.contractAddress : undefined,
+        symbolHash: typeof symbol?.hash === "string" ? symbol.hash : undefined,
+      },
+      requireProvider(),
+    );
+    const token: CustomTokenSummary | null = info
+      ? { address: info.address, name: info.name, symbol: info.symbol, decimals: info.decimals }
+      : null;
+    return { token };
+  };
+
+  const enrich: EventEnricher["enrich"] = async ({ payload, blockNumber, blockHash, transactionHash }) => {
+    const context = await blockCache(blockHash, () => loadBlockContext(blockHash));
+
+    return {
+      ...payload,
+      chainId,
+      blockHash,
+      blockTimestamp: context.timestamp,
+      transactionFrom: await loadTransactionFrom(context, transactionHash),
+      ...(await resolveTokenContext(payload, blockNumber, blockHash)),
+      ...(await resolveCustomTokenContext(payload)),
+    };
+  };
+
+  return { enrich };
+};
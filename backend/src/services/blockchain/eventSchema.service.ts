@@ -0,0 +1,46 @@
+import { EVENT_SCHEMAS, EventSchemaEntry } from "../../schemas/events";
+import { JsonSchema, validateJsonSchema } from "../../utils/jsonSchema";
+
+/**
+ * 이벤트의 현재 페이로드 schemaVersion을 반환합니다. 스키마가 없는 이벤트는 undefined를 반환합니다.
+ *
+ * 스키마는 npm run generate:event-schemas 로 ABI에서 생성합니다. (scripts/generateEventSchemas.ts)
+ */
+export const getEventSchemaVersion = (eventName: string): number | undefined => EVENT_SCHEMAS[eventName]?.version;
+
+/**
+ * 이벤트의 JSON Schema를 반환합니다. (메인 서버 공개용)
+ */
+export const getEventSchema = (eventName: string): JsonSchema | undefined => EVENT_SCHEMAS[eventName]?.schema;
+
+/**
+ * 아직 허용하는 바로 이전 버전의 스키마를 반환합니다. (이전 버전이 없으면 undefined)
+ */
+export const getPreviousEventSchema = (eventName: string): EventSchemaEntry["previous"] =>
+  EVENT_SCHEMAS[eventName]?.previous;
+
+/**
+ * 모든 이벤트의 schemaVersion과 JSON Schema를 반환합니다. (아직 허용하는 이전 버전 스키마 포함)
+ */
+export const listEventSchemas = (): Record<string, EventSchemaEntry> => EVENT_SCHEMAS;
+
+/**
+ * 전달 전에 페이로드를 이벤트 스키마로 검증합니다.
+ *
+ * 페이로드의 schemaVersion이 바로 이전 버전이면 이전 버전 스키마로 검증합니다.
+ * 배포 직전에 큐에 남은 작업이나 데드레터에서 재전송한 작업은 이전 코드로 만들어졌으므로,
+ * 다음 스키마 변경 전까지는 이전 버전 그대로 전달합니다. (메인 서버는 schemaVersion으로 구분)
+ * 스키마가 없는 이벤트이거나 두 버전 이상 지난 페이로드는 오류로 처리합니다.
+ *
+ * @returns 오류 메시지 배열 (비어 있으면 통과)
+ */
+export const validateEventPayload = (eventName: string, payload: Record<string, unknown>): string[] => {
+  const entry = EVENT_SCHEMAS[eventName];
+  if (!entry) {
+    return [`${eventName} 이벤트의 스키마가 없습니다. (npm run generate:event-schemas 필요)`];
+  }
+  if (entry.previous && payload.schemaVersion === entry.previous.version) {
+    return validateJsonSchema(entry.previous.schema, payload);
+  }
+  return validateJsonSchema(entry.schema, payload);
+};
@@ -1,10 +1,15 @@
 import { ensureRedisConnected } from "../../config/redis.config";
-// import { initializeMarketplaceVaultListener } from "./listeners/marketplaceVault.listener";
-import { initializeNftVaultListener } from "./listeners/nftVault.listener";
+import { getEnabledListenerDefinitions } from "../../config/listeners.config";
+import { ContractListener, initializeContractListener } from "./listeners/contract.listener";
+import { initializeTransferIndexer } from "./transferIndex.service";
+import { initializeMarketplaceIndexer } from "./marketplaceIndex.service";
+import { initializeCustomTokenListeners } from "./customToken.service";
+import { startStatusReporter } from "./status.service";
 
 type CleanupFn = () => Promise<void> | void;
 
 interface InitializedResources {
+  listeners: ContractListener[];
   cleanup: CleanupFn;
 }
 
@@ -13,14 +18,20 @@ let resources: InitializedResources | null = null;
 /**
  * 이벤트 리스너를 초기화합니다.
  * 
- * 이 함수는 다음 리스너들을 초기화합니다:
- * - MarketplaceVault 리스너: NFTListed, NFTSold, NFTReclaimed 이벤트 구독 (임시 비활성화)
+ * config/listeners.config.ts의 레지스트리에서 활성화된 항목마다 리스너를 하나씩 초기화합니다.
  * - NftVault 리스너: NftLocked, NftUnlocked 이벤트 구독
+ * - MarketplaceVault 리스너: NFTListed, NFTSold, NFTReclaimed 이벤트 구독 (기본 비활성화)
+ * - GameItem Transfer 인덱서: 큐 대신 로컬 인덱스에 기록 (transferIndex.service.ts)
+ * - MarketplaceVault 리스팅 인덱서: 활성 리스팅 카탈로그를 로컬 인덱스에 기록 (marketplaceIndex.service.ts)
+ * - MultiTokenFactory 리스너: 토큰 생성/비활성화/재활성화 이벤트, 모든 CustomToken의 ERC20 Transfer를 구독하는 리스너 하나 (customToken.service.ts)
  * 
  * 각 리스너는 독립적으로 작동하며, 이벤트 발생 시:
- * 1. 각 리스너의 contract.on() 콜백이 실행됨
- * 2. BullMQ 큐에 이벤트 추가
+ * 1. contract.listener.ts의 provider.on() 콜백이 실행됨
+ * 2. 확정 깊이에 도달하면 항목에 지정된 BullMQ 큐에 이벤트 추가
  * 3. blockchain/worker.service.ts의 워커가 큐에서 이벤트를 가져와 메인 서버로 전송
+ *
+ * 리스너 상태(헤드, 처리 블록, 지연, 백필 진행률)는 주기적으로 Redis에 기록되어
+ * GET /api/admin/blockchain/status 에서 조회할 수 있습니다. (status.service.ts)
  */
 export const initializeEventListeners = async (): Promise<InitializedResources> => {
   if (resources) {
@@ -29,29 +40,48 @@ export const initializeEventListeners = async (): Promise<InitializedResources>
 
   await ensureRedisConnected();
 
-  // MarketplaceVault 리스너 초기화 (임시 비활성화)
-  // NFTListed, NFTSold, NFTReclaimed 이벤트 발생 시 marketplaceVault.listener.ts의 contract.on() 콜백 실행
-  // const marketplaceResources = await initializeMarketplaceVaultListener();
-  
-  // NftVault 리스너 초기화
-  // NftLocked, NftUnlocked 이벤트 발생 시 nftVault.listener.ts의 contract.on() 콜백 실행
-  const nftVaultResources = await initializeNftVaultListener();
+  const listeners: ContractListener[] = [];
+
+  try {
+    for (const definition of getEnabledListenerDefinitions()) {
+      listeners.push(await initializeContractListener(definition));
+    }
+
+    const transferIndexer = await initializeTransferIndexer();
+    if (transferIndexer) {
+      listeners.push(transferIndexer);
+    }
+
+    const marketplaceIndexer = await initializeMarketplaceIndexer();
+    if (marketplaceIndexer) {
+      listeners.push(marketplaceIndexer);
+    }
+
+    listeners.push(...(await initializeCustomTokenListeners()));
+  } catch (error) {
+    // 일부만 초기화된 경우 이미 연결된 리스너를 정리한 뒤 오류를 전달합니다.
+    await Promise.all(listeners.map((listener) => listener.cleanup()));
+    throw error;
+  }
+
+  const stopStatusReporter = startStatusReporter("listeners", async () =>
+    Promise.all(listeners.map(async (listener) => ({ name: listener.definition.name, status: await listener.status() }))),
+  );
 
   const cleanup: CleanupFn = async () => {
-    // await marketplaceResources.cleanup();
-    await nftVaultResources.cleanup();
+    await stopStatusReporter();
+    await Promise.all(listeners.map((listener) => listener.cleanup()));
     resources = null;
   };
 
-  resources = { cleanup };
+  resources = { listeners, cleanup };
 
-  console.log("[BlockchainListener] 모든 이벤트 리스너 초기화 완료");
+  console.log("[BlockchainListener] 모든 이벤트 리스너 초기화 완료", {
+    listeners: listeners.map((listener) => listener.definition.name),
+  });
 
   return resources;
 };
 
 // worker.service.ts에서 사용하는 export
-// export { MARKETPLACE_QUEUE_NAME } from "./listeners/marketplaceVault.listener"; // 임시 비활성화
-export { NFT_VAULT_QUEUE_NAME } from "./listeners/nftVault.listener";
 export { toKebabCase } from "./listeners/base.listener";
-
@@ -0,0 +1,87 @@
+import { getProvider } from "../../utils/contract";
+import { resolveConfirmations } from "./confirmation.service";
+
+const CHAIN_HEAD_TIMEOUT_MS = 2_000;
+// 요청마다 RPC를 호출하지 않도록 헤드 조회 결과를 잠시 재사용합니다.
+const CHAIN_HEAD_CACHE_MS = 2_000;
+
+/**
+ * 인덱서가 Redis에 기록하는 진행 상태 중 준비 여부 판단에 필요한 필드입니다.
+ */
+export interface IndexProgress {
+  chainId: string;
+  /** 이 블록까지의 이벤트가 모두 인덱스에 반영됨 */
+  indexedThrough: number;
+}
+
+/**
+ * 조회 시점에 계산한 인덱스 준비 상태입니다.
+ */
+export interface IndexReadiness {
+  /** 조회 시점의 체인 헤드 블록 (RPC 조회에 실패하면 null) */
+  headBlock: number | null;
+  /** 헤드보다 뒤처진 블록 수 (헤드를 모르면 null) */
+  lagBlocks: number | null;
+  /** ready로 보는 최대 지연 블록 수 (확정 깊이 + 허용 지연 블록 수) */
+  readyLagBlocks: number;
+  /** readyLagBlocks 안으로 헤드를 따라잡았는지 여부 */
+  ready: boolean;
+}
+
+let cachedHead: { chainId: string; headBlock: number; fetchedAt: number } | null = null;
+
+const getChainHead = async (): Promise<{ chainId: string; headBlock: number }> => {
+  if (cachedHead && Date.now() - cachedHead.fetchedAt < CHAIN_HEAD_CACHE_MS) {
+    return cachedHead;
+  }
+
+  const provider = getProvider();
+  const [network, headBlock] = await Promise.race([
+    Promise.all([provider.getNetwork(), provider.getBlockNumber()]),
+    new Promise<never>((_, reject) =>
+      setTimeout(() => reject(new Error("RPC 응답 시간 초과")), CHAIN_HEAD_TIMEOUT_MS),
+    ),
+  ]);
+  cachedHead = { chainId: network.chainId.toString(), headBlock, fetchedAt: Date.now() };
+  return cachedHead;
+};
+
+/**
+ * 인덱서가 기록한 진행 상태를 현재 체인 헤드와 비교하여 준비 상태를 계산합니다.
+ *
+ * 헤드는 인덱서가 기록한 값이 아니라 조회 시점에 RPC로 읽습니다.
+ * 인덱서 프로세스가 멈추거나 provider 연결을 잃으면 indexedThrough는 그대로이고 헤드만 앞서 나가므로,
+ * 지연이 늘어나 오래된 인덱스를 준비된 것으로 보지 않습니다. 헤드를 조회할 수 없을 때도 준비되지 않은 것으로 봅니다.
+ *
+ * @param maxLagBlocks - 확정 깊이 외에 허용하는 지연 블록 수
+ * @returns RPC가 연결된 체인과 상태의 chainId가 다르면(네트워크 변경) null
+ */
+export const resolveIndexReadiness = async (
+  progress: IndexProgress,
+  maxLagBlocks: number,
+): Promise<IndexReadiness | null> => {
+  const readyLagBlocks = resolveConfirmations() + maxLagBlocks;
+  let head: { chainId: string; headBlock: number };
+  try {
+    head = await getChainHead();
+  } catch (error) {
+    console.warn("[IndexReadiness] 체인 헤드 조회 실패:", error);
+    return { headBlock: null, lagBlocks: null, readyLagBlocks, ready: false };
+  }
+
+  if (head.chainId !== progress.chainId) {
+    console.warn("[IndexReadiness] 인덱스의 체인 ID가 현재 네트워크와 다릅니다", {
+      indexChainId: progress.chainId,
+      chainId: head.chainId,
+    });
+    return null;
+  }
+
+  const lagBlocks = Math.max(head.headBlock - progress.indexedThrough, 0);
+  return {
+    headBlock: head.headBlock,
+    lagBlocks,
+    readyLagBlocks,
+    ready: lagBlocks <= readyLagBlocks,
+  };
+};
@@ -0,0 +1,240 @@
+import { Contract, isError } from "ethers";
+import { ensureRedisConnected, redisConnection } from "../../config/redis.config";
+import { TRANSFER_INDEX_DEFINITION, resolveListenerStartBlock } from "../../config/listeners.config";
+import { decodeGameItemTokenId, getProvider } from "../../utils/contract";
+import { backfillInChunks } from "./backfill.service";
+import {
+  findIndexedOwnedTokenIds,
+  getTransferIndexState,
+  getWalletIndexVersion,
+  isTransferIndexEnabled,
+} from "./transferIndex.service";
+
+const CACHE_KEY_PREFIX = "blockchain:inventory";
+const DEFAULT_CACHE_TTL_SECONDS = 60;
+const DEFAULT_RPC_SCAN_BLOCKS = 50_000;
+const DEFAULT_INDEX_CATCH_UP_BLOCKS = 100;
+const REDIS_TIMEOUT_MS = 1_000;
+const VERIFY_BATCH_SIZE = 20;
+
+/**
+ * 지갑 인벤토리의 NFT 한 건입니다.
+ */
+export interface InventoryItem {
+  tokenId: string;
+  itemId: number;
+  instanceNumber: number;
+  owner: string;
+  tokenURI: string;
+}
+
+export interface WalletInventory {
+  walletAddress: string;
+  items: InventoryItem[];
+  /** 후보 토큰을 찾은 방법 (Transfer 인덱스 또는 RPC 직접 조회) */
+  source: "index" | "rpc";
+  /** 인덱스 기준일 때 반영된 마지막 블록 */
+  indexedThrough: number | null;
+  /** RPC 기준일 때 조회를 시작한 블록 (이 블록 이전에 받은 토큰은 포함되지 않음) */
+  scannedFromBlock: number | null;
+  /** RPC 조회 구간이 GameItem 시작 블록보다 뒤에서 시작하여, 그 이전에 받은 토큰이 빠졌을 수 있는지 여부 */
+  partial: boolean;
+  cached: boolean;
+  computedAt: string;
+}
+
+interface CachedInventory {
+  /** 인덱스 기준이면 지갑 인덱스 버전, RPC 기준이면 "rpc" */
+  version: string;
+  inventory: WalletInventory;
+}
+
+const cacheKey = (walletAddress: string) => `${CACHE_KEY_PREFIX}:${walletAddress.toLowerCase()}`;
+
+/**
+ * BLOCKCHAIN_INVENTORY_CACHE_TTL_SECONDS 설정값을 반환합니다. (기본 60초, 0이면 캐시 사용 안 함)
+ */
+const resolveCacheTtlSeconds = (): number => {
+  const value = Number(process.env.BLOCKCHAIN_INVENTORY_CACHE_TTL_SECONDS);
+  return process.env.BLOCKCHAIN_INVENTORY_CACHE_TTL_SECONDS !== undefined && Number.isInteger(value) && value >= 0
+    ? value
+    : DEFAULT_CACHE_TTL_SECONDS;
+};
+
+/**
+ * BLOCKCHAIN_INVENTORY_RPC_SCAN_BLOCKS 설정값을 반환합니다. (기본 50,000블록, 0이면 GameItem 시작 블록부터 전체 조회)
+ */
+const resolveRpcScanBlocks = (): number => {
+  const value = Number(process.env.BLOCKCHAIN_INVENTORY_RPC_SCAN_BLOCKS);
+  return process.env.BLOCKCHAIN_INVENTORY_RPC_SCAN_BLOCKS !== undefined && Number.isInteger(value) && value >= 0
+    ? value
+    : DEFAULT_RPC_SCAN_BLOCKS;
+};
+
+/**
+ * BLOCKCHAIN_INVENTORY_INDEX_CATCH_UP_BLOCKS 설정값을 반환합니다. (기본 100블록)
+ * Transfer 인덱스가 준비 기준보다 이 블록 수 이내로만 뒤처져 있으면 곧 따라잡을 것으로 보고 RPC 조회 대신 503을 반환합니다.
+ */
+const resolveIndexCatchUpBlocks = (): number => {
+  const value = Number(process.env.BLOCKCHAIN_INVENTORY_INDEX_CATCH_UP_BLOCKS);
+  return Number.isInteger(value) && value >= 0 ? value : DEFAULT_INDEX_CATCH_UP_BLOCKS;
+};
+
+/**
+ * Redis 명령을 시간 제한과 함께 실행합니다. 캐시는 부가 기능이므로 실패하면 null을 반환합니다.
+ */
+const tryRedis = async <T>(task: () => Promise<T>): Promise<T | null> => {
+  try {
+    return await Promise.race([
+      ensureRedisConnected().then(task),
+      new Promise<never>((_, reject) =>
+        setTimeout(() => reject(new Error("Redis 응답 시간 초과")), REDIS_TIMEOUT_MS),
+      ),
+    ]);
+  } catch (error) {
+    console.warn("[Inventory] Redis 캐시 사용 실패:", error);
+    return null;
+  }
+};
+
+/**
+ * RPC로 지갑이 받은 토큰 ID를 조회합니다. (Transfer 인덱스를 사용할 수 없는 경우)
+ * 요청마다 전체 구간을 조회하지 않도록 최신 BLOCKCHAIN_INVENTORY_RPC_SCAN_BLOCKS 블록
+ * (GameItem 시작 블록 이후)만 청크 단위로 Transfer(null, 지갑) 로그를 조회합니다.
+ * 조회 구간이 GameItem 시작 블록보다 뒤에서 시작하면 partial로 표시합니다.
+ */
+const scanReceivedTokenIds = async (
+  contract: Contract,
+  walletAddress: string,
+): Promise<{ tokenIds: string[]; fromBlock: number; partial: boolean }> => {
+  const tokenIds = new Set<string>();
+  const latestBlock = await getProvider().getBlockNumber();
+  const startBlock = resolveListenerStartBlock(TRANSFER_INDEX_DEFINITION) ?? 0;
+  const scanBlocks = resolveRpcScanBlocks();
+  const fromBlock = scanBlocks > 0 ? Math.max(startBlock, latestBlock - scanBlocks + 1, 0) : startBlock;
+
+  await backfillInChunks({
+    label: "Inventory",
+    fromBlock,
+    toBlock: latestBlock,
+    fetchChunk: async (fromBlock, toBlock) => {
+      const logs = await contract.queryFilter(contract.filters.Transfer(null, walletAddress), fromBlock, toBlock);
+      logs.forEach((log) => {
+        const parsedLog = contract.interface.parseLog(log);
+        if (parsedLog) {
+          tokenIds.add(parsedLog.args.tokenId.toString());
+        }
+      });
+      return logs.length;
+    },
+  });
+
+  return { tokenIds: [...tokenIds], fromBlock, partial: fromBlock > startBlock };
+};
+
+/**
+ * 후보 토큰의 현재 소유자를 ownerOf로 확인하고, 지갑이 소유한 토큰만 상세 정보와 함께 반환합니다.
+ * 소각된 토큰(ownerOf revert)과 다른 지갑으로 옮겨진 토큰은 제외합니다.
+ * 그 밖의 조회 실패(RPC 시간 초과, 요청 제한 등)는 토큰이 빠진 결과를 반환하지 않도록 그대로 throw합니다.
+ */
+const verifyOwnedTokens = async (
+  contract: Contract,
+  walletAddress: string,
+  tokenIds: string[],
+): Promise<InventoryItem[]> => {
+  const wallet = walletAddress.toLowerCase();
+  const items: InventoryItem[] = [];
+
+  for (let start = 0; start < tokenIds.length; start += VERIFY_BATCH_SIZE) {
+    const batch = tokenIds.slice(start, start + VERIFY_BATCH_SIZE);
+    const results = await Promise.all(
+      batch.map(async (tokenId): Promise<InventoryItem | null> => {
+        let owner: string;
+        try {
+          owner = await contract.ownerOf(BigInt(tokenId));
+        } catch (error) {
+          // 소각된 토큰은 ownerOf가 revert됨
+          if (isError(error, "CALL_EXCEPTION")) {
+            return null;
+          }
+          throw error;
+        }
+
+        if (owner.toLowerCase() !== wallet) {
+          console.warn("[Inventory] 인덱스와 ownerOf 결과가 다릅니다", { tokenId, walletAddress, owner });
+          return null;
+        }
+
+        const tokenURI: string = await contract.tokenURI(BigInt(tokenId));
+        return { tokenId, ...decodeGameItemTokenId(tokenId), owner, tokenURI };
+      }),
+    );
+    results.forEach((item) => {
+      if (item) items.push(item);
+    });
+  }
+
+  return items.sort((a, b) => (BigInt(a.tokenId) < BigInt(b.tokenId) ? -1 : 1));
+};
+
+/**
+ * 지갑의 GameItem 인벤토리를 조회합니다.
+ *
+ * GameItem은 ERC721Enumerable이 아니므로 tokenOfOwnerByIndex를 쓸 수 없어,
+ * Transfer 이벤트로 소유 후보를 찾은 뒤 ownerOf로 실제 소유 여부를 확인합니다.
+ *
+ * 1. Transfer 인덱스가 헤드를 따라잡았으면 인덱스 기준 소유 토큰을 후보로 사용
+ *    (캐시는 지갑 인덱스 버전이 같을 때만 재사용하므로 Transfer가 반영되면 바로 갱신됨)
+ * 2. 인덱스가 준비 기준보다 BLOCKCHAIN_INVENTORY_INDEX_CATCH_UP_BLOCKS 이내로만 뒤처져 있으면 곧 따라잡으므로 503 오류
+ * 3. 그 밖에 인덱스를 사용할 수 없으면(인덱서를 껐거나, 실행된 적 없거나, 최초 백필 중이거나, 멈췄거나, Redis 연결 실패)
+ *    RPC로 받은 토큰을 조회하여 후보로 사용 (캐시는 TTL 동안 재사용)
+ * 4. 후보 토큰을 ownerOf로 확인하고 itemId, 인스턴스 번호, tokenURI를 함께 반환
+ */
+export const getWalletInventory = async (contract: Contract, walletAddress: string): Promise<WalletInventory> => {
+  const ttlSeconds = resolveCacheTtlSeconds();
+  const state = isTransferIndexEnabled() ? await getTransferIndexState() : null;
+  const indexState = state?.ready ? state : null;
+  // 준비 기준을 조금만 넘긴 경우에는 곧 따라잡으므로 RPC로 조회하지 않고 잠시 후 다시 요청하도록 합니다.
+  if (
+    state && !state.ready && state.lagBlocks !== null &&
+    state.lagBlocks - state.readyLagBlocks <= resolveIndexCatchUpBlocks()
+  ) {
+    throw Object.assign(new Error("Transfer index is catching up, retry shortly"), {
+      status: 503,
+      indexedThrough: state.indexedThrough,
+      lagBlocks: state.lagBlocks,
+    });
+  }
+  const version = indexState ? await getWalletIndexVersion(walletAddress) : "rpc";
+
+  if (ttlSeconds > 0) {
+    const raw = await tryRedis(() => redisConnection.get(cacheKey(walletAddress)));
+    if (raw) {
+      const cached = JSON.parse(raw) as CachedInventory;
+      if (cached.version === version) {
+        return { ...cached.inventory, cached: true };
+      }
+    }
+  }
+
+  const scan = indexState ? null : await scanReceivedTokenIds(contract, walletAddress);
+  const candidates = scan ? scan.tokenIds : await findIndexedOwnedTokenIds(walletAddress);
+
+  const inventory: WalletInventory = {
+    walletAddress,
+    items: await verifyOwnedTokens(contract, walletAddress, candidates),
+    source: indexState ? "index" : "rpc",
+    indexedThrough: indexState?.indexedThrough ?? null,
+    scannedFromBlock: scan?.fromBlock ?? null,
+    partial: scan?.partial ?? false,
+    cached: false,
+    computedAt: new Date().toISOString(),
+  };
+
+  if (ttlSeconds > 0) {
+    const entry: CachedInventory = { version, inventory };
+    await tryRedis(() => redisConnection.set(cacheKey(walletAddress), JSON.stringify(entry), "EX", ttlSeconds));
+  }
+
+  return inventory;
+};
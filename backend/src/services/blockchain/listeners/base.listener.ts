@@ -1,4 +1,4 @@
-import { promises as fs } from "fs";
+import { readFileSync } from "fs";
 import path from "path";
 import {
   Contract,
@@ -9,9 +9,18 @@ import {
 } from "ethers";
 import { Queue } from "bullmq";
 import { getBullMQConnection } from "../../../config/redis.config";
+import type { ContractListenerDefinition, EventJobRule } from "../../../config/listeners.config";
+import type { SinkRetryPolicy } from "../../../config/sinks.config";
+import type { TrackedEvent } from "../confirmation.service";
+import { getEventSchemaVersion } from "../eventSchema.service";
 
-const DATA_DIR = path.resolve(__dirname, "../../../../data");
-const LAST_PROCESSED_BLOCK_PATH = path.join(DATA_DIR, "lastProcessedBlock.json");
+const DEFAULT_ARTIFACTS_DIR = path.resolve(__dirname, "../../../../../blockchain/artifacts/blockchain/contracts");
+
+/**
+ * 재조직으로 취소된 이벤트를 알리는 보상 작업 이름입니다.
+ * 워커는 /api/events/event-reverted 로 전달합니다.
+ */
+export const EVENT_REVERTED_JOB_NAME = "EventReverted";
 
 /**
  * 이벤트 인자의 데이터 타입을 직렬화 가능한 값으로 변환합니다.
@@ -43,55 +52,24 @@ export const normalizeValue = (value: unknown): unknown => {
   return value;
 };
 
-/**
- * 블록 번호를 보관할 데이터 디렉터리를 준비합니다.
- */
-const ensureDataDirectory = async (): Promise<void> => {
-  await fs.mkdir(DATA_DIR, { recursive: true });
-};
-
-/**
- * 마지막으로 처리한 블록 번호를 로컬 파일에서 읽어옵니다.
- */
-export const readLastProcessedBlock = async (): Promise<number> => {
-  try {
-    const buffer = await fs.readFile(LAST_PROCESSED_BLOCK_PATH, "utf8");
-    const parsed = JSON.parse(buffer) as { lastBlock?: number | string };
-    const block = Number(parsed?.lastBlock ?? 0);
-    if (Number.isFinite(block) && block >= 0) {
-      return Math.floor(block);
-    }
-    return 0;
-  } catch (error) {
-    const err = error as NodeJS.ErrnoException;
-    if (err.code === "ENOENT") {
-      return 0;
-    }
-    console.error("[BaseListener] 마지막 처리 블록 읽기 실패:", error);
-    return 0;
-  }
-};
-
-/**
- * 최신으로 처리한 블록 번호를 파일에 저장합니다.
- */
-export const writeLastProcessedBlock = async (blockNumber: number): Promise<void> => {
-  if (!Number.isFinite(blockNumber) || blockNumber < 0) {
-    return;
-  }
-
-  await ensureDataDirectory();
-  const payload = JSON.stringify({ lastBlock: Math.floor(blockNumber) }, null, 2);
-  await fs.writeFile(LAST_PROCESSED_BLOCK_PATH, payload, "utf8");
+const schemaVersionOf = (eventName: string): { schemaVersion?: number } => {
+  const schemaVersion = getEventSchemaVersion(eventName);
+  return schemaVersion === undefined ? {} : { schemaVersion };
 };
 
 /**
  * BullMQ 큐에 전달할 페이로드를 구성합니다.
+ * 스키마가 생성된 이벤트에는 schemaVersion을 붙이고, 작업 규칙에 fields가 있으면 인자 값을 복사한 필드를 추가합니다.
+ * 리스너 정의에 logAddressField가 있으면 로그를 발생시킨 컨트랙트 주소를 그 필드로 추가합니다.
+ *
+ * 블록 타임스탬프, chainId, 보낸 주소, GameItem 토큰 정보는 RPC 조회가 필요하므로
+ * 확정된 이벤트를 큐에 적재할 때 EventEnricher로 추가합니다. (enrichment.service.ts)
  */
 export const buildPayload = (
   parsed: LogDescription,
   eventLog: EventLog,
-  contractName: string,
+  definition: ContractListenerDefinition,
+  job: EventJobRule = { name: parsed.name },
 ): Record<string, unknown> => {
   const parsedArgs: Record<string, unknown> = {};
 
@@ -100,16 +78,61 @@ export const buildPayload = (
     parsedArgs[key] = normalizeValue(parsed.args[index]);
   });
 
+  const aliasedFields = Object.fromEntries(
+    Object.entries(job.fields ?? {}).map(([field, source]) => [field, parsedArgs[source]]),
+  );
+
   return {
     ...parsedArgs,
+    ...aliasedFields,
+    ...(definition.logAddressField ? { [definition.logAddressField]: eventLog.address } : {}),
     blockNumber: eventLog.blockNumber,
     transactionHash: eventLog.transactionHash,
     logIndex: eventLog.index,
     removed: false,
-    contract: contractName,
+    contract: definition.name,
+    ...schemaVersionOf(job.name),
   };
 };
 
+/**
+ * 리스너 정의의 jobs 규칙으로 이벤트를 전달할 큐 작업 규칙을 결정합니다.
+ * 규칙이 없는 이벤트는 이벤트 이름을 그대로 사용하고, 조건이 맞는 규칙이 없으면 null(전달하지 않음)을 반환합니다.
+ */
+export const resolveEventJob = (definition: ContractListenerDefinition, parsed: LogDescription): EventJobRule | null => {
+  const rules = definition.jobs?.[parsed.name];
+  if (!rules) {
+    return { name: parsed.name };
+  }
+
+  const argValue = (field: string): string => {
+    const index = parsed.fragment.inputs.findIndex((input) => input.name === field);
+    return index < 0 ? "" : String(normalizeValue(parsed.args[index])).toLowerCase();
+  };
+
+  return (
+    rules.find((item) =>
+      Object.entries(item.where ?? {}).every(([field, value]) => argValue(field) === value.toLowerCase()),
+    ) ?? null
+  );
+};
+
+/**
+ * 이미 전달한 이벤트가 재조직으로 사라졌을 때 보낼 보상 페이로드를 구성합니다.
+ * 메인 서버는 transactionHash + logIndex로 원래 이벤트를 찾아 되돌립니다.
+ */
+export const buildRevertedPayload = (event: TrackedEvent): Record<string, unknown> => ({
+  originalEvent: event.eventName,
+  blockNumber: event.blockNumber,
+  blockHash: event.blockHash,
+  transactionHash: event.transactionHash,
+  logIndex: event.logIndex,
+  contract: event.payload.contract,
+  originalPayload: event.payload,
+  reason: "reorg",
+  ...schemaVersionOf(EVENT_REVERTED_JOB_NAME),
+});
+
 /**
  * ABI 아티팩트에서 ABI를 추출합니다.
  */
@@ -120,6 +143,27 @@ export const artifactToAbi = (artifact: { abi: JsonFragment[] }): JsonFragment[]
   return artifact.abi;
 };
 
+/**
+ * Hardhat 아티팩트 파일을 읽어 ABI를 반환합니다.
+ *
+ * @param artifactPath - 아티팩트 디렉터리 기준 상대 경로 (예: "NftVault.sol/NftVault.json")
+ *                       BLOCKCHAIN_ARTIFACTS_DIR로 아티팩트 디렉터리를 변경할 수 있습니다.
+ */
+export const loadArtifactAbi = (artifactPath: string): JsonFragment[] => {
+  const baseDir = process.env.BLOCKCHAIN_ARTIFACTS_DIR ?? DEFAULT_ARTIFACTS_DIR;
+  const fullPath = path.resolve(baseDir, artifactPath);
+
+  try {
+    return artifactToAbi(JSON.parse(readFileSync(fullPath, "utf8")) as { abi: JsonFragment[] });
+  } catch (error) {
+    const err = error as NodeJS.ErrnoException;
+    if (err.code === "ENOENT") {
+      throw new Error(`아티팩트 파일을 찾을 수 없습니다: ${fullPath} (npm run compile 필요)`);
+    }
+    throw error;
+  }
+};
+
 /**
  * 환경 변수를 안전하게 읽어옵니다.
  */
@@ -131,19 +175,45 @@ export const resolveEnv = (key: string): string => {
   return value;
 };
 
+/**
+ * 이벤트 한 건에 대한 결정적 작업 ID를 생성합니다.
+ *
+ * 같은 로그는 백필과 실시간 구독에서 중복으로 들어올 수 있으므로,
+ * chainId + transactionHash + logIndex로 ID를 고정하여 BullMQ가 중복 작업을 무시하도록 합니다.
+ * BullMQ 사용자 지정 ID에는 ':'를 쓸 수 없어 '-'로 구분합니다.
+ */
+export const buildEventJobId = (
+  chainId: string,
+  event: Pick<TrackedEvent, "transactionHash" | "logIndex">,
+  prefix = "event",
+): string => `${prefix}-${chainId}-${event.transactionHash.toLowerCase()}-${event.logIndex}`;
+
 /**
  * 이벤트 큐 인스턴스를 생성합니다.
+ *
+ * 완료된 작업은 24시간 동안 보관하여, 그 사이 재시작으로 다시 들어온 같은 이벤트가
+ * 결정적 작업 ID 충돌로 무시되도록 합니다.
+ * 싱크 큐는 retry로 싱크별 재시도 정책을 지정합니다.
  */
-export const createEventQueue = (queueName: string) => {
+export const createEventQueue = (
+  queueName: string,
+  retry: SinkRetryPolicy = {
+    attempts: 5,
+    backoff: {
+      type: "exponential",
+      delay: 5000,
+    },
+  },
+) => {
   return new Queue<Record<string, unknown>>(queueName, {
     connection: getBullMQConnection(),
     defaultJobOptions: {
-      attempts: 5,
-      backoff: {
-        type: "exponential",
-        delay: 5000,
+      attempts: retry.attempts,
+      backoff: retry.backoff,
+      removeOnComplete: {
+        age: 24 * 60 * 60,
+        count: 10000,
       },
-      removeOnComplete: 500,
       removeOnFail: 0,
     },
   });
@@ -0,0 +1,694 @@
+import {
+  EventFragment,
+  EventLog,
+  Interface,
+  Log,
+  LogDescription,
+  Provider,
+} from "ethers";
+import { Queue } from "bullmq";
+import {
+  ContractListenerDefinition,
+  resolveListenerAddress,
+  resolveListenerStartBlock,
+} from "../../../config/listeners.config";
+import {
+  buildEventJobId,
+  buildPayload,
+  buildRevertedPayload,
+  createEventQueue,
+  EVENT_REVERTED_JOB_NAME,
+  loadArtifactAbi,
+  resolveEventJob,
+} from "./base.listener";
+import {
+  CheckpointKey,
+  advanceCheckpoint,
+  getCheckpointStore,
+  loadCheckpoint,
+  rewindCheckpoint,
+} from "../checkpoint.service";
+import {
+  ConfirmationTracker,
+  TrackedEvent,
+  createConfirmationTracker,
+  toTrackedEvent,
+} from "../confirmation.service";
+import { backfillInChunks } from "../backfill.service";
+import { createEventEnricher } from "../enrichment.service";
+import { EventOutbox, createEventOutbox } from "../outbox.service";
+import {
+  ProviderSession,
+  ProviderSupervisor,
+  createProviderSupervisor,
+  resolveProviderUrls,
+} from "../connection.service";
+import type { BackfillProgress, ListenerStatus } from "../status.service";
+
+/**
+ * 초기화된 컨트랙트 리스너의 리소스입니다.
+ */
+export interface ContractListener {
+  definition: ContractListenerDefinition;
+  /** 체크포인트 키와 상태 표시에 사용하는 컨트랙트 주소 */
+  contractAddress: string;
+  /** provider 연결 감독자 (재연결 시 provider가 교체되므로 supervisor.provider로 조회) */
+  supervisor: ProviderSupervisor;
+  /** 이벤트를 적재하는 큐 (전용 처리기를 사용하는 리스너는 null) */
+  queue: Queue<Record<string, unknown>> | null;
+  /** 상태 API에 보고할 현재 상태를 계산합니다. */
+  status: () => Promise<ListenerStatus>;
+  /**
+   * 구독할 주소를 추가하고 fromBlock부터 로그를 다시 조회합니다. (logAddressField가 있는 리스너만)
+   * @returns 이미 구독 중인 주소이면 false
+   */
+  addAddress?: (address: string, fromBlock: number) => boolean;
+  cleanup: () => Promise<void>;
+}
+
+/**
+ * 이벤트 하나의 로그를 블록 구간으로 조회합니다.
+ */
+type EventLogFetcher = (fragment: EventFragment, fromBlock: number, toBlock: number) => Promise<EventLog[]>;
+
+/**
+ * 리스너 정의의 이벤트 이름에 해당하는 이벤트 프래그먼트만 추출합니다.
+ */
+const resolveEventFragments = (iface: Interface, definition: ContractListenerDefinition): EventFragment[] => {
+  const fragments = iface.fragments.filter(
+    (fragment): fragment is EventFragment => {
+      if (fragment.type !== "event") return false;
+      return "name" in fragment && typeof fragment.name === "string" && definition.events.includes(fragment.name);
+    },
+  );
+
+  const missing = definition.events.filter((eventName) => !fragments.some((fragment) => fragment.name === eventName));
+  if (missing.length > 0) {
+    throw new Error(`${definition.name} ABI에 없는 이벤트입니다: ${missing.join(", ")}`);
+  }
+
+  return fragments;
+};
+
+/**
+ * 리스너 정의의 이벤트만 백필합니다.
+ * 리스너가 오프라인이었던 구간(또는 재연결 전까지 놓친 구간)의 이벤트를 조회하여 확정 대기열에 추가합니다.
+ * HTTP 폴링 모드에서는 새 블록마다 quiet 모드로 호출되어 eth_getLogs 폴링 역할도 합니다.
+ * 확정 깊이에 도달한 이벤트는 tracker.processHead() 호출 시 큐에 적재됩니다.
+ *
+ * RPC 조회 범위 제한을 피하기 위해 구간을 청크로 나누어 조회하며,
+ * 청크마다 onChunkComplete()를 호출하여 진행 상황(체크포인트)을 저장합니다.
+ */
+const backfillContractEvents = async (
+  definition: ContractListenerDefinition,
+  fetchLogs: EventLogFetcher,
+  iface: Interface,
+  fromBlock: number,
+  toBlock: number,
+  tracker: ConfirmationTracker,
+  onChunkComplete: (chunkToBlock: number) => Promise<void>,
+  quiet = false,
+): Promise<void> => {
+  if (fromBlock > toBlock) {
+    return;
+  }
+
+  const logTag = `[${definition.name}Listener]`;
+
+  if (!quiet) {
+    console.log(`${logTag} 백필 시작`, {
+      fromBlock,
+      toBlock,
+    });
+  }
+
+  const eventFragments = resolveEventFragments(iface, definition);
+
+  const result = await backfillInChunks({
+    label: `${definition.name}Listener`,
+    fromBlock,
+    toBlock,
+    fetchChunk: async (chunkFrom, chunkTo) => {
+      const chunkItems: TrackedEvent[] = [];
+
+      // 조회 실패 시 throw하여 backfillInChunks가 청크 축소 또는 재시도를 결정하도록 합니다.
+      for (const fragment of eventFragments) {
+        const logs = await fetchLogs(fragment, chunkFrom, chunkTo);
+        logs.forEach((eventLog) => {
+          const parsed = iface.parseLog(eventLog) as LogDescription;
+          const job = resolveEventJob(definition, parsed);
+          if (job === null) {
+            return;
+          }
+          const payload = buildPayload(parsed, eventLog, definition, job);
+
+          chunkItems.push(toTrackedEvent(job.name, payload, eventLog));
+        });
+      }
+
+      chunkItems.forEach((item) => tracker.track(item));
+      return chunkItems.length;
+    },
+    onChunkComplete,
+  });
+
+  if (!quiet || result.totalEvents > 0) {
+    console.log(`${logTag} ${quiet ? "폴링 조회 완료" : "백필 완료"}`, {
+      fromBlock,
+      toBlock,
+      totalEvents: result.totalEvents,
+      chunks: result.chunks,
+    });
+  }
+};
+
+/**
+ * 리스너 정의의 실시간 이벤트를 구독합니다.
+ *
+ * 이벤트마다 주소 목록과 이벤트 토픽으로 필터를 만들어 provider.on()으로 구독합니다.
+ *
+ * 각 이벤트 발생 시 실행 흐름:
+ * 1. provider.on() 콜백이 트리거됨
+ * 2. 이벤트 로그를 파싱하여 페이로드 생성
+ * 3. 확정 대기열에 추가 (tracker.track())
+ * 4. 확정 깊이에 도달하면 새 블록 처리 시 BullMQ 큐에 적재되고 체크포인트가 갱신됨
+ *
+ * removed 로그는 대기 중이면 버리고, 이미 전달되었으면 EventReverted 작업을 적재합니다.
+ *
+ * @returns 구독을 해제하는 함수
+ */
+const registerContractEvents = async (
+  definition: ContractListenerDefinition,
+  provider: Provider,
+  addresses: string[],
+  iface: Interface,
+  tracker: ConfirmationTracker,
+): Promise<() => Promise<void>> => {
+  const logTag = `[${definition.name}Listener]`;
+  // 빈 주소 목록은 모든 컨트랙트로 해석되므로 구독하지 않습니다.
+  if (addresses.length === 0) {
+    return async () => undefined;
+  }
+
+  const subscriptions = resolveEventFragments(iface, definition).map((fragment) => {
+    const filter = { address: addresses, topics: [fragment.topicHash] };
+
+    const listener = async (log: Log) => {
+      const event = new EventLog(log, iface, fragment);
+
+      try {
+        if (event.removed) {
+          await tracker.remove({ transactionHash: event.transactionHash, logIndex: event.index });
+          return;
+        }
+
+        const parsed = iface.parseLog(event) as LogDescription;
+        const job = resolveEventJob(definition, parsed);
+        if (job === null) {
+          return;
+        }
+        const payload = buildPayload(parsed, event, definition, job);
+        tracker.track(toTrackedEvent(job.name, payload, event));
+        console.log(`${logTag} 실시간 이벤트 확정 대기`, {
+          event: fragment.name,
+          blockNumber: event.blockNumber,
+          confirmations: tracker.confirmations,
+        });
+      } catch (error) {
+        console.error(`${logTag} 실시간 이벤트 처리 실패`, {
+          event: fragment.name,
+          error,
+        });
+      }
+    };
+
+    return { filter, listener };
+  });
+
+  for (const { filter, listener } of subscriptions) {
+    await provider.on(filter, listener);
+  }
+
+  return async () => {
+    for (const { filter, listener } of subscriptions) {
+      await provider.off(filter, listener);
+    }
+  };
+};
+
+/**
+ * 확정된 이벤트를 큐 대신 직접 처리할 때 사용하는 처리기입니다.
+ */
+export interface ListenerEventHandlers {
+  /** 확정된 이벤트를 처리합니다. 실패하면 throw하여 다음 블록에서 재시도합니다. */
+  deliver: (event: TrackedEvent, context: ListenerEventContext) => Promise<void>;
+  /** 재조직으로 사라진 이벤트를 되돌립니다. */
+  revert: (event: TrackedEvent, context: ListenerEventContext) => Promise<void>;
+  /** 해당 블록까지 모든 이벤트가 처리되었을 때 호출됩니다. */
+  onConfirmedThrough?: (blockNumber: number, context: ListenerEventContext) => Promise<void>;
+}
+
+/**
+ * 리스너 초기화 옵션입니다.
+ */
+export interface ListenerOptions {
+  /** 처음 구독할 주소 목록 (logAddressField가 있는 리스너만, 이후 addAddress()로 추가) */
+  addresses?: string[];
+  /** 확정된 이벤트를 큐(아웃박스)에 넣은 뒤 호출됩니다. 실패해도 전달에는 영향을 주지 않습니다. */
+  onEnqueued?: (event: TrackedEvent) => Promise<void>;
+}
+
+export interface ListenerEventContext {
+  chainId: string;
+  /** 현재 세션의 provider (재연결 중이면 null) */
+  getProvider: () => Provider | null;
+}
+
+interface ListenerRuntime {
+  chainId: string;
+  checkpointKey: CheckpointKey;
+  tracker: ConfirmationTracker;
+  /** 모든 이벤트가 전달된 마지막 블록 (재연결 시 이 다음 블록부터 누락 구간을 다시 조회) */
+  confirmedThrough: number;
+  /** 재조직이 감지되어 다음 확정 블록 기록 때 체크포인트를 되돌려야 하는지 여부 */
+  rewindPending: boolean;
+  /** 마지막으로 수신한 체인 헤드 블록 */
+  headBlock: number | null;
+  /** 마지막 누락 구간 백필의 진행 상황 (폴링 조회는 포함하지 않음) */
+  backfill: BackfillProgress | null;
+  /** 이벤트와 체크포인트를 함께 기록하는 아웃박스 (전용 처리기를 사용하면 null) */
+  outbox: EventOutbox | null;
+}
+
+/**
+ * 레지스트리 항목으로 컨트랙트 이벤트 리스너를 초기화합니다.
+ *
+ * 초기화 과정:
+ * 1. 아티팩트 ABI로 인터페이스를 만들고 BullMQ 큐 생성
+ * 2. provider 감독자(createProviderSupervisor) 시작
+ * 3. 연결될 때마다 connectSession() 실행
+ *    - 실시간 이벤트 구독 (WebSocket 모드에서만 registerContractEvents(), 주소 목록 필터 사용)
+ *    - 체크포인트 이후 누락 구간 백필
+ * 4. 새 블록마다 재조직 감지 및 확정 이벤트 전달 (HTTP 모드에서는 eth_getLogs 폴링 포함)
+ *    - 확정된 이벤트는 체크포인트와 함께 아웃박스에 원자적으로 기록되고, 릴레이가 큐에 적재합니다. (outbox.service.ts)
+ *    - 재조직이 감지되면 체크포인트를 되돌리고 재조직된 블록부터 로그를 다시 조회합니다. (WebSocket 모드 포함)
+ *
+ * handlers를 지정하면 큐를 만들지 않고 확정된 이벤트를 handlers로 직접 전달합니다. (예: Transfer 인덱서)
+ * options.onEnqueued로 큐에 넣은 이벤트에 반응할 수 있습니다. (예: 새 CustomToken 주소 등록)
+ *
+ * 정의에 logAddressField가 있으면 여러 컨트랙트를 주소 목록 필터 하나로 구독합니다. (예: CustomToken)
+ * addAddress()로 주소를 추가하면 구독 필터를 교체하고, 재조직과 같은 방식으로 지정한 블록부터 다시 조회하며 체크포인트도 되돌립니다.
+ *
+ * 확정 추적기와 체크포인트는 재연결과 무관하게 유지되므로, 연결이 끊겼다 복구되어도
+ * 이미 전달한 이벤트는 다시 전달되지 않고 놓친 이벤트만 채워집니다.
+ */
+export const initializeContractListener = async (
+  definition: ContractListenerDefinition,
+  handlers?: ListenerEventHandlers,
+  options: ListenerOptions = {},
+): Promise<ContractListener> => {
+  const logTag = `[${definition.name}Listener]`;
+
+  const contractAddress = resolveListenerAddress(definition);
+  // 로그를 조회하고 구독할 주소 목록 (소문자)
+  const addresses = new Set(
+    (definition.logAddressField ? options.addresses ?? [] : [contractAddress]).map((address) => address.toLowerCase()),
+  );
+  const iface = new Interface(loadArtifactAbi(definition.artifact));
+  // ABI에 없는 이벤트는 연결 전에 바로 실패시킵니다.
+  resolveEventFragments(iface, definition);
+
+  if (!handlers && !definition.queueName) {
+    throw new Error(`${definition.name} 리스너에 queueName 또는 전용 처리기가 필요합니다.`);
+  }
+  const checkpointStore = await getCheckpointStore();
+  // 아웃박스는 체크포인트와 같은 Redis 트랜잭션으로 이벤트를 기록하므로, 큐로 전달하는 리스너는 Redis 저장소 없이 시작하지 않습니다.
+  // (파일 저장소로 큐에 직접 적재하면 적재와 체크포인트 기록 사이에 종료될 때 이벤트가 유실되거나 중복됨)
+  if (!handlers && checkpointStore.kind !== "redis") {
+    throw new Error(
+      `${definition.name} 리스너는 Redis 체크포인트 저장소가 필요합니다. (Redis 연결과 BLOCKCHAIN_CHECKPOINT_STORE 설정 확인)`,
+    );
+  }
+  const queue = handlers ? null : createEventQueue(definition.queueName as string);
+
+  let runtime: ListenerRuntime | null = null;
+  let supervisor: ProviderSupervisor;
+  // 아직 연결되지 않았을 때 추가된 주소의 조회 시작 블록 (연결되면 다시 조회를 요청)
+  let rescanBeforeConnect: number | null = null;
+  // WebSocket 세션의 구독 필터를 현재 주소 목록으로 교체합니다. (연결되어 있지 않으면 null)
+  let resubscribe: (() => void) | null = null;
+
+  const createRuntime = async (chainId: string, provider: Provider): Promise<ListenerRuntime> => {
+    const context: ListenerEventContext = {
+      chainId,
+      getProvider: () => supervisor.provider,
+    };
+    const checkpointKey: CheckpointKey = {
+      chainId,
+      contractAddress,
+      listenerName: definition.name,
+    };
+
+    const enricher = createEventEnricher({
+      definition,
+      chainId,
+      getProvider: () => supervisor.provider,
+    });
+
+    // 큐로 전달하는 리스너는 이벤트와 체크포인트를 아웃박스로 함께 기록합니다.
+    const outbox = queue ? createEventOutbox({ listenerName: definition.name, checkpointKey, queue }) : null;
+
+    // 확정된 이벤트에 블록/트랜잭션/토큰 정보를 추가하여 적재합니다.
+    // 보강 중 조회에 실패하면 throw하여 확정 추적기가 다음 블록에서 다시 시도합니다.
+    const enqueueEvent = async (event: TrackedEvent) => {
+      const payload = await enricher.enrich(event);
+      const jobId = buildEventJobId(chainId, event);
+      outbox?.stage({ name: event.eventName, data: payload, jobId });
+      // EventReverted의 originalPayload도 전달한 페이로드와 같도록 교체합니다.
+      event.payload = payload;
+
+      await options.onEnqueued?.(event).catch((error) => {
+        console.error(`${logTag} onEnqueued 처리 실패`, { event: event.eventName, error });
+      });
+    };
+
+    const enqueueReverted = async (event: TrackedEvent) => {
+      // 원래 작업을 지워 두어야 같은 트랜잭션이 다른 블록에 다시 포함될 때 중복으로 무시되지 않습니다.
+      const removeJobId = buildEventJobId(chainId, event);
+      const jobId = buildEventJobId(chainId, event, "reverted");
+      outbox?.stage({ name: EVENT_REVERTED_JOB_NAME, data: buildRevertedPayload(event), jobId, removeJobId });
+    };
+
+    const lastProcessedBlock = await loadCheckpoint(checkpointStore, checkpointKey, async () => {
+      const startBlock = resolveListenerStartBlock(definition);
+      if (startBlock !== null) {
+        return Math.max(startBlock - 1, 0);
+      }
+      // 시작 블록이 없으면 전체 체인을 백필하지 않도록 현재 블록부터 처리합니다.
+      const currentBlock = await provider.getBlockNumber();
+      console.warn(
+        `${logTag} ${definition.startBlockEnv ?? "시작 블록"}이 설정되지 않아 현재 블록(${currentBlock}) 이후의 이벤트만 처리합니다.`,
+      );
+      return currentBlock;
+    });
+
+    const state: ListenerRuntime = {
+      chainId,
+      checkpointKey,
+      confirmedThrough: lastProcessedBlock,
+      rewindPending: false,
+      headBlock: null,
+      backfill: null,
+      outbox,
+      tracker: createConfirmationTracker({
+        getProvider: () => supervisor.provider,
+        listenerName: definition.name,
+        deliver: (event) => (handlers ? handlers.deliver(event, context) : enqueueEvent(event)),
+        revert: (event) => (handlers ? handlers.revert(event, context) : enqueueReverted(event)),
+        // 재조직된 블록부터 다시 조회하므로, 그 전에 종료되어도 재시작 후 다시 조회하도록 체크포인트를 되돌립니다.
+        onReorg: () => {
+          state.rewindPending = true;
+        },
+        onConfirmedThrough: async (blockNumber) => {
+          const rewind = state.rewindPending;
+          state.confirmedThrough = rewind ? blockNumber : Math.max(state.confirmedThrough, blockNumber);
+          try {
+            // 아웃박스 기록에 실패하면 모아 둔 이벤트가 남아 다음 블록 처리 때 체크포인트와 함께 다시 기록됩니다.
+            if (outbox) {
+              await outbox.commit(blockNumber, rewind);
+            } else if (rewind) {
+              await rewindCheckpoint(checkpointStore, checkpointKey, blockNumber);
+            } else {
+              await advanceCheckpoint(checkpointStore, checkpointKey, blockNumber);
+            }
+            if (rewind) {
+              state.rewindPending = false;
+            }
+            await handlers?.onConfirmedThrough?.(blockNumber, context);
+          } catch (error) {
+            console.error(`${logTag} 마지막 처리 블록 기록 실패`, error);
+          }
+        },
+      }),
+    };
+
+    if (rescanBeforeConnect !== null) {
+      state.tracker.requestRescan(rescanBeforeConnect);
+      rescanBeforeConnect = null;
+    }
+
+    return state;
+  };
+
+  const connectSession = async ({ provider, transport, markAlive }: ProviderSession) => {
+    const network = await provider.getNetwork();
+    const chainId = network.chainId.toString();
+
+    if (!runtime) {
+      runtime = await createRuntime(chainId, provider);
+    } else if (runtime.chainId !== chainId) {
+      throw new Error(`${definition.name} 리스너의 체인 ID가 변경되었습니다: ${runtime.chainId} → ${chainId}`);
+    }
+
+    const state = runtime;
+    const { tracker } = state;
+    let scannedThrough = state.confirmedThrough;
+    let live = false;
+    let closed = false;
+    let scanning: Promise<void> = Promise.resolve();
+    let unsubscribe: (() => Promise<void>) | null = null;
+
+    // 조회 시점의 주소 목록으로 로그를 조회합니다. (빈 주소 목록은 모든 컨트랙트로 해석되므로 조회하지 않음)
+    const fetchLogs: EventLogFetcher = async (fragment, fromBlock, toBlock) => {
+      const address = [...addresses];
+      if (address.length === 0) {
+        return [];
+      }
+      const logs = await provider.getLogs({ address, topics: [fragment.topicHash], fromBlock, toBlock });
+      return logs.map((log) => new EventLog(log, iface, fragment));
+    };
+
+    // 기존 구독을 해제하고 현재 주소 목록으로 다시 구독합니다. (WebSocket 모드)
+    const subscribe = async () => {
+      await unsubscribe?.();
+      unsubscribe = null;
+      if (!closed) {
+        unsubscribe = await registerContractEvents(definition, provider, [...addresses], iface, tracker);
+      }
+    };
+
+    // scannedThrough 다음 블록부터 head까지 로그를 조회하고 확정된 이벤트를 전달합니다.
+    // 재조직이 감지되었거나 주소가 추가되었으면 요청된 블록부터 다시 조회합니다. (이미 전달한 이벤트는 추적기가 걸러냄)
+    const scanThrough = async (head: number, quiet: boolean) => {
+      const rescanFrom = tracker.takeRescanFrom();
+      if (rescanFrom !== null && rescanFrom <= scannedThrough) {
+        console.warn(`${logTag} 요청된 블록부터 로그를 다시 조회합니다`, { fromBlock: rescanFrom, scannedThrough });
+        scannedThrough = rescanFrom - 1;
+      }
+
+      if (head > scannedThrough) {
+        const backfill: BackfillProgress | null = quiet
+          ? null
+          : {
+              fromBlock: scannedThrough + 1,
+              toBlock: head,
+              scannedThrough,
+              progress: 0,
+              startedAt: new Date().toISOString(),
+              completedAt: null,
+            };
+        if (backfill) {
+          state.backfill = backfill;
+        }
+
+        await backfillContractEvents(
+          definition,
+          fetchLogs,
+          iface,
+          scannedThrough + 1,
+          head,
+          tracker,
+          async (chunkToBlock) => {
+            scannedThrough = chunkToBlock;
+            if (backfill) {
+              backfill.scannedThrough = chunkToBlock;
+              backfill.progress = (chunkToBlock - backfill.fromBlock + 1) / (backfill.toBlock - backfill.fromBlock + 1);
+            }
+            await tracker.processHead(head, chunkToBlock);
+          },
+          quiet,
+        );
+
+        if (backfill) {
+          backfill.completedAt = new Date().toISOString();
+        }
+      }
+      await tracker.processHead(head, scannedThrough);
+    };
+
+    // 새 블록마다 재조직 감지 및 확정된 이벤트 전달
+    // WebSocket 모드에서는 구독으로 로그를 받으므로 재조직된 블록을 다시 조회해야 할 때만 eth_getLogs를 사용합니다.
+    const handleNewBlock = (blockNumber: number) => {
+      markAlive();
+      state.headBlock = Math.max(state.headBlock ?? 0, blockNumber);
+      if (!live) {
+        return;
+      }
+
+      const task = (scanning = scanning.catch(() => undefined).then(() => {
+        if (transport === "websocket" && !tracker.rescanPending) {
+          scannedThrough = Math.max(scannedThrough, blockNumber);
+          return tracker.processHead(blockNumber);
+        }
+        return scanThrough(blockNumber, true);
+      }));
+
+      task.catch((error) => {
+        console.error(`${logTag} 블록 처리 실패`, { blockNumber, error });
+      });
+    };
+
+    const teardown = async () => {
+      live = false;
+      closed = true;
+      resubscribe = null;
+      await provider.off("block", handleNewBlock);
+      await scanning.catch(() => undefined);
+      await unsubscribe?.();
+    };
+
+    try {
+      // 누락 구간 백필 중에 발생한 이벤트도 놓치지 않도록 구독을 먼저 등록합니다.
+      // HTTP 모드에서는 구독 대신 새 블록마다 eth_getLogs로 조회합니다.
+      if (transport === "websocket") {
+        await subscribe();
+        // 구독 교체는 블록 처리와 같은 순서로 직렬화합니다.
+        resubscribe = () => {
+          scanning = scanning.catch(() => undefined).then(subscribe);
+          scanning.catch((error) => {
+            console.error(`${logTag} 구독 주소 목록 갱신 실패`, error);
+          });
+        };
+      }
+      await provider.on("block", handleNewBlock);
+
+      const currentBlock = await provider.getBlockNumber();
+      state.headBlock = Math.max(state.headBlock ?? 0, currentBlock);
+
+      console.log(`${logTag} 블록 동기화 상태`, {
+        transport,
+        checkpointStore: checkpointStore.kind,
+        lastProcessedBlock: state.confirmedThrough,
+        currentBlock,
+      });
+
+      await scanThrough(currentBlock, false);
+      live = true;
+    } catch (error) {
+      await teardown().catch(() => undefined);
+      throw error;
+    }
+
+    return teardown;
+  };
+
+  const { wssUrl, httpUrl } = resolveProviderUrls();
+  supervisor = createProviderSupervisor({
+    label: `${definition.name}Listener`,
+    wssUrl,
+    httpUrl,
+    onConnect: connectSession,
+  });
+
+  const addAddress = (address: string, fromBlock: number): boolean => {
+    const key = address.toLowerCase();
+    if (addresses.has(key)) {
+      return false;
+    }
+    addresses.add(key);
+
+    // 이미 조회한 구간에 새 주소의 로그가 있을 수 있으므로 fromBlock부터 다시 조회합니다.
+    if (runtime) {
+      runtime.tracker.requestRescan(fromBlock);
+    } else {
+      rescanBeforeConnect = rescanBeforeConnect === null ? fromBlock : Math.min(rescanBeforeConnect, fromBlock);
+    }
+    resubscribe?.();
+    return true;
+  };
+
+  await supervisor.start();
+
+  const cleanup = async () => {
+    await supervisor.stop();
+    await runtime?.outbox?.stop();
+    await queue?.close();
+  };
+
+  // 지연 시간 계산에 쓰는 블록 타임스탬프 (같은 블록을 반복 조회하지 않도록 마지막 값만 보관)
+  let lagBlockTimestamp: { blockNumber: number; timestamp: number } | null = null;
+
+  const status = async (): Promise<ListenerStatus> => {
+    const current = runtime;
+    const headBlock = current?.headBlock ?? null;
+    const lastProcessedBlock = current?.confirmedThrough ?? null;
+    const lagBlocks =
+      headBlock !== null && lastProcessedBlock !== null ? Math.max(headBlock - lastProcessedBlock, 0) : null;
+
+    let lagSeconds: number | null = lagBlocks === 0 ? 0 : null;
+    if (lagBlocks && lastProcessedBlock !== null) {
+      const oldestUnprocessed = lastProcessedBlock + 1;
+      try {
+        if (lagBlockTimestamp?.blockNumber !== oldestUnprocessed) {
+          const block = await supervisor.provider?.getBlock(oldestUnprocessed);
+          lagBlockTimestamp = block ? { blockNumber: oldestUnprocessed, timestamp: block.timestamp } : null;
+        }
+        if (lagBlockTimestamp) {
+          lagSeconds = Math.max(Math.floor(Date.now() / 1000) - lagBlockTimestamp.timestamp, 0);
+        }
+      } catch (error) {
+        console.warn(`${logTag} 지연 시간 계산 실패`, error);
+      }
+    }
+
+    let outboxEntries: number | null = null;
+    if (current?.outbox) {
+      try {
+        outboxEntries = await current.outbox.size();
+      } catch (error) {
+        console.warn(`${logTag} 아웃박스 크기 조회 실패`, error);
+      }
+    }
+
+    return {
+      name: definition.name,
+      contractAddress,
+      chainId: current?.chainId ?? null,
+      provider: supervisor.status(),
+      headBlock,
+      lastProcessedBlock,
+      lagBlocks,
+      lagSeconds,
+      pendingEvents: current?.tracker.pendingCount ?? 0,
+      outboxEntries,
+      backfill: current?.backfill ?? null,
+    };
+  };
+
+  console.log(`${logTag} 이벤트 리스너 초기화 완료`, {
+    contractAddress,
+    ...(definition.logAddressField ? { addresses: addresses.size } : {}),
+    events: definition.events,
+    queueName: definition.queueName ?? null,
+  });
+
+  return {
+    definition,
+    contractAddress,
+    supervisor,
+    queue,
+    status,
+    ...(definition.logAddressField ? { addAddress } : {}),
+    cleanup,
+  };
+};
@@ -0,0 +1,201 @@
+import { Contract, ZeroAddress, formatUnits } from "ethers";
+import { decodeGameItemTokenId, getMarketplaceContract, getProvider } from "../../utils/contract";
+
+const ERC20_METADATA_ABI = [
+  "function name() view returns (string)",
+  "function symbol() view returns (string)",
+  "function decimals() view returns (uint8)",
+];
+
+/** platformFeePercent의 기준값 (10000 = 100%) */
+export const FEE_DENOMINATOR = 10000n;
+
+/**
+ * MarketplaceVault.Status 열거형 (순서가 컨트랙트와 같아야 합니다)
+ */
+export const LISTING_STATUSES = ["Active", "SellerCancelled", "Expired", "Sold"] as const;
+export type ListingStatus = (typeof LISTING_STATUSES)[number];
+
+/**
+ * 결제 토큰(ERC20) 정보입니다.
+ */
+export interface PaymentTokenInfo {
+  address: string;
+  name: string;
+  symbol: string;
+  decimals: number;
+}
+
+/**
+ * 결제 토큰 금액입니다. raw는 최소 단위 정수(10진수 문자열), formatted는 decimals를 적용한 값입니다.
+ */
+export interface TokenAmount {
+  raw: string;
+  formatted: string;
+  symbol: string;
+  decimals: number;
+}
+
+export interface MarketplaceConfig {
+  address: string;
+  nftContract: string;
+  paymentToken: PaymentTokenInfo;
+  feeCollector: string;
+  /** 컨트랙트에 저장된 수수료율 (10000 = 100%) */
+  platformFeePercent: number;
+  /** 수수료 비율 (0.025 = 2.5%) */
+  platformFeeRate: number;
+}
+
+export interface MarketplaceListing {
+  tokenId: string;
+  itemId: number;
+  instanceNumber: number;
+  listingId: string;
+  seller: string;
+  status: ListingStatus;
+  price: TokenAmount;
+  /** 리스팅 시각 (초) */
+  listedAt: number;
+  /** 만료 시각 (초) */
+  expiresAt: number;
+  /** 최신 블록 시각 기준 만료 여부 (만료된 리스팅은 구매할 수 없고 판매자만 회수할 수 있음) */
+  expired: boolean;
+  /** 만료까지 남은 시간 (초, 만료되었으면 0) */
+  expiresInSeconds: number;
+  /** 만료 계산에 사용한 최신 블록 시각 (초) */
+  checkedAt: number;
+}
+
+/** 결제 토큰은 컨트랙트에서 immutable이므로 주소별로 한 번만 조회합니다. */
+const paymentTokenCache = new Map<string, Promise<PaymentTokenInfo>>();
+/** 마켓플레이스 주소 → 결제 토큰 주소 */
+const paymentTokenAddressCache = new Map<string, Promise<string>>();
+
+/**
+ * 결제 토큰 정보를 조회합니다. (실패한 조회는 캐시하지 않음)
+ */
+export const getPaymentTokenInfo = (address: string): Promise<PaymentTokenInfo> => {
+  const key = address.toLowerCase();
+  let cached = paymentTokenCache.get(key);
+  if (!cached) {
+    const token = new Contract(address, ERC20_METADATA_ABI, getProvider());
+    cached = Promise.all([token.name(), token.symbol(), token.decimals()]).then(([name, symbol, decimals]) => ({
+      address,
+      name: name as string,
+      symbol: symbol as string,
+      decimals: Number(decimals),
+    }));
+    cached.catch(() => paymentTokenCache.delete(key));
+    paymentTokenCache.set(key, cached);
+  }
+  return cached;
+};
+
+/**
+ * 마켓플레이스의 결제 토큰 정보를 조회합니다.
+ * 결제 토큰 주소도 immutable이므로 MARKETPLACE_VAULT_ADDRESS별로 한 번만 조회합니다.
+ */
+export const getMarketplacePaymentToken = async (): Promise<PaymentTokenInfo> => {
+  const contract = await getMarketplaceContract();
+  const key = (contract.target as string).toLowerCase();
+  let address = paymentTokenAddressCache.get(key);
+  if (!address) {
+    address = contract.paymentToken() as Promise<string>;
+    address.catch(() => paymentTokenAddressCache.delete(key));
+    paymentTokenAddressCache.set(key, address);
+  }
+  return getPaymentTokenInfo(await address);
+};
+
+/**
+ * 최소 단위 금액을 결제 토큰 단위로 변환합니다.
+ */
+export const toTokenAmount = (raw: bigint, token: PaymentTokenInfo): TokenAmount => ({
+  raw: raw.toString(),
+  formatted: formatUnits(raw, token.decimals),
+  symbol: token.symbol,
+  decimals: token.decimals,
+});
+
+/**
+ * 상태 코드를 Status 이름으로 변환합니다.
+ */
+export const decodeListingStatus = (value: bigint | number): ListingStatus => {
+  const status = LISTING_STATUSES[Number(value)];
+  if (!status) {
+    throw new Error(`알 수 없는 리스팅 상태입니다: ${value}`);
+  }
+  return status;
+};
+
+/**
+ * 최신 블록 시각(초)을 반환합니다. 컨트랙트는 block.timestamp로 만료를 판단하므로 서버 시각 대신 사용합니다.
+ */
+export const getChainTimestamp = async (): Promise<number> => {
+  const block = await getProvider().getBlock("latest");
+  if (!block) {
+    throw new Error("최신 블록을 조회할 수 없습니다.");
+  }
+  return block.timestamp;
+};
+
+/**
+ * 마켓플레이스 설정(결제 토큰, 수수료율, 수수료 수령자)을 조회합니다.
+ */
+export const getMarketplaceConfig = async (): Promise<MarketplaceConfig> => {
+  const contract = await getMarketplaceContract();
+  const [address, nftContract, paymentToken, feeCollector, feePercent] = await Promise.all([
+    contract.getAddress(),
+    contract.nftContract(),
+    getMarketplacePaymentToken(),
+    contract.feeCollector(),
+    contract.platformFeePercent(),
+  ]);
+
+  return {
+    address,
+    nftContract,
+    paymentToken,
+    feeCollector,
+    platformFeePercent: Number(feePercent),
+    platformFeeRate: Number(feePercent) / Number(FEE_DENOMINATOR),
+  };
+};
+
+/**
+ * tokenId의 리스팅을 조회합니다.
+ *
+ * 컨트랙트는 판매/회수 시 리스팅을 삭제하므로 저장소에는 활성 리스팅만 남습니다.
+ * 리스팅이 없으면(seller가 0 주소) null을 반환합니다.
+ * 만료된 리스팅도 판매자가 회수하기 전까지는 status가 Active로 남으므로, expired로 구분합니다.
+ */
+export const getMarketplaceListing = async (tokenId: string): Promise<MarketplaceListing | null> => {
+  const contract = await getMarketplaceContract();
+  const [listing, paymentToken, checkedAt] = await Promise.all([
+    contract.listings(BigInt(tokenId)),
+    getMarketplacePaymentToken(),
+    getChainTimestamp(),
+  ]);
+
+  if (listing.seller === ZeroAddress) {
+    return null;
+  }
+
+  const expiresAt = Number(listing.expiresAt);
+
+  return {
+    tokenId,
+    ...decodeGameItemTokenId(tokenId),
+    listingId: listing.listingId.toString(),
+    seller: listing.seller,
+    status: decodeListingStatus(listing.status),
+    price: toTokenAmount(listing.price, paymentToken),
+    listedAt: Number(listing.listTimestamp),
+    expiresAt,
+    // 컨트랙트의 구매 조건(block.timestamp < expiresAt)과 같은 기준입니다.
+    expired: checkedAt >= expiresAt,
+    expiresInSeconds: Math.max(expiresAt - checkedAt, 0),
+    checkedAt,
+  };
+};
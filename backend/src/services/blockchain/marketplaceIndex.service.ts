@@ -0,0 +1,442 @@
+import { ensureRedisConnected, redisConnection } from "../../config/redis.config";
+import { MARKETPLACE_INDEX_DEFINITION, resolveListenerStartBlock } from "../../config/listeners.config";
+import { decodeGameItemTokenId } from "../../utils/contract";
+import {
+  ContractListener,
+  ListenerEventContext,
+  initializeContractListener,
+} from "./listeners/contract.listener";
+import type { TrackedEvent } from "./confirmation.service";
+import { IndexReadiness, resolveIndexReadiness } from "./indexReadiness.service";
+import { ListingStatus, decodeListingStatus, getChainTimestamp } from "./marketplace.service";
+
+const REDIS_KEY_PREFIX = "blockchain:marketplace-index";
+const RECORDS_KEY = `${REDIS_KEY_PREFIX}:records`;
+const META_KEY = `${REDIS_KEY_PREFIX}:meta`;
+
+// 정렬 인덱스 멤버는 uint256 최대 자릿수(78)로 0을 채운 10진수 문자열이므로 사전순이 숫자 순서와 같습니다.
+const SORT_VALUE_DIGITS = 78;
+const SCAN_BATCH_SIZE = 200;
+const MAX_SCAN_PER_QUERY = 5_000;
+const STATE_TIMEOUT_MS = 1_000;
+const DEFAULT_MAX_LAG_BLOCKS = 20;
+
+/**
+ * 정렬 기준입니다. listedAt은 리스팅 순서(listingId, 컨트랙트에서 1씩 증가)로 정렬합니다.
+ */
+export type ListingSortField = "price" | "expiresAt" | "listedAt";
+
+export const LISTING_SORT_FIELDS: ListingSortField[] = ["price", "expiresAt", "listedAt"];
+
+/**
+ * 인덱스에 저장되는 리스팅 한 건입니다. (판매/회수된 리스팅도 상태만 바꿔 보관)
+ */
+export interface IndexedListing {
+  listingId: string;
+  tokenId: string;
+  itemId: number;
+  instanceNumber: number;
+  seller: string;
+  /** 결제 토큰 최소 단위 가격 (10진수 문자열) */
+  price: string;
+  /** 만료 시각 (unix seconds) */
+  expiresAt: number;
+  status: ListingStatus;
+  blockNumber: number;
+  transactionHash: string;
+  /** 판매/회수 트랜잭션 해시 (활성 리스팅이면 null) */
+  closedTransactionHash: string | null;
+}
+
+export interface MarketplaceIndexState {
+  chainId: string;
+  contractAddress: string;
+  /** 이 블록까지의 리스팅 이벤트가 모두 인덱스에 반영됨 */
+  indexedThrough: number;
+  updatedAt: string;
+}
+
+/**
+ * 조회 시점에 계산한 인덱스 준비 상태입니다.
+ * ready가 false이면(최초 백필 중, 인덱서 중단, 확정 깊이 + BLOCKCHAIN_MARKETPLACE_INDEX_MAX_LAG_BLOCKS보다 뒤처짐)
+ * 카탈로그에 빠진 리스팅이 있을 수 있습니다.
+ */
+export type MarketplaceIndexStatus = MarketplaceIndexState & IndexReadiness;
+
+export interface ListingQuery {
+  itemId?: number;
+  seller?: string;
+  /** 최소 가격 (최소 단위, 포함) */
+  minPrice?: bigint;
+  /** 최대 가격 (최소 단위, 포함) */
+  maxPrice?: bigint;
+  /** unix seconds (포함) */
+  expiresAfter?: number;
+  /** unix seconds (포함) */
+  expiresBefore?: number;
+  sort: ListingSortField;
+  order: "asc" | "desc";
+  cursor?: string;
+  limit: number;
+}
+
+export interface ListingPage {
+  items: IndexedListing[];
+  /** 다음 페이지 조회용 커서 (더 이상 없으면 null) */
+  nextCursor: string | null;
+  /** 만료 판단에 사용한 시각 (unix seconds) */
+  checkedAt: number;
+}
+
+const sortKey = (field: ListingSortField, scope: string) => `${REDIS_KEY_PREFIX}:sort:${field}:${scope}`;
+const itemScope = (itemId: number) => `item:${itemId}`;
+const sellerScope = (seller: string) => `seller:${seller.toLowerCase()}`;
+
+const padSortValue = (value: bigint | number | string): string => BigInt(value).toString().padStart(SORT_VALUE_DIGITS, "0");
+
+const sortValueOf = (listing: IndexedListing, field: ListingSortField): string =>
+  field === "price" ? listing.price : field === "expiresAt" ? String(listing.expiresAt) : listing.listingId;
+
+/**
+ * 정렬 인덱스 멤버입니다. 같은 값이면 listingId 순서로 정렬됩니다.
+ */
+const toSortMember = (listing: IndexedListing, field: ListingSortField): string =>
+  `${padSortValue(sortValueOf(listing, field))}:${padSortValue(listing.listingId)}`;
+
+const listingIdOfMember = (member: string): string => BigInt(member.split(":")[1]).toString();
+
+/**
+ * 커서는 정렬 기준과 마지막으로 조회한 정렬 인덱스 멤버를 base64url로 인코딩한 값입니다.
+ */
+const encodeListingCursor = (sort: ListingSortField, member: string): string =>
+  Buffer.from(`${sort}|${member}`).toString("base64url");
+
+/**
+ * 커서를 정렬 기준과 멤버로 변환합니다. 형식이 잘못되었으면 null을 반환합니다.
+ */
+export const parseListingCursor = (cursor: string): { sort: ListingSortField; member: string } | null => {
+  const [sort, member] = Buffer.from(cursor, "base64url").toString("utf8").split("|");
+  const pattern = new RegExp(`^[0-9]{${SORT_VALUE_DIGITS}}:[0-9]{${SORT_VALUE_DIGITS}}$`);
+  if (!LISTING_SORT_FIELDS.includes(sort as ListingSortField) || !member || !pattern.test(member)) {
+    return null;
+  }
+  return { sort: sort as ListingSortField, member };
+};
+
+const isMarketplaceIndexSwitchedOn = (): boolean =>
+  MARKETPLACE_INDEX_DEFINITION.enabled &&
+  process.env.BLOCKCHAIN_MARKETPLACE_INDEX_ENABLED !== "false" &&
+  Boolean(process.env.MARKETPLACE_VAULT_ADDRESS);
+
+/**
+ * BLOCKCHAIN_MARKETPLACE_INDEX_ENABLED=false 이거나 MARKETPLACE_VAULT_ADDRESS 또는 MARKETPLACE_VAULT_START_BLOCK이 없으면
+ * 인덱서와 카탈로그 조회를 모두 사용하지 않습니다.
+ * 카탈로그는 배포 블록부터의 리스팅이 모두 있어야 하므로, 시작 블록 없이 현재 블록부터 인덱싱하지 않습니다.
+ */
+export const isMarketplaceIndexEnabled = (): boolean =>
+  isMarketplaceIndexSwitchedOn() && resolveListenerStartBlock(MARKETPLACE_INDEX_DEFINITION) !== null;
+
+/**
+ * 확정 깊이 외에 허용하는 인덱스 지연 블록 수입니다. (BLOCKCHAIN_MARKETPLACE_INDEX_MAX_LAG_BLOCKS, 기본 20)
+ */
+const resolveMaxLagBlocks = (): number => {
+  const value = Number(process.env.BLOCKCHAIN_MARKETPLACE_INDEX_MAX_LAG_BLOCKS);
+  return Number.isInteger(value) && value >= 0 ? value : DEFAULT_MAX_LAG_BLOCKS;
+};
+
+const readListing = async (listingId: string): Promise<IndexedListing | null> => {
+  const raw = await redisConnection.hget(RECORDS_KEY, listingId);
+  return raw ? (JSON.parse(raw) as IndexedListing) : null;
+};
+
+type RedisPipeline = ReturnType<typeof redisConnection.multi>;
+
+/**
+ * 리스팅을 정렬 인덱스(전체, itemId별, 판매자별)에 추가하거나 제거합니다.
+ */
+const updateSortIndexes = (pipeline: RedisPipeline, listing: IndexedListing, active: boolean) => {
+  for (const field of LISTING_SORT_FIELDS) {
+    const member = toSortMember(listing, field);
+    for (const scope of ["all", itemScope(listing.itemId), sellerScope(listing.seller)]) {
+      if (active) {
+        pipeline.zadd(sortKey(field, scope), 0, member);
+      } else {
+        pipeline.zrem(sortKey(field, scope), member);
+      }
+    }
+  }
+};
+
+/**
+ * 리스팅을 저장하고, 활성 리스팅만 정렬 인덱스에 남깁니다.
+ */
+const writeListing = async (listing: IndexedListing): Promise<void> => {
+  const pipeline = redisConnection.multi().hset(RECORDS_KEY, listing.listingId, JSON.stringify(listing));
+  updateSortIndexes(pipeline, listing, listing.status === "Active");
+  await pipeline.exec();
+};
+
+const toIndexedListing = (event: TrackedEvent): IndexedListing => {
+  const tokenId = String(event.payload.tokenId);
+  return {
+    listingId: String(event.payload.listingId),
+    tokenId,
+    ...decodeGameItemTokenId(tokenId),
+    seller: String(event.payload.seller),
+    price: String(event.payload.price),
+    expiresAt: Number(event.payload.expiresAt),
+    status: "Active",
+    blockNumber: event.blockNumber,
+    transactionHash: event.transactionHash,
+    closedTransactionHash: null,
+  };
+};
+
+/**
+ * 확정된 리스팅 이벤트를 인덱스에 반영합니다. 같은 이벤트를 여러 번 반영해도 결과가 같습니다.
+ * - NFTListed: 활성 리스팅 추가
+ * - NFTSold, NFTReclaimed: 상태를 finalStatus로 바꾸고 정렬 인덱스에서 제거
+ *   (인덱서 시작 블록 이전에 등록된 리스팅이면 반영할 레코드가 없으므로 무시)
+ */
+const indexListingEvent = async (event: TrackedEvent): Promise<void> => {
+  if (event.eventName === "NFTListed") {
+    await writeListing(toIndexedListing(event));
+    return;
+  }
+
+  const listing = await readListing(String(event.payload.listingId));
+  if (!listing) {
+    return;
+  }
+  await writeListing({
+    ...listing,
+    status: decodeListingStatus(BigInt(String(event.payload.finalStatus))),
+    closedTransactionHash: event.transactionHash,
+  });
+};
+
+/**
+ * 재조직으로 사라진 리스팅 이벤트를 되돌립니다.
+ * - NFTListed: 리스팅 삭제
+ * - NFTSold, NFTReclaimed: 같은 트랜잭션으로 종료된 리스팅이면 다시 활성화
+ */
+const revertListingEvent = async (event: TrackedEvent): Promise<void> => {
+  const listing = await readListing(String(event.payload.listingId));
+  if (!listing) {
+    return;
+  }
+
+  if (event.eventName === "NFTListed") {
+    const pipeline = redisConnection.multi().hdel(RECORDS_KEY, listing.listingId);
+    updateSortIndexes(pipeline, listing, false);
+    await pipeline.exec();
+    return;
+  }
+
+  if (listing.closedTransactionHash?.toLowerCase() === event.transactionHash.toLowerCase()) {
+    await writeListing({ ...listing, status: "Active", closedTransactionHash: null });
+  }
+};
+
+const updateIndexState = async (blockNumber: number, context: ListenerEventContext, contractAddress: string) => {
+  const state: MarketplaceIndexState = {
+    chainId: context.chainId,
+    contractAddress: contractAddress.toLowerCase(),
+    indexedThrough: blockNumber,
+    updatedAt: new Date().toISOString(),
+  };
+  await redisConnection.set(META_KEY, JSON.stringify(state));
+};
+
+/**
+ * MarketplaceVault 리스팅 인덱서를 시작합니다.
+ *
+ * 리스너 공통 구조(백필, 확정 깊이, 재조직 처리, 재연결)를 그대로 사용하며,
+ * 확정된 NFTListed/NFTSold/NFTReclaimed 이벤트를 큐 대신 Redis 인덱스에 기록합니다.
+ * - 리스팅 레코드(listingId별)와 활성 리스팅의 정렬 인덱스(가격, 만료 시각, 리스팅 순서)
+ * - 정렬 인덱스는 전체, itemId별, 판매자별로 유지
+ *
+ * @returns 비활성화되어 있으면 null
+ */
+export const initializeMarketplaceIndexer = async (): Promise<ContractListener | null> => {
+  if (!isMarketplaceIndexEnabled()) {
+    if (isMarketplaceIndexSwitchedOn()) {
+      console.warn("[MarketplaceIndex] MARKETPLACE_VAULT_START_BLOCK이 설정되지 않아 인덱서를 실행하지 않습니다. (카탈로그 API는 503)");
+    }
+    return null;
+  }
+
+  const contractAddress = process.env.MARKETPLACE_VAULT_ADDRESS ?? "";
+
+  return initializeContractListener(MARKETPLACE_INDEX_DEFINITION, {
+    deliver: (event) => indexListingEvent(event),
+    revert: (event) => revertListingEvent(event),
+    onConfirmedThrough: (blockNumber, context) => updateIndexState(blockNumber, context, contractAddress),
+  });
+};
+
+/**
+ * 인덱서의 진행 상태를 조회합니다.
+ * 인덱서가 아직 실행된 적 없거나, 다른 컨트랙트나 다른 체인을 인덱싱했거나, Redis에 연결할 수 없으면 null을 반환합니다.
+ *
+ * 최초 백필 중에도 상태는 기록되므로, 조회 결과를 사용하기 전에 ready를 확인해야 합니다.
+ * 지연은 조회 시점의 체인 헤드 기준으로 계산합니다. (indexReadiness.service.ts)
+ */
+export const getMarketplaceIndexState = async (): Promise<MarketplaceIndexStatus | null> => {
+  if (!isMarketplaceIndexEnabled()) {
+    return null;
+  }
+
+  try {
+    const raw = await Promise.race([
+      ensureRedisConnected().then(() => redisConnection.get(META_KEY)),
+      new Promise<never>((_, reject) =>
+        setTimeout(() => reject(new Error("Redis 응답 시간 초과")), STATE_TIMEOUT_MS),
+      ),
+    ]);
+    if (!raw) {
+      return null;
+    }
+
+    const state = JSON.parse(raw) as MarketplaceIndexState;
+    const contractAddress = process.env.MARKETPLACE_VAULT_ADDRESS?.toLowerCase();
+    if (!contractAddress || state.contractAddress !== contractAddress) {
+      return null;
+    }
+
+    const readiness = await resolveIndexReadiness(state, resolveMaxLagBlocks());
+    return readiness ? { ...state, ...readiness } : null;
+  } catch (error) {
+    console.warn("[MarketplaceIndex] 인덱스 상태 조회 실패:", error);
+    return null;
+  }
+};
+
+const matchesFilters = (listing: IndexedListing, query: ListingQuery, now: number): boolean => {
+  // 만료되었지만 아직 회수되지 않은 리스팅은 구매할 수 없으므로 제외합니다. (컨트랙트: block.timestamp < expiresAt)
+  if (listing.status !== "Active" || listing.expiresAt <= now) {
+    return false;
+  }
+  if (query.itemId !== undefined && listing.itemId !== query.itemId) {
+    return false;
+  }
+  if (query.seller !== undefined && listing.seller.toLowerCase() !== query.seller.toLowerCase()) {
+    return false;
+  }
+  const price = BigInt(listing.price);
+  if (query.minPrice !== undefined && price < query.minPrice) {
+    return false;
+  }
+  if (query.maxPrice !== undefined && price > query.maxPrice) {
+    return false;
+  }
+  if (query.expiresAfter !== undefined && listing.expiresAt < query.expiresAfter) {
+    return false;
+  }
+  if (query.expiresBefore !== undefined && listing.expiresAt > query.expiresBefore) {
+    return false;
+  }
+  return true;
+};
+
+/**
+ * 정렬 기준에 해당하는 필터를 정렬 인덱스의 사전순 범위로 변환합니다.
+ * 멤버가 "<값>:<listingId>" 형태이므로 "[<값>:" 은 그 값 이상, "[<값>;" 은 그 값 이하를 뜻합니다.
+ */
+const resolveLexRange = (query: ListingQuery, now: number): { min: string; max: string } => {
+  let lower: bigint | number | undefined;
+  let upper: bigint | number | undefined;
+
+  if (query.sort === "price") {
+    lower = query.minPrice;
+    upper = query.maxPrice;
+  } else if (query.sort === "expiresAt") {
+    lower = Math.max(query.expiresAfter ?? 0, now + 1);
+    upper = query.expiresBefore;
+  }
+
+  return {
+    min: lower !== undefined ? `[${padSortValue(lower)}:` : "-",
+    max: upper !== undefined ? `[${padSortValue(upper)};` : "+",
+  };
+};
+
+/**
+ * 인덱스에서 활성 리스팅을 조회합니다.
+ *
+ * itemId 또는 seller로 대상 정렬 인덱스를 고르고(둘 다 없으면 전체),
+ * 정렬 기준과 같은 필터(가격 범위, 만료 범위)는 인덱스 범위로, 나머지 필터는 조회한 레코드에서 걸러냅니다.
+ * 만료 여부는 컨트랙트와 같이 최신 블록 시각(block.timestamp) 기준이며, 만료된 리스팅은 판매자가 회수하기 전까지 인덱스에 남지만 결과에서 제외됩니다.
+ * 한 번에 MAX_SCAN_PER_QUERY건까지만 살펴보며, 그 안에 limit을 채우지 못해도 nextCursor를 반환합니다.
+ */
+export const queryListings = async (query: ListingQuery): Promise<ListingPage> => {
+  const now = await getChainTimestamp();
+  const scope =
+    query.itemId !== undefined ? itemScope(query.itemId) : query.seller ? sellerScope(query.seller) : "all";
+  const key = sortKey(query.sort, scope);
+  let { min, max } = resolveLexRange(query, now);
+
+  if (query.cursor) {
+    const cursor = parseListingCursor(query.cursor);
+    if (!cursor || cursor.sort !== query.sort) {
+      throw new Error("Invalid cursor");
+    }
+    if (query.order === "asc") {
+      min = `(${cursor.member}`;
+    } else {
+      max = `(${cursor.member}`;
+    }
+  }
+
+  const items: IndexedListing[] = [];
+  let scanned = 0;
+  let lastMember: string | null = null;
+
+  while (scanned < MAX_SCAN_PER_QUERY) {
+    const members =
+      query.order === "asc"
+        ? await redisConnection.zrangebylex(key, min, max, "LIMIT", 0, SCAN_BATCH_SIZE)
+        : await redisConnection.zrevrangebylex(key, max, min, "LIMIT", 0, SCAN_BATCH_SIZE);
+    if (members.length === 0) {
+      return { items, nextCursor: null, checkedAt: now };
+    }
+
+    const rawRecords = await redisConnection.hmget(RECORDS_KEY, ...members.map(listingIdOfMember));
+
+    for (let index = 0; index < rawRecords.length; index++) {
+      scanned += 1;
+      lastMember = members[index];
+
+      const raw = rawRecords[index];
+      if (!raw) {
+        continue;
+      }
+
+      const listing = JSON.parse(raw) as IndexedListing;
+      if (!matchesFilters(listing, query, now)) {
+        continue;
+      }
+
+      items.push(listing);
+      if (items.length >= query.limit) {
+        return { items, nextCursor: encodeListingCursor(query.sort, lastMember), checkedAt: now };
+      }
+    }
+
+    if (members.length < SCAN_BATCH_SIZE) {
+      return { items, nextCursor: null, checkedAt: now };
+    }
+
+    if (query.order === "asc") {
+      min = `(${lastMember}`;
+    } else {
+      max = `(${lastMember}`;
+    }
+  }
+
+  return {
+    items,
+    nextCursor: lastMember !== null ? encodeListingCursor(query.sort, lastMember) : null,
+    checkedAt: now,
+  };
+};
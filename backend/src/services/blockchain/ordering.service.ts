@@ -0,0 +1,129 @@
+import { redisConnection } from "../../config/redis.config";
+import { LISTENER_DEFINITIONS } from "../../config/listeners.config";
+import { EVENT_REVERTED_JOB_NAME } from "./listeners/base.listener";
+
+const ORDERING_KEY_PREFIX = "blockchain:ordering";
+const POSITION_MULTIPLIER = 100_000;
+const DEFAULT_RETRY_DELAY_MS = 1_000;
+// 전달을 마친 작업 ID를 기억하는 기간 (분배 작업 재시도보다 충분히 길어야 함)
+const RELEASED_TTL_SECONDS = 7 * 24 * 60 * 60;
+
+/**
+ * 아직 전달을 마치지 않은 작업만 대기 목록에 등록하는 Lua 스크립트입니다.
+ * KEYS[1]: 대기 목록, KEYS[2]: 전달을 마친 작업 목록
+ */
+const REGISTER_SCRIPT = `
+if redis.call("ZSCORE", KEYS[2], ARGV[2]) then
+  return 0
+end
+return redis.call("ZADD", KEYS[1], "NX", ARGV[1], ARGV[2])
+`;
+
+/**
+ * 대기 목록에서 작업을 제거하고 전달을 마친 작업 목록에 기록하는 Lua 스크립트입니다.
+ * 오래된 기록은 RELEASED_TTL_SECONDS가 지나면 함께 정리합니다.
+ */
+const RELEASE_SCRIPT = `
+redis.call("ZREM", KEYS[1], ARGV[1])
+redis.call("ZADD", KEYS[2], ARGV[2], ARGV[1])
+redis.call("ZREMRANGEBYSCORE", KEYS[2], "-inf", ARGV[2] - ARGV[3])
+redis.call("EXPIRE", KEYS[2], ARGV[3])
+return 1
+`;
+
+/**
+ * 순서 보장 대상 이벤트의 그룹 정보입니다.
+ */
+export interface OrderedEvent {
+  /** 그룹 키 (예: NftVault:tokenId:42). 같은 키의 이벤트는 블록/logIndex 순서대로 전달됩니다. */
+  groupKey: string;
+  /** blockNumber * 100000 + logIndex */
+  position: number;
+}
+
+const groupSetKey = (queueName: string, groupKey: string) => `${ORDERING_KEY_PREFIX}:${queueName}:${groupKey}`;
+const releasedSetKey = (queueName: string, groupKey: string) => `${groupSetKey(queueName, groupKey)}:released`;
+
+/**
+ * BLOCKCHAIN_ORDERING_RETRY_DELAY_MS 설정값을 반환합니다. (기본 1초)
+ * 앞선 이벤트를 기다리는 작업이 다시 확인될 때까지의 지연 시간입니다.
+ */
+export const resolveOrderingRetryDelayMs = (): number => {
+  const value = Number(process.env.BLOCKCHAIN_ORDERING_RETRY_DELAY_MS);
+  return Number.isInteger(value) && value > 0 ? value : DEFAULT_RETRY_DELAY_MS;
+};
+
+/**
+ * 작업 페이로드에서 순서 보장 그룹을 계산합니다.
+ *
+ * 페이로드의 contract 필드로 리스너 정의를 찾아 orderingKey 필드 값을 그룹 키로 사용합니다.
+ * 그룹은 리스너(이벤트 큐)별로 나뉩니다. 이벤트 큐마다 분배 워커가 따로 실행되어 큐 사이의 적재 순서를
+ * 보장할 수 없으므로, 같은 tokenId라도 다른 컨트랙트의 이벤트(예: NftLocked와 NFTListed) 사이의 순서는 보장하지 않습니다.
+ * EventReverted 작업은 원래 이벤트의 페이로드로 계산하므로 원래 이벤트와 같은 그룹에 속하며,
+ * 같은 위치에서는 작업 ID 순서("event-" < "reverted-")에 따라 원래 이벤트 뒤에 전달됩니다.
+ *
+ * @returns 순서 보장 대상이 아니면 null
+ */
+export const resolveOrderedEvent = (jobName: string, data: Record<string, unknown>): OrderedEvent | null => {
+  const payload =
+    jobName === EVENT_REVERTED_JOB_NAME ? (data.originalPayload as Record<string, unknown> | undefined) : data;
+  if (!payload) {
+    return null;
+  }
+
+  const definition = LISTENER_DEFINITIONS.find((item) => item.name === payload.contract);
+  const field = definition?.orderingKey;
+  const value = field ? payload[field] : undefined;
+  const blockNumber = Number(payload.blockNumber);
+  const logIndex = Number(payload.logIndex);
+
+  if (!field || value === undefined || value === null || !Number.isInteger(blockNumber) || !Number.isInteger(logIndex)) {
+    return null;
+  }
+
+  return {
+    groupKey: `${definition.name}:${field}:${String(value)}`,
+    position: blockNumber * POSITION_MULTIPLIER + logIndex,
+  };
+};
+
+/**
+ * 작업을 그룹의 대기 목록에 등록합니다. 이미 등록되어 있거나 전달을 마친 작업이면 무시합니다.
+ *
+ * 분배 워커가 싱크 큐에 적재하기 직전과, 싱크 워커가 작업을 처리하기 직전에 호출합니다.
+ * 분배 작업이 재시도되면 이미 전달된 싱크 작업은 add()가 무시되어 다시 처리되지 않으므로,
+ * 전달을 마친 작업을 다시 등록하면 그룹의 맨 앞에서 영원히 풀리지 않습니다. 이를 막기 위해 전달 기록을 확인합니다.
+ */
+export const registerOrderedJob = async (queueName: string, event: OrderedEvent, jobId: string): Promise<void> => {
+  await redisConnection.eval(
+    REGISTER_SCRIPT,
+    2,
+    groupSetKey(queueName, event.groupKey),
+    releasedSetKey(queueName, event.groupKey),
+    event.position,
+    jobId,
+  );
+};
+
+/**
+ * 작업이 그룹에서 가장 앞선 미전달 이벤트인지 확인합니다.
+ */
+export const isOrderedJobAtHead = async (queueName: string, event: OrderedEvent, jobId: string): Promise<boolean> => {
+  const [head] = await redisConnection.zrange(groupSetKey(queueName, event.groupKey), 0, 0);
+  return head === undefined || head === jobId;
+};
+
+/**
+ * 전달이 끝났거나 데드레터 작업이 삭제된 작업을 그룹에서 제거하여 다음 이벤트가 진행되도록 합니다.
+ */
+export const releaseOrderedJob = async (queueName: string, event: OrderedEvent, jobId: string): Promise<void> => {
+  await redisConnection.eval(
+    RELEASE_SCRIPT,
+    2,
+    groupSetKey(queueName, event.groupKey),
+    releasedSetKey(queueName, event.groupKey),
+    jobId,
+    Math.floor(Date.now() / 1000),
+    RELEASED_TTL_SECONDS,
+  );
+};
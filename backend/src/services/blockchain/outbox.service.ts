@@ -0,0 +1,173 @@
+import { randomUUID } from "crypto";
+import { Queue } from "bullmq";
+import { redisConnection } from "../../config/redis.config";
+import { CheckpointKey, formatCheckpointKey, toRedisCheckpointKey } from "./checkpoint.service";
+
+const OUTBOX_KEY_PREFIX = "blockchain:outbox";
+const DEFAULT_RELAY_INTERVAL_MS = 1000;
+const RELAY_BATCH_SIZE = 100;
+
+/**
+ * 아웃박스 항목들을 추가하고 체크포인트를 전진시키는 Lua 스크립트입니다.
+ * 두 작업이 한 번에 실행되므로, 체크포인트가 전진했다면 그 블록까지의 이벤트는 반드시 아웃박스에 있습니다.
+ * 체크포인트는 더 높은 값으로만 갱신하며, 재조직으로 되돌릴 때(ARGV[2] = "1")만 더 낮은 값으로 갱신합니다.
+ *
+ * KEYS[1]: 체크포인트 키, KEYS[2]: 아웃박스 키
+ * ARGV[1]: 새 체크포인트 블록 번호, ARGV[2]: 되돌리기 여부, ARGV[3..]: 아웃박스 항목(JSON)
+ */
+const COMMIT_SCRIPT = `
+for i = 3, #ARGV do
+  redis.call("RPUSH", KEYS[2], ARGV[i])
+end
+local current = redis.call("GET", KEYS[1])
+if current == false or ARGV[2] == "1" or tonumber(current) < tonumber(ARGV[1]) then
+  redis.call("SET", KEYS[1], ARGV[1])
+  return 1
+end
+return 0
+`;
+
+/**
+ * 큐에 적재할 작업 한 건입니다.
+ */
+export interface OutboxEntry {
+  id: string;
+  /** 작업 이름 (이벤트 이름 또는 EventReverted) */
+  name: string;
+  data: Record<string, unknown>;
+  jobId: string;
+  /** 적재하기 전에 큐에서 지울 작업 ID (재조직 보상 시 원래 작업) */
+  removeJobId?: string;
+  createdAt: string;
+}
+
+/**
+ * 리스너 하나의 트랜잭셔널 아웃박스입니다.
+ */
+export interface EventOutbox {
+  /** 다음 commit()에서 기록할 작업을 추가합니다. */
+  stage(entry: Omit<OutboxEntry, "id" | "createdAt">): void;
+  /**
+   * 추가된 작업들과 체크포인트(blockNumber)를 Redis에 원자적으로 기록하고 릴레이를 깨웁니다.
+   * 실패하면 추가된 작업을 그대로 두고 throw하므로, 다음 commit()에서 함께 다시 기록됩니다.
+   * rewind가 true이면 체크포인트가 더 높아도 blockNumber로 되돌립니다. (재조직 후 다시 조회할 구간)
+   */
+  commit(blockNumber: number, rewind?: boolean): Promise<void>;
+  /** 아직 큐로 옮기지 않은 항목 수 (기록 대기 중인 항목 포함) */
+  size(): Promise<number>;
+  /** 릴레이를 멈춥니다. 남은 항목은 다음 실행 때 옮깁니다. */
+  stop(): Promise<void>;
+}
+
+/**
+ * BLOCKCHAIN_OUTBOX_RELAY_INTERVAL_MS 설정값을 반환합니다. (기본 1초)
+ */
+const resolveRelayIntervalMs = (): number => {
+  const value = Number(process.env.BLOCKCHAIN_OUTBOX_RELAY_INTERVAL_MS);
+  return Number.isInteger(value) && value > 0 ? value : DEFAULT_RELAY_INTERVAL_MS;
+};
+
+/**
+ * 체크포인트 키에 대응하는 아웃박스 Redis 키를 반환합니다.
+ */
+export const toOutboxKey = (checkpointKey: CheckpointKey): string =>
+  `${OUTBOX_KEY_PREFIX}:${formatCheckpointKey(checkpointKey)}`;
+
+/**
+ * 아웃박스 항목을 큐에 적재합니다.
+ * 작업 ID가 결정적이므로 이미 옮긴 항목을 다시 적재해도 큐에서 중복으로 무시됩니다.
+ */
+const relayEntry = async (queue: Queue<Record<string, unknown>>, entry: OutboxEntry): Promise<void> => {
+  if (entry.removeJobId) {
+    await queue.remove(entry.removeJobId);
+  }
+  await queue.add(entry.name, entry.data, { jobId: entry.jobId });
+};
+
+/**
+ * 리스너의 트랜잭셔널 아웃박스와 릴레이를 생성합니다.
+ *
+ * 동작 방식:
+ * 1. 확정된 이벤트는 큐 대신 stage()로 메모리에 모아 둡니다.
+ * 2. 확정 처리가 끝나면 commit()이 모아 둔 이벤트와 체크포인트를 Lua 스크립트로 한 번에 기록합니다.
+ * 3. 릴레이가 아웃박스(Redis 리스트)의 항목을 순서대로 큐에 적재하고, 적재한 항목만 LREM으로 지웁니다.
+ *
+ * 큐 적재가 실패해도 항목은 아웃박스에 남아 다음 주기에 다시 시도하므로,
+ * Redis 일시 장애로 이벤트를 건너뛴 채 체크포인트만 전진하는 일이 없습니다.
+ * 항목을 지우기 전에 프로세스가 종료되면 다시 적재될 수 있으나, 결정적 작업 ID로 중복이 걸러집니다.
+ */
+export const createEventOutbox = (options: {
+  listenerName: string;
+  checkpointKey: CheckpointKey;
+  queue: Queue<Record<string, unknown>>;
+}): EventOutbox => {
+  const { listenerName, checkpointKey, queue } = options;
+  const logTag = `[${listenerName}Outbox]`;
+  const outboxKey = toOutboxKey(checkpointKey);
+  const staged: OutboxEntry[] = [];
+  let relaying: Promise<void> = Promise.resolve();
+  let relayRequested = false;
+  let stopped = false;
+
+  const relayPending = async (): Promise<void> => {
+    while (!stopped) {
+      const raw = await redisConnection.lrange(outboxKey, 0, RELAY_BATCH_SIZE - 1);
+      if (raw.length === 0) {
+        return;
+      }
+
+      for (const item of raw) {
+        await relayEntry(queue, JSON.parse(item) as OutboxEntry);
+        await redisConnection.lrem(outboxKey, 1, item);
+      }
+    }
+  };
+
+  const relay = () => {
+    if (relayRequested) {
+      return;
+    }
+    relayRequested = true;
+    relaying = relaying
+      .catch(() => undefined)
+      .then(async () => {
+        relayRequested = false;
+        await relayPending();
+      })
+      .catch((error) => {
+        console.error(`${logTag} 큐 적재 실패 (다음 주기에 재시도)`, error);
+      });
+  };
+
+  relay();
+  const timer = setInterval(relay, resolveRelayIntervalMs());
+
+  return {
+    stage: (entry) => {
+      staged.push({ ...entry, id: randomUUID(), createdAt: new Date().toISOString() });
+    },
+    commit: async (blockNumber, rewind = false) => {
+      const entries = [...staged];
+      await redisConnection.eval(
+        COMMIT_SCRIPT,
+        2,
+        toRedisCheckpointKey(checkpointKey),
+        outboxKey,
+        String(Math.floor(blockNumber)),
+        rewind ? "1" : "0",
+        ...entries.map((entry) => JSON.stringify(entry)),
+      );
+      staged.splice(0, entries.length);
+
+      if (entries.length > 0) {
+        relay();
+      }
+    },
+    size: async () => staged.length + (await redisConnection.llen(outboxKey)),
+    stop: async () => {
+      clearInterval(timer);
+      stopped = true;
+      await relaying;
+    },
+  };
+};
@@ -0,0 +1,236 @@
+import { Contract, EventLog, Interface, LogDescription } from "ethers";
+import { Queue } from "bullmq";
+import {
+  ContractListenerDefinition,
+  getQueueListenerDefinitions,
+  resolveListenerAddress,
+} from "../../config/listeners.config";
+import { ensureRedisConnected } from "../../config/redis.config";
+import { getProvider } from "../../utils/contract";
+import { backfillInChunks } from "./backfill.service";
+import { createEventEnricher } from "./enrichment.service";
+import {
+  buildEventJobId,
+  buildPayload,
+  createEventQueue,
+  loadArtifactAbi,
+  resolveEventJob,
+} from "./listeners/base.listener";
+
+const DEFAULT_MAX_BLOCKS = 100_000;
+const DEFAULT_MAX_EVENTS = 5_000;
+
+/**
+ * 과거 이벤트 재전송 요청입니다.
+ */
+export interface ReplayRequest {
+  /** 리스너 레지스트리 이름 (예: NftVault, MarketplaceVault) */
+  listenerName: string;
+  fromBlock: number;
+  toBlock: number;
+  /** 재전송할 이벤트 이름 목록 (생략하면 리스너의 모든 이벤트) */
+  events?: string[];
+  /** true면 큐에 적재하지 않고 보낼 이벤트만 반환합니다. */
+  dryRun: boolean;
+}
+
+export interface ReplayedEvent {
+  eventName: string;
+  jobId: string;
+  blockNumber: number;
+  blockHash: string;
+  transactionHash: string;
+  logIndex: number;
+  payload: Record<string, unknown>;
+}
+
+export interface ReplayResult {
+  replayId: string;
+  listenerName: string;
+  queueName: string;
+  fromBlock: number;
+  toBlock: number;
+  events: string[];
+  dryRun: boolean;
+  /** 적재한(dry run이면 적재할) 이벤트 수 */
+  total: number;
+  items: ReplayedEvent[];
+}
+
+/**
+ * 잘못된 재전송 요청 오류를 생성합니다. (status 400, 관리자 API 응답 코드로 사용)
+ */
+const invalidReplayRequest = (message: string): Error & { status: number } =>
+  Object.assign(new Error(message), { status: 400 });
+
+/**
+ * BLOCKCHAIN_REPLAY_MAX_BLOCKS 설정값을 반환합니다. (기본 100,000블록)
+ * 한 번의 재전송 요청으로 조회할 수 있는 최대 블록 수입니다.
+ */
+const resolveMaxBlocks = (): number => {
+  const value = Number(process.env.BLOCKCHAIN_REPLAY_MAX_BLOCKS);
+  return Number.isInteger(value) && value > 0 ? value : DEFAULT_MAX_BLOCKS;
+};
+
+/**
+ * BLOCKCHAIN_REPLAY_MAX_EVENTS 설정값을 반환합니다. (기본 5,000건)
+ * 한 번의 재전송 요청으로 적재(dry run이면 반환)할 수 있는 최대 이벤트 수입니다.
+ */
+const resolveMaxEvents = (): number => {
+  const value = Number(process.env.BLOCKCHAIN_REPLAY_MAX_EVENTS);
+  return Number.isInteger(value) && value > 0 ? value : DEFAULT_MAX_EVENTS;
+};
+
+/**
+ * 재전송 대상 리스너 정의를 찾습니다. 큐로 전달하는 리스너만 재전송할 수 있습니다.
+ * 활성화 여부와 관계없이 레지스트리의 모든 항목과 MultiTokenFactory를 대상으로 합니다.
+ */
+const resolveReplayDefinition = (listenerName: string): ContractListenerDefinition & { queueName: string } => {
+  const definitions = getQueueListenerDefinitions();
+  const definition = definitions.find((item) => item.name === listenerName);
+  if (!definition) {
+    throw invalidReplayRequest(
+      `Unknown listener: ${listenerName} (available: ${definitions.map((item) => item.name).join(", ")})`,
+    );
+  }
+  return definition as ContractListenerDefinition & { queueName: string };
+};
+
+/**
+ * 지정한 블록 구간의 과거 이벤트를 다시 조회하여 replay 플래그와 함께 큐에 적재합니다.
+ *
+ * 실행 흐름:
+ * 1. 리스너 레지스트리에서 컨트랙트 주소, ABI, 큐 이름 확인
+ * 2. backfillInChunks()로 구간을 청크로 나누어 이벤트 조회 (리스너 백필과 같은 청크 축소/재시도 로직)
+ * 3. 구간 전체를 조회한 뒤 블록/logIndex 순서로 정렬하고, 실시간 전달과 같이 블록/트랜잭션/토큰 정보를 추가한 뒤
+ *    페이로드에 replay: true, replayId를 붙여 적재
+ *
+ * 블록 구간은 BLOCKCHAIN_REPLAY_MAX_BLOCKS, 대상 이벤트 수는 BLOCKCHAIN_REPLAY_MAX_EVENTS를 넘을 수 없습니다. (400 오류)
+ * 이벤트 수는 조회 중에 확인하여 한도를 넘으면 아무것도 적재하지 않고 중단합니다.
+ *
+ * 실시간 리스너의 체크포인트와 확정 추적기는 건드리지 않습니다.
+ * 작업 ID는 재전송마다 새 replayId를 사용하므로, 원래 작업이 큐에 남아 있어도 중복으로 무시되지 않습니다.
+ * 확정 깊이를 기다리지 않으므로 아직 확정되지 않은 최근 블록은 지정하지 않는 것이 좋습니다.
+ */
+export const replayHistoricalEvents = async (request: ReplayRequest): Promise<ReplayResult> => {
+  const { listenerName, fromBlock, toBlock, dryRun } = request;
+  const definition = resolveReplayDefinition(listenerName);
+
+  if (!Number.isInteger(fromBlock) || !Number.isInteger(toBlock) || fromBlock < 0 || toBlock < fromBlock) {
+    throw invalidReplayRequest("fromBlock and toBlock must be non-negative integers with fromBlock <= toBlock");
+  }
+  const maxBlocks = resolveMaxBlocks();
+  if (toBlock - fromBlock + 1 > maxBlocks) {
+    throw invalidReplayRequest(`Block range exceeds the maximum of ${maxBlocks} blocks; split the replay into smaller ranges`);
+  }
+  const maxEvents = resolveMaxEvents();
+
+  const events = request.events && request.events.length > 0 ? [...new Set(request.events)] : definition.events;
+  const unknownEvents = events.filter((eventName) => !definition.events.includes(eventName));
+  if (unknownEvents.length > 0) {
+    throw invalidReplayRequest(
+      `Listener ${listenerName} does not handle events: ${unknownEvents.join(", ")} (available: ${definition.events.join(", ")})`,
+    );
+  }
+
+  const provider = getProvider();
+  const latestBlock = await provider.getBlockNumber();
+  if (toBlock > latestBlock) {
+    throw invalidReplayRequest(`toBlock ${toBlock} is beyond the latest block ${latestBlock}`);
+  }
+
+  const chainId = (await provider.getNetwork()).chainId.toString();
+  const iface = new Interface(loadArtifactAbi(definition.artifact));
+  const contract = new Contract(resolveListenerAddress(definition), iface, provider);
+  const enricher = createEventEnricher({ definition, chainId, getProvider: () => provider });
+  const replayId = `replay${Date.now().toString(36)}`;
+  const items: ReplayedEvent[] = [];
+
+  let queue: Queue<Record<string, unknown>> | null = null;
+  if (!dryRun) {
+    await ensureRedisConnected();
+    queue = createEventQueue(definition.queueName);
+  }
+
+  console.log("[EventReplay] 재전송 시작", { replayId, listenerName, fromBlock, toBlock, events, dryRun });
+
+  try {
+    await backfillInChunks({
+      label: "EventReplay",
+      fromBlock,
+      toBlock,
+      fetchChunk: async (chunkFrom, chunkTo) => {
+        const chunkItems: ReplayedEvent[] = [];
+
+        for (const eventName of events) {
+          const logs = await contract.queryFilter(contract.getEvent(eventName), chunkFrom, chunkTo);
+          logs.forEach((log) => {
+            const eventLog = log as EventLog;
+            const parsed = iface.parseLog(eventLog) as LogDescription;
+            const job = resolveEventJob(definition, parsed);
+            if (job === null) {
+              return;
+            }
+            const jobId = buildEventJobId(
+              chainId,
+              { transactionHash: eventLog.transactionHash, logIndex: eventLog.index },
+              replayId,
+            );
+
+            chunkItems.push({
+              eventName: job.name,
+              jobId,
+              blockNumber: eventLog.blockNumber,
+              blockHash: eventLog.blockHash,
+              transactionHash: eventLog.transactionHash,
+              logIndex: eventLog.index,
+              payload: buildPayload(parsed, eventLog, definition, job),
+            });
+          });
+        }
+
+        items.push(...chunkItems);
+        return chunkItems.length;
+      },
+      // fetchChunk에서 throw하면 재시도되므로, 한도 초과는 청크가 끝날 때 확인합니다.
+      onChunkComplete: async (chunkToBlock) => {
+        if (items.length > maxEvents) {
+          throw invalidReplayRequest(
+            `Replay matches more than ${maxEvents} events by block ${chunkToBlock}; narrow the block range or events`,
+          );
+        }
+      },
+    });
+
+    items.sort((a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex);
+
+    // 블록 정보는 블록당 한 번만 조회합니다. (EventEnricher 캐시)
+    for (const item of items) {
+      item.payload = { ...(await enricher.enrich(item)), replay: true, replayId };
+    }
+
+    for (const item of items) {
+      await queue?.add(item.eventName, item.payload, { jobId: item.jobId });
+    }
+  } finally {
+    await queue?.close();
+  }
+
+  console.log(`[EventReplay] ${dryRun ? "dry run 완료 (적재하지 않음)" : "재전송 적재 완료"}`, {
+    replayId,
+    listenerName,
+    total: items.length,
+  });
+
+  return {
+    replayId,
+    listenerName,
+    queueName: definition.queueName,
+    fromBlock,
+    toBlock,
+    events,
+    dryRun,
+    total: items.length,
+    items,
+  };
+};
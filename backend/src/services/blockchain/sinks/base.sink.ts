@@ -0,0 +1,52 @@
+import { Queue } from "bullmq";
+import { EventSinkDefinition, SINK_DEFINITIONS } from "../../../config/sinks.config";
+import { createEventQueue } from "../listeners/base.listener";
+
+/**
+ * 싱크로 전달되는 이벤트 한 건입니다.
+ */
+export interface SinkEvent {
+  /** 이벤트 ID (원래 이벤트 작업 ID, 재시도해도 동일) */
+  id: string;
+  /** 이벤트(작업) 이름 (예: NftLocked, EventReverted) */
+  name: string;
+  payload: Record<string, unknown>;
+}
+
+/**
+ * 이벤트 싱크입니다.
+ * deliver()가 throw하면 싱크 큐의 재시도 정책에 따라 다시 시도됩니다.
+ */
+export interface EventSink {
+  readonly definition: EventSinkDefinition;
+  deliver(event: SinkEvent): Promise<void>;
+  close?(): Promise<void>;
+}
+
+/**
+ * 싱크별 BullMQ 큐 이름을 반환합니다.
+ */
+export const toSinkQueueName = (definition: Pick<EventSinkDefinition, "name">): string =>
+  `blockchain-sink-${definition.name}`;
+
+/**
+ * 싱크 큐를 생성합니다. 싱크 정의의 재시도 정책이 기본 작업 옵션으로 적용됩니다.
+ */
+export const createSinkQueue = (definition: EventSinkDefinition): Queue<Record<string, unknown>> =>
+  createEventQueue(toSinkQueueName(definition), definition.retry);
+
+/**
+ * 큐 이름에 해당하는 싱크 정의를 찾습니다. 싱크 큐가 아니면 undefined를 반환합니다.
+ */
+export const findSinkDefinitionByQueueName = (queueName: string): EventSinkDefinition | undefined =>
+  SINK_DEFINITIONS.find((definition) => toSinkQueueName(definition) === queueName);
+
+/**
+ * 싱크가 저장하거나 출력할 직렬화 레코드를 구성합니다. (redis-stream, file, stdout 공통)
+ */
+export const toSinkRecord = (event: SinkEvent): Record<string, unknown> => ({
+  id: event.id,
+  event: event.name,
+  payload: event.payload,
+  deliveredAt: new Date().toISOString(),
+});
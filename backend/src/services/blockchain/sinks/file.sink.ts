@@ -0,0 +1,30 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { EventSinkDefinition } from "../../../config/sinks.config";
+import { EventSink, toSinkRecord } from "./base.sink";
+
+const DEFAULT_FILE_PATH = path.resolve(__dirname, "../../../../data/events.ndjson");
+
+/**
+ * 이벤트를 NDJSON 파일에 한 줄씩 추가하는 싱크를 생성합니다.
+ *
+ * - 파일 경로: BLOCKCHAIN_SINK_FILE_PATH (기본 backend/data/events.ndjson)
+ * - 프로세스 내부에서 쓰기를 직렬화하여 줄이 섞이지 않도록 합니다.
+ */
+export const createFileSink = (definition: EventSinkDefinition): EventSink => {
+  const filePath = process.env.BLOCKCHAIN_SINK_FILE_PATH ?? DEFAULT_FILE_PATH;
+  let writeChain: Promise<unknown> = Promise.resolve();
+
+  return {
+    definition,
+    deliver: (event) => {
+      const line = `${JSON.stringify(toSinkRecord(event))}\n`;
+      const task = writeChain.then(async () => {
+        await fs.mkdir(path.dirname(filePath), { recursive: true });
+        await fs.appendFile(filePath, line, "utf8");
+      });
+      writeChain = task.catch(() => undefined);
+      return task;
+    },
+  };
+};
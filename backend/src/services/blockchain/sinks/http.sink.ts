@@ -0,0 +1,85 @@
+import axios from "axios";
+import { EventSinkDefinition } from "../../../config/sinks.config";
+import { signWebhookPayload } from "../../../utils/webhookSignature";
+import { toKebabCase } from "../listeners/base.listener";
+import { EventSink } from "./base.sink";
+
+const resolveEnv = (key: string): string => {
+  const value = process.env[key];
+  if (!value) {
+    throw new Error(`환경 변수 ${key}가 설정되어 있지 않습니다.`);
+  }
+  return value;
+};
+
+/**
+ * WEBHOOK_SIGNING_SECRETS(쉼표 구분)에서 서명 시크릿 목록을 읽어옵니다.
+ * 키 교체 중에는 새 시크릿과 이전 시크릿을 함께 설정하면 두 시크릿으로 모두 서명합니다.
+ */
+export const resolveSigningSecrets = (): string[] =>
+  (process.env.WEBHOOK_SIGNING_SECRETS ?? "")
+    .split(",")
+    .map((secret) => secret.trim())
+    .filter((secret) => secret.length > 0);
+
+/**
+ * 메인 서버로 이벤트를 POST하는 싱크를 생성합니다.
+ *
+ * 전송 주소: ${MAIN_SERVER_API_URL}/api/events/<kebab-case 이벤트 이름>
+ *
+ * 이벤트 ID(chainId + transactionHash + logIndex 기반)를 Idempotency-Key 헤더로 전달하여
+ * 메인 서버에서도 재시도나 중복 전달을 식별할 수 있도록 합니다.
+ * 서명 시크릿이 설정되어 있으면 본문에 HMAC 서명을 붙입니다. (utils/webhookSignature.ts)
+ * 서명한 문자열과 전송하는 본문이 같아야 하므로 직접 직렬화하여 전송합니다.
+ */
+export const createHttpSink = (definition: EventSinkDefinition): EventSink => {
+  const mainServerApiUrl = resolveEnv("MAIN_SERVER_API_URL").replace(/\/+$/, "");
+
+  if (resolveSigningSecrets().length === 0) {
+    if (process.env.NODE_ENV === "production") {
+      throw new Error("환경 변수 WEBHOOK_SIGNING_SECRETS가 설정되어 있지 않습니다.");
+    }
+    console.warn(`[${definition.name}Sink] WEBHOOK_SIGNING_SECRETS가 없어 서명 없이 이벤트를 전송합니다.`);
+  }
+
+  return {
+    definition,
+    deliver: async (event) => {
+      const endpoint = `${mainServerApiUrl}/api/events/${toKebabCase(event.name)}`;
+      const rawBody = JSON.stringify(event.payload);
+      const secrets = resolveSigningSecrets();
+
+      try {
+        await axios.post(endpoint, rawBody, {
+          headers: {
+            "Content-Type": "application/json",
+            "Idempotency-Key": event.id,
+            ...(secrets.length > 0 ? signWebhookPayload({ secrets, eventId: event.id, rawBody }) : {}),
+          },
+        });
+        console.log(`[${definition.name}Sink] 이벤트 전송 성공`, {
+          eventId: event.id,
+          eventName: event.name,
+          endpoint,
+          payload: event.payload, // 전송되는 모든 파라미터 확인용
+        });
+      } catch (error: unknown) {
+        if (axios.isAxiosError(error)) {
+          console.error(`[${definition.name}Sink] 이벤트 전송 실패 (AxiosError)`, {
+            eventId: event.id,
+            eventName: event.name,
+            status: error.response?.status,
+            data: error.response?.data ?? error.message,
+          });
+        } else {
+          console.error(`[${definition.name}Sink] 이벤트 전송 실패`, {
+            eventId: event.id,
+            eventName: event.name,
+            error,
+          });
+        }
+        throw error;
+      }
+    },
+  };
+};
@@ -0,0 +1,26 @@
+import { EventSinkDefinition } from "../../../config/sinks.config";
+import { EventSink } from "./base.sink";
+import { createFileSink } from "./file.sink";
+import { createHttpSink } from "./http.sink";
+import { createRedisStreamSink } from "./redisStream.sink";
+import { createStdoutSink } from "./stdout.sink";
+
+export * from "./base.sink";
+
+/**
+ * 싱크 정의의 type에 맞는 싱크 인스턴스를 생성합니다.
+ */
+export const createEventSink = (definition: EventSinkDefinition): EventSink => {
+  switch (definition.type) {
+    case "http":
+      return createHttpSink(definition);
+    case "redis-stream":
+      return createRedisStreamSink(definition);
+    case "file":
+      return createFileSink(definition);
+    case "stdout":
+      return createStdoutSink(definition);
+    default:
+      throw new Error(`지원하지 않는 싱크 유형입니다: ${(definition as EventSinkDefinition).type}`);
+  }
+};
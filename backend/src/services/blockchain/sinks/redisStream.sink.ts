@@ -0,0 +1,39 @@
+import { EventSinkDefinition } from "../../../config/sinks.config";
+import { redisConnection } from "../../../config/redis.config";
+import { EventSink, toSinkRecord } from "./base.sink";
+
+const DEFAULT_STREAM_KEY = "blockchain:events";
+const DEFAULT_STREAM_MAXLEN = 100_000;
+
+/**
+ * Redis Stream에 이벤트를 추가하는 싱크를 생성합니다.
+ *
+ * - 스트림 키: BLOCKCHAIN_SINK_STREAM_KEY (기본 blockchain:events)
+ * - 최대 길이: BLOCKCHAIN_SINK_STREAM_MAXLEN (기본 100,000, 근사치로 잘라냄)
+ *
+ * 재시도 시 같은 이벤트가 다시 추가될 수 있으므로 소비자는 id 필드로 중복을 걸러야 합니다.
+ */
+export const createRedisStreamSink = (definition: EventSinkDefinition): EventSink => {
+  const streamKey = process.env.BLOCKCHAIN_SINK_STREAM_KEY ?? DEFAULT_STREAM_KEY;
+  const maxLen = Number(process.env.BLOCKCHAIN_SINK_STREAM_MAXLEN ?? DEFAULT_STREAM_MAXLEN);
+
+  return {
+    definition,
+    deliver: async (event) => {
+      const record = toSinkRecord(event);
+      await redisConnection.xadd(
+        streamKey,
+        "MAXLEN",
+        "~",
+        maxLen,
+        "*",
+        "id",
+        event.id,
+        "event",
+        event.name,
+        "data",
+        JSON.stringify(record),
+      );
+    },
+  };
+};
@@ -0,0 +1,12 @@
+import { EventSinkDefinition } from "../../../config/sinks.config";
+import { EventSink, toSinkRecord } from "./base.sink";
+
+/**
+ * 이벤트를 표준 출력에 NDJSON 한 줄로 출력하는 싱크를 생성합니다. (로컬 디버깅용)
+ */
+export const createStdoutSink = (definition: EventSinkDefinition): EventSink => ({
+  definition,
+  deliver: async (event) => {
+    process.stdout.write(`${JSON.stringify(toSinkRecord(event))}\n`);
+  },
+});
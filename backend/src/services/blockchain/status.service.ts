@@ -0,0 +1,249 @@
+import { hostname } from "os";
+import { Queue } from "bullmq";
+import { ensureRedisConnected, redisConnection } from "../../config/redis.config";
+import { getEnabledEventQueueNames } from "../../config/listeners.config";
+import { getEnabledSinkDefinitions } from "../../config/sinks.config";
+import type { ProviderSupervisorStatus } from "./connection.service";
+import { DEAD_LETTER_QUEUE_NAME, DeadLetterStats, getDeadLetterQueue, getDeadLetterStats } from "./deadLetter.service";
+import { createEventQueue } from "./listeners/base.listener";
+import { toSinkQueueName } from "./sinks";
+
+const LISTENER_STATUS_KEY = "blockchain:status:listeners";
+const WORKER_STATUS_KEY = "blockchain:status:workers";
+const DEFAULT_REPORT_INTERVAL_MS = 15_000;
+/** 보고가 이 시간보다 오래되면 해당 프로세스가 종료된 것으로 보고 상태 목록에서 제거합니다. */
+const PRUNE_AFTER_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * 리스너의 백필 진행 상황입니다.
+ */
+export interface BackfillProgress {
+  fromBlock: number;
+  toBlock: number;
+  /** 조회를 마친 마지막 블록 */
+  scannedThrough: number;
+  /** 0 ~ 1 */
+  progress: number;
+  startedAt: string;
+  completedAt: string | null;
+}
+
+/**
+ * 리스너 한 개의 상태입니다. 리스너 프로세스가 주기적으로 Redis에 기록합니다.
+ */
+export interface ListenerStatus {
+  name: string;
+  contractAddress: string;
+  chainId: string | null;
+  provider: ProviderSupervisorStatus;
+  /** 마지막으로 수신한 체인 헤드 블록 */
+  headBlock: number | null;
+  /** 모든 이벤트가 전달된 마지막 블록 (체크포인트) */
+  lastProcessedBlock: number | null;
+  lagBlocks: number | null;
+  /** 처리되지 않은 가장 오래된 블록이 생성된 뒤 지난 시간 (따라잡았으면 0) */
+  lagSeconds: number | null;
+  /** 확정 깊이를 기다리는 이벤트 수 */
+  pendingEvents: number;
+  /** 아웃박스에서 큐 적재를 기다리는 작업 수 (아웃박스를 사용하지 않으면 null) */
+  outboxEntries: number | null;
+  backfill: BackfillProgress | null;
+}
+
+/**
+ * 워커 한 개의 상태입니다. 워커 프로세스가 주기적으로 Redis에 기록합니다.
+ */
+export interface WorkerStatus {
+  queueName: string;
+  running: boolean;
+  paused: boolean;
+  concurrency: number;
+}
+
+/**
+ * 보고한 프로세스 정보가 붙은 상태 항목입니다.
+ */
+export type ReportedStatus<T> = T & {
+  hostname: string;
+  pid: number;
+  reportedAt: string;
+  /** 보고 주기의 3배 이상 갱신되지 않았으면 true (프로세스 중단 의심) */
+  stale: boolean;
+};
+
+export interface QueueStatus {
+  name: string;
+  waiting: number;
+  active: number;
+  delayed: number;
+  failed: number;
+}
+
+export interface BlockchainStatus {
+  listeners: ReportedStatus<ListenerStatus>[];
+  workers: ReportedStatus<WorkerStatus>[];
+  queues: QueueStatus[];
+  deadLetters: DeadLetterStats;
+  generatedAt: string;
+}
+
+const statusQueues = new Map<string, Queue<Record<string, unknown>>>();
+
+/**
+ * BLOCKCHAIN_STATUS_INTERVAL_MS 설정값을 반환합니다. (기본 15초)
+ */
+export const resolveStatusReportIntervalMs = (): number => {
+  const value = Number(process.env.BLOCKCHAIN_STATUS_INTERVAL_MS);
+  return Number.isInteger(value) && value > 0 ? value : DEFAULT_REPORT_INTERVAL_MS;
+};
+
+/**
+ * 상태를 주기적으로 Redis에 기록하는 보고자를 시작합니다.
+ *
+ * 리스너와 워커가 API 서버와 다른 프로세스에서 실행될 수 있으므로,
+ * 각 프로세스가 자신의 상태를 Redis 해시에 기록하고 상태 API는 이를 모아서 반환합니다.
+ * 해시 필드는 "호스트:PID:이름" 형식이라 여러 프로세스가 같은 해시를 함께 사용합니다.
+ *
+ * @param kind - listeners 또는 workers
+ * @param collect - 이름과 상태 목록을 반환하는 함수
+ * @returns 보고를 멈추고 자신이 기록한 항목을 삭제하는 함수
+ */
+export const startStatusReporter = <T>(
+  kind: "listeners" | "workers",
+  collect: () => Promise<Array<{ name: string; status: T }>>,
+): (() => Promise<void>) => {
+  const hashKey = kind === "listeners" ? LISTENER_STATUS_KEY : WORKER_STATUS_KEY;
+  const host = hostname();
+  const fieldPrefix = `${host}:${process.pid}:`;
+  const reportedFields = new Set<string>();
+  let reporting: Promise<void> = Promise.resolve();
+
+  const report = () => {
+    reporting = reporting
+      .catch(() => undefined)
+      .then(async () => {
+        const entries = await collect();
+        const reportedAt = new Date().toISOString();
+        const fields: string[] = [];
+
+        entries.forEach(({ name, status }) => {
+          const field = `${fieldPrefix}${name}`;
+          reportedFields.add(field);
+          fields.push(field, JSON.stringify({ ...status, hostname: host, pid: process.pid, reportedAt }));
+        });
+
+        if (fields.length > 0) {
+          await redisConnection.hset(hashKey, ...fields);
+        }
+      })
+      .catch((error) => {
+        console.warn(`[BlockchainStatus] ${kind} 상태 기록 실패`, error);
+      });
+  };
+
+  report();
+  const timer = setInterval(report, resolveStatusReportIntervalMs());
+
+  return async () => {
+    clearInterval(timer);
+    await reporting;
+    if (reportedFields.size > 0) {
+      await redisConnection.hdel(hashKey, ...reportedFields).catch(() => undefined);
+    }
+  };
+};
+
+/**
+ * Redis 해시에 기록된 상태 목록을 읽어 stale 여부를 표시합니다. 오래된 항목은 삭제합니다.
+ */
+const readReportedStatuses = async <T>(hashKey: string): Promise<ReportedStatus<T>[]> => {
+  const now = Date.now();
+  const staleAfterMs = resolveStatusReportIntervalMs() * 3;
+  const raw = await redisConnection.hgetall(hashKey);
+  const expired: string[] = [];
+  const statuses: ReportedStatus<T>[] = [];
+
+  Object.entries(raw).forEach(([field, value]) => {
+    const status = JSON.parse(value) as ReportedStatus<T>;
+    const age = now - Date.parse(status.reportedAt);
+    if (age > PRUNE_AFTER_MS) {
+      expired.push(field);
+      return;
+    }
+    statuses.push({ ...status, stale: age > staleAfterMs });
+  });
+
+  if (expired.length > 0) {
+    await redisConnection.hdel(hashKey, ...expired);
+  }
+
+  return statuses;
+};
+
+const getStatusQueue = (queueName: string): Queue<Record<string, unknown>> => {
+  let queue = statusQueues.get(queueName);
+  if (!queue) {
+    queue = createEventQueue(queueName);
+    statusQueues.set(queueName, queue);
+  }
+  return queue;
+};
+
+/**
+ * 이벤트 큐, 싱크 큐, 데드레터 큐의 작업 수를 조회합니다.
+ */
+const getQueueStatuses = async (): Promise<QueueStatus[]> => {
+  const queueNames = [
+    ...getEnabledEventQueueNames(),
+    ...getEnabledSinkDefinitions().map((definition) => toSinkQueueName(definition)),
+  ];
+
+  const queues: Array<[string, Queue<any>]> = [
+    ...queueNames.map((queueName): [string, Queue<any>] => [queueName, getStatusQueue(queueName)]),
+    [DEAD_LETTER_QUEUE_NAME, getDeadLetterQueue()],
+  ];
+
+  return Promise.all(
+    queues.map(async ([name, queue]) => {
+      const counts = await queue.getJobCounts("waiting", "active", "delayed", "failed");
+      return {
+        name,
+        waiting: counts.waiting ?? 0,
+        active: counts.active ?? 0,
+        delayed: counts.delayed ?? 0,
+        failed: counts.failed ?? 0,
+      };
+    }),
+  );
+};
+
+/**
+ * 리스너, 워커, 큐 상태를 모아 반환합니다. (GET /api/admin/blockchain/status)
+ */
+export const getBlockchainStatus = async (): Promise<BlockchainStatus> => {
+  await ensureRedisConnected();
+
+  const [listeners, workers, queues, deadLetters] = await Promise.all([
+    readReportedStatuses<ListenerStatus>(LISTENER_STATUS_KEY),
+    readReportedStatuses<WorkerStatus>(WORKER_STATUS_KEY),
+    getQueueStatuses(),
+    getDeadLetterStats(),
+  ]);
+
+  return {
+    listeners: listeners.sort((a, b) => a.name.localeCompare(b.name)),
+    workers: workers.sort((a, b) => a.queueName.localeCompare(b.queueName)),
+    queues,
+    deadLetters,
+    generatedAt: new Date().toISOString(),
+  };
+};
+
+/**
+ * 큐 작업 수 조회에 사용한 큐 연결을 종료합니다. (프로세스 종료 시 사용)
+ */
+export const closeStatusQueues = async (): Promise<void> => {
+  const queues = [...statusQueues.values()];
+  statusQueues.clear();
+  await Promise.all(queues.map((queue) => queue.close()));
+};
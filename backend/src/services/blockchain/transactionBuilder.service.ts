@@ -0,0 +1,434 @@
+import { Contract, Interface, isError } from "ethers";
+import { getMarketplaceContract, getProvider } from "../../utils/contract";
+import {
+  FEE_DENOMINATOR,
+  MarketplaceListing,
+  TokenAmount,
+  getMarketplaceListing,
+  getMarketplacePaymentToken,
+  toTokenAmount,
+} from "./marketplace.service";
+
+const GAME_ITEM_ABI = [
+  "function ownerOf(uint256 tokenId) view returns (address)",
+  "function getApproved(uint256 tokenId) view returns (address)",
+  "function isApprovedForAll(address owner, address operator) view returns (bool)",
+  "function approve(address to, uint256 tokenId)",
+  "function setApprovalForAll(address operator, bool approved)",
+];
+const ERC20_ABI = [
+  "function balanceOf(address account) view returns (uint256)",
+  "function allowance(address owner, address spender) view returns (uint256)",
+  "function approve(address spender, uint256 amount) returns (bool)",
+];
+const NFT_VAULT_ABI = [
+  "function lockNft(address nftContract, uint256 tokenId)",
+  "function lockNftBatch(address nftContract, uint256[] tokenIds)",
+];
+
+/** NftVault.lockNftBatch()가 한 번에 받는 최대 토큰 수 */
+export const MAX_LOCK_BATCH_SIZE = 100;
+
+/**
+ * 사용자가 지갑(MetaMask 등)으로 서명할 트랜잭션 한 건입니다.
+ */
+export interface UnsignedTransaction {
+  /** 호출할 함수 이름 (approve, setApprovalForAll, listNFT, lockNft, lockNftBatch 등) */
+  step: string;
+  description: string;
+  from: string;
+  to: string;
+  data: string;
+  value: string;
+  chainId: number;
+  /**
+   * 예상 가스 한도 (10진수 문자열)
+   * 앞 단계(승인 등)가 실행되어야 성공하는 트랜잭션은 미리 시뮬레이션할 수 없으므로 null입니다.
+   */
+  gasLimit: string | null;
+}
+
+export interface PreparedTransactions {
+  /** 순서대로 서명/전송해야 하는 트랜잭션 목록 */
+  transactions: UnsignedTransaction[];
+  /** 이미 충족되어 생략한 단계 (예: 승인이 이미 있으면 approve) */
+  skippedSteps: string[];
+}
+
+/**
+ * 구매 트랜잭션 준비 결과입니다.
+ */
+export interface PreparedPurchase extends PreparedTransactions {
+  listing: MarketplaceListing;
+  price: TokenAmount;
+  /** 플랫폼 수수료 (price * platformFeePercent / 10000, 소수점 이하 버림) */
+  fee: TokenAmount;
+  /** 판매자가 받는 금액 (price - fee) */
+  sellerProceeds: TokenAmount;
+  /** 컨트랙트에 저장된 수수료율 (10000 = 100%) */
+  platformFeePercent: number;
+  balance: TokenAmount;
+  /** 마켓플레이스에 대한 결제 토큰 승인 금액 */
+  allowance: TokenAmount;
+  /** 구매할 수 없는 사유 (비어 있으면 구매 가능, 사유가 있으면 transactions는 비어 있음) */
+  blockers: string[];
+}
+
+/**
+ * 트랜잭션 준비 요청이 잘못되었거나 실행하면 revert될 때의 오류입니다. (기본 status 400)
+ */
+const preflightError = (message: string, status = 400): Error & { status: number } =>
+  Object.assign(new Error(message), { status });
+
+/**
+ * 트랜잭션 준비에 필요한 체인 정보와 컨트랙트 주소입니다.
+ */
+interface BuildContext {
+  chainId: number;
+  walletAddress: string;
+  gameItem: Contract;
+}
+
+const resolveGameItemAddress = (): string => {
+  const address = process.env.CONTRACT_ADDRESS;
+  if (!address) {
+    throw new Error("CONTRACT_ADDRESS is required");
+  }
+  return address;
+};
+
+const resolveVaultAddress = (): string => {
+  const address = process.env.LOCKUP_VAULT_ADDRESS || process.env.NFT_VAULT_ADDRESS;
+  if (!address) {
+    throw new Error("LOCKUP_VAULT_ADDRESS is required");
+  }
+  return address;
+};
+
+const createBuildContext = async (walletAddress: string): Promise<BuildContext> => {
+  const provider = getProvider();
+  const network = await provider.getNetwork();
+  return {
+    chainId: Number(network.chainId),
+    walletAddress,
+    gameItem: new Contract(resolveGameItemAddress(), GAME_ITEM_ABI, provider),
+  };
+};
+
+/**
+ * 트랜잭션 요청을 만들고 가스를 추정합니다.
+ * simulate가 false이면(앞 단계가 아직 실행되지 않음) 추정하지 않습니다.
+ * 추정 중 revert되면 실행해도 실패하므로 사유와 함께 400 오류를 던집니다.
+ */
+export const toUnsignedTransaction = async (
+  context: { chainId: number; walletAddress: string },
+  step: string,
+  description: string,
+  to: string,
+  data: string,
+  simulate: boolean,
+): Promise<UnsignedTransaction> => {
+  let gasLimit: string | null = null;
+
+  if (simulate) {
+    try {
+      gasLimit = (await getProvider().estimateGas({ from: context.walletAddress, to, data })).toString();
+    } catch (error) {
+      if (isError(error, "CALL_EXCEPTION")) {
+        throw preflightError(`${step} would revert: ${error.reason ?? error.shortMessage}`);
+      }
+      throw error;
+    }
+  }
+
+  return {
+    step,
+    description,
+    from: context.walletAddress,
+    to,
+    data,
+    value: "0",
+    chainId: context.chainId,
+    gasLimit,
+  };
+};
+
+/**
+ * 지갑이 토큰들을 모두 소유하고 있는지 확인합니다.
+ * 존재하지 않는(발행되지 않았거나 소각된) 토큰은 ownerOf가 revert되므로 404로 처리합니다.
+ */
+const assertTokenOwner = async (context: BuildContext, tokenIds: string[]): Promise<void> => {
+  const owners: (string | null)[] = await Promise.all(
+    tokenIds.map(async (tokenId) => {
+      try {
+        return (await context.gameItem.ownerOf(BigInt(tokenId))) as string;
+      } catch (error) {
+        if (isError(error, "CALL_EXCEPTION")) {
+          return null;
+        }
+        throw error;
+      }
+    }),
+  );
+  const missing = tokenIds.filter((_, index) => owners[index] === null);
+  if (missing.length > 0) {
+    throw preflightError(`Token(s) ${missing.join(", ")} do not exist`, 404);
+  }
+
+  const notOwned = tokenIds.filter((_, index) => owners[index]?.toLowerCase() !== context.walletAddress.toLowerCase());
+  if (notOwned.length > 0) {
+    throw preflightError(`Wallet does not own token(s): ${notOwned.join(", ")}`);
+  }
+};
+
+/**
+ * operator가 토큰 하나를 옮길 수 있도록 승인하는 approve 단계를 준비합니다.
+ * 이미 approve 또는 setApprovalForAll로 승인되어 있으면 null을 반환합니다.
+ */
+const prepareTokenApproval = async (
+  context: BuildContext,
+  operator: string,
+  tokenId: string,
+  operatorLabel: string,
+): Promise<UnsignedTransaction | null> => {
+  const [approved, approvedForAll] = await Promise.all([
+    context.gameItem.getApproved(BigInt(tokenId)) as Promise<string>,
+    context.gameItem.isApprovedForAll(context.walletAddress, operator) as Promise<boolean>,
+  ]);
+  if (approvedForAll || approved.toLowerCase() === operator.toLowerCase()) {
+    return null;
+  }
+
+  return toUnsignedTransaction(
+    context,
+    "approve",
+    `Approve the ${operatorLabel} to transfer token ${tokenId}`,
+    await context.gameItem.getAddress(),
+    context.gameItem.interface.encodeFunctionData("approve", [operator, BigInt(tokenId)]),
+    true,
+  );
+};
+
+/**
+ * operator가 지갑의 모든 토큰을 옮길 수 있도록 승인하는 setApprovalForAll 단계를 준비합니다.
+ * 이미 승인되어 있으면 null을 반환합니다.
+ */
+const prepareApprovalForAll = async (
+  context: BuildContext,
+  operator: string,
+  operatorLabel: string,
+): Promise<UnsignedTransaction | null> => {
+  if (await context.gameItem.isApprovedForAll(context.walletAddress, operator)) {
+    return null;
+  }
+
+  return toUnsignedTransaction(
+    context,
+    "setApprovalForAll",
+    `Approve the ${operatorLabel} to transfer all of your items`,
+    await context.gameItem.getAddress(),
+    context.gameItem.interface.encodeFunctionData("setApprovalForAll", [operator, true]),
+    true,
+  );
+};
+
+/**
+ * 승인 단계와 실행 단계를 묶어 반환합니다.
+ * 승인 단계가 있으면 실행 단계는 승인 후에만 성공하므로 가스를 추정하지 않습니다.
+ */
+const withApproval = async (
+  approval: UnsignedTransaction | null,
+  approvalStep: string,
+  buildAction: (simulate: boolean) => Promise<UnsignedTransaction>,
+): Promise<PreparedTransactions> => {
+  const action = await buildAction(approval === null);
+  return {
+    transactions: approval ? [approval, action] : [action],
+    skippedSteps: approval ? [] : [approvalStep],
+  };
+};
+
+/**
+ * 마켓플레이스 리스팅 트랜잭션을 준비합니다. (approve → listNFT)
+ *
+ * listNFT는 토큰을 MarketplaceVault로 옮기므로 마켓플레이스에 대한 승인이 필요합니다.
+ *
+ * @param options.price - 판매 가격 (결제 토큰 최소 단위)
+ * @param options.durationSeconds - 리스팅 유지 시간 (초)
+ */
+export const prepareListingTransactions = async (options: {
+  walletAddress: string;
+  tokenId: string;
+  price: bigint;
+  durationSeconds: number;
+}): Promise<PreparedTransactions> => {
+  const { walletAddress, tokenId, price, durationSeconds } = options;
+  if (price <= 0n) {
+    throw preflightError("price must be greater than 0");
+  }
+
+  const context = await createBuildContext(walletAddress);
+  const marketplace = await getMarketplaceContract();
+  const marketplaceAddress = await marketplace.getAddress();
+
+  await assertTokenOwner(context, [tokenId]);
+  const approval = await prepareTokenApproval(context, marketplaceAddress, tokenId, "marketplace");
+
+  return withApproval(approval, "approve", (simulate) =>
+    toUnsignedTransaction(
+      context,
+      "listNFT",
+      `List token ${tokenId} on the marketplace`,
+      marketplaceAddress,
+      marketplace.interface.encodeFunctionData("listNFT", [BigInt(tokenId), price, BigInt(durationSeconds)]),
+      simulate,
+    ),
+  );
+};
+
+/**
+ * NftVault 락업 트랜잭션을 준비합니다.
+ * - 토큰 1개: approve → lockNft
+ * - 토큰 여러 개: setApprovalForAll → lockNftBatch (컨트랙트가 전체 승인을 요구함)
+ */
+export const prepareLockupTransactions = async (options: {
+  walletAddress: string;
+  tokenIds: string[];
+}): Promise<PreparedTransactions> => {
+  const { walletAddress, tokenIds } = options;
+  if (tokenIds.length === 0 || tokenIds.length > MAX_LOCK_BATCH_SIZE) {
+    throw preflightError(`tokenIds must contain 1 to ${MAX_LOCK_BATCH_SIZE} tokens`);
+  }
+  if (new Set(tokenIds).size !== tokenIds.length) {
+    throw preflightError("tokenIds must not contain duplicates");
+  }
+
+  const context = await createBuildContext(walletAddress);
+  const vaultAddress = resolveVaultAddress();
+  const vault = new Interface(NFT_VAULT_ABI);
+  const gameItemAddress = await context.gameItem.getAddress();
+
+  await assertTokenOwner(context, tokenIds);
+
+  if (tokenIds.length === 1) {
+    const [tokenId] = tokenIds;
+    const approval = await prepareTokenApproval(context, vaultAddress, tokenId, "vault");
+    return withApproval(approval, "approve", (simulate) =>
+      toUnsignedTransaction(
+        context,
+        "lockNft",
+        `Lock token ${tokenId} in the vault`,
+        vaultAddress,
+        vault.encodeFunctionData("lockNft", [gameItemAddress, BigInt(tokenId)]),
+        simulate,
+      ),
+    );
+  }
+
+  const approval = await prepareApprovalForAll(context, vaultAddress, "vault");
+  return withApproval(approval, "setApprovalForAll", (simulate) =>
+    toUnsignedTransaction(
+      context,
+      "lockNftBatch",
+      `Lock ${tokenIds.length} tokens in the vault`,
+      vaultAddress,
+      vault.encodeFunctionData("lockNftBatch", [gameItemAddress, tokenIds.map((tokenId) => BigInt(tokenId))]),
+      simulate,
+    ),
+  );
+};
+
+/**
+ * 마켓플레이스 구매 트랜잭션을 준비합니다. (결제 토큰 approve → buyNFT)
+ *
+ * buyNFT는 구매자에게서 수수료와 판매 대금을 각각 transferFrom으로 가져가므로,
+ * 잔액이나 승인 금액이 부족하면 사유를 알 수 없는 revert가 발생합니다.
+ * 미리 확인하여 구매할 수 없는 사유(blockers)를 반환하고, 구매할 수 있을 때만 트랜잭션을 준비합니다.
+ *
+ * 확인 항목:
+ * - 리스팅이 있는지 (없으면 404)
+ * - 리스팅이 Active이고 만료되지 않았는지 (최신 블록 시각 기준)
+ * - 구매자의 결제 토큰 잔액이 가격 이상인지
+ * - 마켓플레이스에 대한 승인 금액이 가격 이상인지 (부족하면 가격만큼 approve 단계 추가, 충분하면 생략)
+ */
+export const preparePurchaseTransactions = async (options: {
+  walletAddress: string;
+  tokenId: string;
+}): Promise<PreparedPurchase> => {
+  const { walletAddress, tokenId } = options;
+
+  const listing = await getMarketplaceListing(tokenId);
+  if (!listing) {
+    throw preflightError(`Token ${tokenId} is not listed`, 404);
+  }
+
+  const provider = getProvider();
+  const marketplace = await getMarketplaceContract();
+  const marketplaceAddress = await marketplace.getAddress();
+  const paymentToken = await getMarketplacePaymentToken();
+  const erc20 = new Contract(paymentToken.address, ERC20_ABI, provider);
+
+  const [network, feePercent, balance, allowance] = await Promise.all([
+    provider.getNetwork(),
+    marketplace.platformFeePercent() as Promise<bigint>,
+    erc20.balanceOf(walletAddress) as Promise<bigint>,
+    erc20.allowance(walletAddress, marketplaceAddress) as Promise<bigint>,
+  ]);
+  const context = { chainId: Number(network.chainId), walletAddress };
+
+  // 컨트랙트와 같은 계산입니다. (정수 나눗셈)
+  const price = BigInt(listing.price.raw);
+  const fee = (price * feePercent) / FEE_DENOMINATOR;
+
+  const blockers: string[] = [];
+  if (listing.status !== "Active") {
+    blockers.push(`Listing is not active (status: ${listing.status})`);
+  }
+  if (listing.expired) {
+    blockers.push(`Listing expired at ${new Date(listing.expiresAt * 1000).toISOString()}`);
+  }
+  if (balance < price) {
+    blockers.push(
+      `Insufficient ${paymentToken.symbol} balance: ${toTokenAmount(balance, paymentToken).formatted} available, ` +
+        `${listing.price.formatted} required`,
+    );
+  }
+
+  let prepared: PreparedTransactions = { transactions: [], skippedSteps: [] };
+  if (blockers.length === 0) {
+    const approval =
+      allowance >= price
+        ? null
+        : await toUnsignedTransaction(
+            context,
+            "approve",
+            `Allow the marketplace to spend ${listing.price.formatted} ${paymentToken.symbol}`,
+            paymentToken.address,
+            erc20.interface.encodeFunctionData("approve", [marketplaceAddress, price]),
+            true,
+          );
+
+    prepared = await withApproval(approval, "approve", (simulate) =>
+      toUnsignedTransaction(
+        context,
+        "buyNFT",
+        `Buy token ${tokenId} for ${listing.price.formatted} ${paymentToken.symbol}`,
+        marketplaceAddress,
+        marketplace.interface.encodeFunctionData("buyNFT", [BigInt(tokenId)]),
+        simulate,
+      ),
+    );
+  }
+
+  return {
+    ...prepared,
+    listing,
+    price: listing.price,
+    fee: toTokenAmount(fee, paymentToken),
+    sellerProceeds: toTokenAmount(price - fee, paymentToken),
+    platformFeePercent: Number(feePercent),
+    balance: toTokenAmount(balance, paymentToken),
+    allowance: toTokenAmount(allowance, paymentToken),
+    blockers,
+  };
+};
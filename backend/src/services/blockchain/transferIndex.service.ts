@@ -0,0 +1,452 @@
+import { ZeroAddress } from "ethers";
+import { ensureRedisConnected, redisConnection } from "../../config/redis.config";
+import { TRANSFER_INDEX_DEFINITION, resolveListenerStartBlock } from "../../config/listeners.config";
+import { IndexReadiness, resolveIndexReadiness } from "./indexReadiness.service";
+import {
+  ContractListener,
+  ListenerEventContext,
+  initializeContractListener,
+} from "./listeners/contract.listener";
+import type { TrackedEvent } from "./confirmation.service";
+
+const REDIS_KEY_PREFIX = "blockchain:transfer-index";
+const RECORDS_KEY = `${REDIS_KEY_PREFIX}:records`;
+const META_KEY = `${REDIS_KEY_PREFIX}:meta`;
+const ALL_KEY = `${REDIS_KEY_PREFIX}:all`;
+
+// 정렬 점수 = blockNumber * LOG_INDEX_FACTOR + logIndex (블록 내 로그 수가 이 값을 넘지 않는다고 가정)
+const LOG_INDEX_FACTOR = 100_000;
+const SCAN_BATCH_SIZE = 200;
+const MAX_SCAN_PER_QUERY = 5_000;
+const STATE_TIMEOUT_MS = 1_000;
+const BLOCK_TIMESTAMP_CACHE_SIZE = 1_000;
+const DEFAULT_MAX_LAG_BLOCKS = 20;
+
+export type TransferType = "mint" | "transfer" | "burn";
+
+export const TRANSFER_TYPES: TransferType[] = ["mint", "transfer", "burn"];
+
+/**
+ * 인덱스에 저장되는 Transfer 이벤트 한 건입니다.
+ */
+export interface TransferRecord {
+  id: string;
+  tokenId: string;
+  from: string;
+  to: string;
+  type: TransferType;
+  transactionHash: string;
+  blockNumber: number;
+  blockHash: string;
+  logIndex: number;
+  /** 블록 타임스탬프 (unix seconds) */
+  timestamp: number;
+}
+
+export interface TransferIndexState {
+  chainId: string;
+  contractAddress: string;
+  /** 이 블록까지의 Transfer 이벤트가 모두 인덱스에 반영됨 */
+  indexedThrough: number;
+  updatedAt: string;
+}
+
+/**
+ * 조회 시점에 계산한 인덱스 준비 상태입니다.
+ * ready가 false이면(최초 백필 중, 인덱서 중단, 확정 깊이 + BLOCKCHAIN_TRANSFER_INDEX_MAX_LAG_BLOCKS보다 뒤처짐)
+ * 인덱스 조회 결과를 완전한 이력으로 사용할 수 없습니다.
+ */
+export type TransferIndexStatus = TransferIndexState & IndexReadiness;
+
+export interface TransferQuery {
+  tokenId?: string;
+  walletAddress?: string;
+  types?: TransferType[];
+  fromBlock?: number;
+  toBlock?: number;
+  /** unix seconds (포함) */
+  fromTime?: number;
+  /** unix seconds (포함) */
+  toTime?: number;
+  cursor?: string;
+  limit: number;
+  order: "asc" | "desc";
+}
+
+export interface TransferPage {
+  items: TransferRecord[];
+  /** 다음 페이지 조회용 커서 (더 이상 없으면 null) */
+  nextCursor: string | null;
+}
+
+const tokenKey = (tokenId: string) => `${REDIS_KEY_PREFIX}:token:${tokenId}`;
+const walletKey = (address: string) => `${REDIS_KEY_PREFIX}:wallet:${address.toLowerCase()}`;
+
+const toRecordId = (event: Pick<TrackedEvent, "transactionHash" | "logIndex">) =>
+  `${event.transactionHash.toLowerCase()}:${event.logIndex}`;
+
+const toPosition = (blockNumber: number, logIndex: number) => blockNumber * LOG_INDEX_FACTOR + logIndex;
+
+/**
+ * 커서는 마지막으로 조회한 로그의 위치(blockNumber:logIndex)를 base64url로 인코딩한 값입니다.
+ * 인덱스 조회와 RPC 직접 조회가 같은 형식을 사용하므로, 응답의 source가 바뀌어도 이어서 조회할 수 있습니다.
+ */
+export const encodeTransferCursor = (blockNumber: number, logIndex: number): string =>
+  Buffer.from(`${blockNumber}:${logIndex}`).toString("base64url");
+
+/**
+ * 커서를 로그 위치로 변환합니다. 형식이 잘못되었으면 null을 반환합니다.
+ */
+export const parseTransferCursor = (cursor: string): { blockNumber: number; logIndex: number } | null => {
+  const [blockNumber, logIndex] = Buffer.from(cursor, "base64url").toString("utf8").split(":").map(Number);
+  if (!Number.isInteger(blockNumber) || !Number.isInteger(logIndex) || blockNumber < 0 || logIndex < 0) {
+    return null;
+  }
+  return { blockNumber, logIndex };
+};
+
+const encodeCursor = (position: number): string =>
+  encodeTransferCursor(Math.floor(position / LOG_INDEX_FACTOR), position % LOG_INDEX_FACTOR);
+
+const decodeCursor = (cursor: string): number | null => {
+  const parsed = parseTransferCursor(cursor);
+  return parsed ? toPosition(parsed.blockNumber, parsed.logIndex) : null;
+};
+
+export const resolveTransferType = (from: string, to: string): TransferType =>
+  from === ZeroAddress ? "mint" : to === ZeroAddress ? "burn" : "transfer";
+
+/**
+ * 확정 깊이 외에 허용하는 인덱스 지연 블록 수입니다. (BLOCKCHAIN_TRANSFER_INDEX_MAX_LAG_BLOCKS, 기본 20)
+ */
+const resolveMaxLagBlocks = (): number => {
+  const value = Number(process.env.BLOCKCHAIN_TRANSFER_INDEX_MAX_LAG_BLOCKS);
+  return Number.isInteger(value) && value >= 0 ? value : DEFAULT_MAX_LAG_BLOCKS;
+};
+
+/**
+ * 커서를 해당 블록의 마지막 로그 위치로 만듭니다. 오래된 것부터 조회할 때 이 블록 다음부터 이어서 조회합니다.
+ */
+export const encodeTransferBlockEndCursor = (blockNumber: number): string =>
+  encodeTransferCursor(blockNumber, LOG_INDEX_FACTOR - 1);
+
+const isTransferIndexSwitchedOn = (): boolean =>
+  TRANSFER_INDEX_DEFINITION.enabled && process.env.BLOCKCHAIN_TRANSFER_INDEX_ENABLED !== "false";
+
+/**
+ * BLOCKCHAIN_TRANSFER_INDEX_ENABLED=false 이거나 GAME_ITEM_START_BLOCK이 없으면 인덱서와 인덱스 조회를 모두 사용하지 않습니다.
+ * 인덱스는 배포 블록부터의 Transfer가 모두 있어야 하므로, 시작 블록 없이 현재 블록부터 인덱싱하지 않습니다.
+ */
+export const isTransferIndexEnabled = (): boolean =>
+  isTransferIndexSwitchedOn() && resolveListenerStartBlock(TRANSFER_INDEX_DEFINITION) !== null;
+
+const blockTimestamps = new Map<number, number>();
+
+const getBlockTimestamp = async (blockNumber: number, context: ListenerEventContext): Promise<number> => {
+  const cached = blockTimestamps.get(blockNumber);
+  if (cached !== undefined) {
+    return cached;
+  }
+
+  const block = await context.getProvider()?.getBlock(blockNumber);
+  if (!block) {
+    throw new Error(`블록 ${blockNumber} 정보를 조회할 수 없습니다.`);
+  }
+
+  if (blockTimestamps.size >= BLOCK_TIMESTAMP_CACHE_SIZE) {
+    const oldest = blockTimestamps.keys().next().value;
+    if (oldest !== undefined) {
+      blockTimestamps.delete(oldest);
+    }
+  }
+  blockTimestamps.set(blockNumber, block.timestamp);
+  return block.timestamp;
+};
+
+const toTransferRecord = (event: TrackedEvent, timestamp: number): TransferRecord => {
+  const from = String(event.payload.from);
+  const to = String(event.payload.to);
+
+  return {
+    id: toRecordId(event),
+    tokenId: String(event.payload.tokenId),
+    from,
+    to,
+    type: resolveTransferType(from, to),
+    transactionHash: event.transactionHash,
+    blockNumber: event.blockNumber,
+    blockHash: event.blockHash,
+    logIndex: event.logIndex,
+    timestamp,
+  };
+};
+
+/**
+ * 정렬 인덱스 키 목록을 반환합니다. (전체, 토큰별, 관련 지갑별)
+ * 민팅의 from, 소각의 to인 0 주소는 지갑 인덱스에 넣지 않습니다.
+ */
+const indexKeysFor = (record: Pick<TransferRecord, "tokenId" | "from" | "to">): string[] => {
+  const keys = [ALL_KEY, tokenKey(record.tokenId)];
+  [record.from, record.to]
+    .filter((address) => address !== ZeroAddress)
+    .forEach((address) => keys.push(walletKey(address)));
+  return [...new Set(keys)];
+};
+
+/**
+ * 확정된 Transfer 이벤트를 인덱스에 기록합니다. 같은 로그는 덮어쓰므로 여러 번 기록해도 안전합니다.
+ */
+const indexTransfer = async (event: TrackedEvent, context: ListenerEventContext): Promise<void> => {
+  const record = toTransferRecord(event, await getBlockTimestamp(event.blockNumber, context));
+  const position = toPosition(record.blockNumber, record.logIndex);
+
+  const pipeline = redisConnection.multi().hset(RECORDS_KEY, record.id, JSON.stringify(record));
+  indexKeysFor(record).forEach((key) => pipeline.zadd(key, position, record.id));
+  await pipeline.exec();
+};
+
+/**
+ * 재조직으로 사라진 Transfer 이벤트를 인덱스에서 제거합니다.
+ */
+const removeTransfer = async (event: TrackedEvent): Promise<void> => {
+  const id = toRecordId(event);
+  const pipeline = redisConnection.multi().hdel(RECORDS_KEY, id);
+  indexKeysFor({
+    tokenId: String(event.payload.tokenId),
+    from: String(event.payload.from),
+    to: String(event.payload.to),
+  }).forEach((key) => pipeline.zrem(key, id));
+  await pipeline.exec();
+};
+
+const updateIndexState = async (blockNumber: number, context: ListenerEventContext, contractAddress: string) => {
+  const state: TransferIndexState = {
+    chainId: context.chainId,
+    contractAddress: contractAddress.toLowerCase(),
+    indexedThrough: blockNumber,
+    updatedAt: new Date().toISOString(),
+  };
+  await redisConnection.set(META_KEY, JSON.stringify(state));
+};
+
+/**
+ * GameItem Transfer 인덱서를 시작합니다.
+ *
+ * 리스너 공통 구조(백필, 확정 깊이, 재조직 처리, 재연결)를 그대로 사용하며,
+ * 확정된 Transfer 이벤트를 큐 대신 Redis 인덱스에 기록합니다.
+ * - 민팅/전송/소각 구분과 블록 타임스탬프를 함께 저장
+ * - 토큰별, 지갑별(from/to 모두) 정렬 인덱스 유지
+ *
+ * @returns 비활성화되어 있으면 null
+ */
+export const initializeTransferIndexer = async (): Promise<ContractListener | null> => {
+  if (!isTransferIndexEnabled()) {
+    if (isTransferIndexSwitchedOn()) {
+      console.warn("[TransferIndex] GAME_ITEM_START_BLOCK이 설정되지 않아 인덱서를 실행하지 않습니다. (history/인벤토리 API는 RPC로 조회)");
+    }
+    return null;
+  }
+
+  const contractAddress = process.env.CONTRACT_ADDRESS ?? "";
+
+  return initializeContractListener(TRANSFER_INDEX_DEFINITION, {
+    deliver: indexTransfer,
+    revert: (event) => removeTransfer(event),
+    onConfirmedThrough: (blockNumber, context) => updateIndexState(blockNumber, context, contractAddress),
+  });
+};
+
+/**
+ * 인덱서의 진행 상태를 조회합니다.
+ * 인덱서가 아직 실행된 적 없거나, 다른 컨트랙트나 다른 체인을 인덱싱했거나, Redis에 연결할 수 없으면 null을 반환합니다.
+ *
+ * 최초 백필 중에도 상태는 기록되므로, 조회 결과를 사용하기 전에 ready를 확인해야 합니다.
+ * 지연은 조회 시점의 체인 헤드 기준으로 계산합니다. (indexReadiness.service.ts)
+ */
+export const getTransferIndexState = async (): Promise<TransferIndexStatus | null> => {
+  if (!isTransferIndexEnabled()) {
+    return null;
+  }
+
+  try {
+    const raw = await Promise.race([
+      ensureRedisConnected().then(() => redisConnection.get(META_KEY)),
+      new Promise<never>((_, reject) =>
+        setTimeout(() => reject(new Error("Redis 응답 시간 초과")), STATE_TIMEOUT_MS),
+      ),
+    ]);
+    if (!raw) {
+      return null;
+    }
+
+    const state = JSON.parse(raw) as TransferIndexState;
+    const contractAddress = process.env.CONTRACT_ADDRESS?.toLowerCase();
+    if (!contractAddress || state.contractAddress !== contractAddress) {
+      return null;
+    }
+
+    const readiness = await resolveIndexReadiness(state, resolveMaxLagBlocks());
+    return readiness ? { ...state, ...readiness } : null;
+  } catch (error) {
+    console.warn("[TransferIndex] 인덱스 상태 조회 실패:", error);
+    return null;
+  }
+};
+
+const matchesFilters = (record: TransferRecord, query: TransferQuery): boolean => {
+  if (query.types && query.types.length > 0 && !query.types.includes(record.type)) {
+    return false;
+  }
+  if (query.fromTime !== undefined && record.timestamp < query.fromTime) {
+    return false;
+  }
+  if (query.toTime !== undefined && record.timestamp > query.toTime) {
+    return false;
+  }
+  return true;
+};
+
+/**
+ * 블록 타임스탬프는 블록 번호와 함께 증가하므로, 정렬 방향으로 시간 범위를 벗어나면 더 볼 필요가 없습니다.
+ */
+const isPastTimeRange = (record: TransferRecord, query: TransferQuery): boolean =>
+  query.order === "asc"
+    ? query.toTime !== undefined && record.timestamp > query.toTime
+    : query.fromTime !== undefined && record.timestamp < query.fromTime;
+
+/**
+ * 인덱스에서 Transfer 이력을 조회합니다.
+ *
+ * tokenId 또는 walletAddress로 대상 인덱스를 고르고(둘 다 없으면 전체),
+ * 블록 범위는 정렬 점수 범위로, 유형과 시간 범위는 조회한 레코드에서 걸러냅니다.
+ * 한 번에 MAX_SCAN_PER_QUERY건까지만 살펴보며, 그 안에 limit을 채우지 못해도 nextCursor를 반환합니다.
+ */
+export const queryTransfers = async (query: TransferQuery): Promise<TransferPage> => {
+  const key = query.tokenId
+    ? tokenKey(query.tokenId)
+    : query.walletAddress
+      ? walletKey(query.walletAddress)
+      : ALL_KEY;
+
+  let min = query.fromBlock !== undefined ? String(toPosition(query.fromBlock, 0)) : "-inf";
+  let max = query.toBlock !== undefined ? String(toPosition(query.toBlock, LOG_INDEX_FACTOR - 1)) : "+inf";
+
+  if (query.cursor) {
+    const position = decodeCursor(query.cursor);
+    if (position === null) {
+      throw new Error("Invalid cursor");
+    }
+    if (query.order === "asc") {
+      min = `(${position}`;
+    } else {
+      max = `(${position}`;
+    }
+  }
+
+  const items: TransferRecord[] = [];
+  let scanned = 0;
+  let lastPosition: number | null = null;
+
+  while (scanned < MAX_SCAN_PER_QUERY) {
+    // WITHSCORES 결과는 [id, score, id, score, ...] 형태입니다.
+    const entries =
+      query.order === "asc"
+        ? await redisConnection.zrangebyscore(key, min, max, "WITHSCORES", "LIMIT", 0, SCAN_BATCH_SIZE)
+        : await redisConnection.zrevrangebyscore(key, max, min, "WITHSCORES", "LIMIT", 0, SCAN_BATCH_SIZE);
+    if (entries.length === 0) {
+      return { items, nextCursor: null };
+    }
+
+    const ids = entries.filter((_, index) => index % 2 === 0);
+    const positions = entries.filter((_, index) => index % 2 === 1).map(Number);
+    const rawRecords = await redisConnection.hmget(RECORDS_KEY, ...ids);
+
+    for (let index = 0; index < rawRecords.length; index++) {
+      scanned += 1;
+      lastPosition = positions[index];
+
+      const raw = rawRecords[index];
+      if (!raw) {
+        continue;
+      }
+
+      const record = JSON.parse(raw) as TransferRecord;
+      if (isPastTimeRange(record, query)) {
+        return { items, nextCursor: null };
+      }
+      if (!matchesFilters(record, query)) {
+        continue;
+      }
+
+      items.push(record);
+      if (items.length >= query.limit) {
+        return { items, nextCursor: encodeCursor(lastPosition) };
+      }
+    }
+
+    if (ids.length < SCAN_BATCH_SIZE) {
+      return { items, nextCursor: null };
+    }
+
+    if (query.order === "asc") {
+      min = `(${lastPosition}`;
+    } else {
+      max = `(${lastPosition}`;
+    }
+  }
+
+  return { items, nextCursor: lastPosition !== null ? encodeCursor(lastPosition) : null };
+};
+
+/**
+ * 지갑 인덱스의 변경 여부를 판단할 수 있는 버전 문자열을 반환합니다. (건수 + 마지막 위치)
+ * 지갑이 관련된 Transfer가 추가되거나 재조직으로 제거되면 값이 바뀝니다.
+ */
+export const getWalletIndexVersion = async (walletAddress: string): Promise<string> => {
+  const key = walletKey(walletAddress);
+  const [count, last] = await Promise.all([
+    redisConnection.zcard(key),
+    redisConnection.zrevrange(key, 0, 0, "WITHSCORES"),
+  ]);
+  return `${count}:${last[1] ?? "0"}`;
+};
+
+/**
+ * 인덱스 기준으로 지갑이 현재 소유한 토큰 ID 목록을 반환합니다.
+ *
+ * 1. 지갑이 받은(to = 지갑) 적 있는 토큰을 후보로 모읍니다.
+ * 2. 후보 토큰마다 가장 마지막 Transfer의 to가 지갑인 경우만 남깁니다.
+ */
+export const findIndexedOwnedTokenIds = async (walletAddress: string): Promise<string[]> => {
+  const wallet = walletAddress.toLowerCase();
+  const ids = await redisConnection.zrange(walletKey(wallet), 0, -1);
+  if (ids.length === 0) {
+    return [];
+  }
+
+  const candidates = new Set<string>();
+  const rawRecords = await redisConnection.hmget(RECORDS_KEY, ...ids);
+  rawRecords.forEach((raw) => {
+    if (!raw) return;
+    const record = JSON.parse(raw) as TransferRecord;
+    if (record.to.toLowerCase() === wallet) {
+      candidates.add(record.tokenId);
+    }
+  });
+
+  const tokenIds = [...candidates];
+  if (tokenIds.length === 0) {
+    return [];
+  }
+
+  const latestIds = await Promise.all(tokenIds.map((tokenId) => redisConnection.zrevrange(tokenKey(tokenId), 0, 0)));
+  const latestRecords = await redisConnection.hmget(
+    RECORDS_KEY,
+    ...latestIds.map((entry) => entry[0] ?? ""),
+  );
+
+  return tokenIds.filter((_, index) => {
+    const raw = latestRecords[index];
+    return raw ? (JSON.parse(raw) as TransferRecord).to.toLowerCase() === wallet : false;
+  });
+};
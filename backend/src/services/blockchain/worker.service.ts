@@ -1,99 +1,146 @@
-import axios from "axios";
 import { config as loadEnv } from "dotenv";
-import { Job, Worker } from "bullmq";
+import { DelayedError, Job, Queue, UnrecoverableError, Worker } from "bullmq";
 
 import { ensureRedisConnected, getBullMQConnection } from "../../config/redis.config";
+import { getEnabledEventQueueNames } from "../../config/listeners.config";
+import { EventSinkDefinition, getEnabledSinkDefinitions, resolveSinksForEvent } from "../../config/sinks.config";
+import { isFinalAttempt, moveToDeadLetter } from "./deadLetter.service";
+import { validateEventPayload } from "./eventSchema.service";
 import {
-  // MARKETPLACE_QUEUE_NAME, // 임시 비활성화
-  NFT_VAULT_QUEUE_NAME,
-  toKebabCase,
-} from "./index.service";
+  isOrderedJobAtHead,
+  registerOrderedJob,
+  releaseOrderedJob,
+  resolveOrderedEvent,
+  resolveOrderingRetryDelayMs,
+} from "./ordering.service";
+import { WorkerStatus, startStatusReporter } from "./status.service";
+import { EventSink, createEventSink, createSinkQueue, toSinkQueueName } from "./sinks";
 
 loadEnv();
 
-let marketplaceWorker: Worker<Record<string, unknown>> | null = null;
-let nftVaultWorker: Worker<Record<string, unknown>> | null = null;
-let mainServerApiUrl: string | null = null;
-
-const resolveEnv = (key: string): string => {
-  const value = process.env[key];
-  if (!value) {
-    throw new Error(`환경 변수 ${key}가 설정되어 있지 않습니다.`);
-  }
-  return value;
-};
+let workers: Worker<Record<string, unknown>>[] | null = null;
+let sinks: EventSink[] = [];
+let sinkDefinitions: EventSinkDefinition[] = [];
+let stopStatusReporter: (() => Promise<void>) | null = null;
+const sinkQueues = new Map<string, Queue<Record<string, unknown>>>();
+const workerConcurrency = new Map<string, number>();
+/** 진행 중인 데드레터 적재 (종료 시 완료될 때까지 기다림) */
+const pendingDeadLetterMoves = new Set<Promise<void>>();
 
 /**
- * BullMQ 워커가 수행할 실제 API 호출 로직입니다.
- * 
+ * 이벤트 큐의 작업을 해당 이벤트를 구독하는 싱크 큐로 나누어 적재합니다.
+ *
  * 이 함수는 다음 상황에서 실행됩니다:
  * - MarketplaceVault 이벤트 (NFTListed, NFTSold, NFTReclaimed)가 큐에 추가되었을 때
  * - NftVault 이벤트 (NftLocked, NftUnlocked)가 큐에 추가되었을 때
- * 
+ * - GameItem 민팅/소각 (ItemMinted, ItemBurned)이 큐에 추가되었을 때
+ * - 이미 전달한 이벤트가 재조직으로 취소되어 EventReverted 작업이 추가되었을 때
+ *
  * 실행 흐름:
- * 1. marketplaceVault.listener.ts 또는 nftVault.listener.ts의 contract.on() 콜백에서 queue.add() 호출
- * 2. BullMQ 워커가 큐에서 작업을 가져옴
- * 3. 이 함수(sendEventToMainServer)가 실행되어 메인 서버로 이벤트 전송
- * 
- * 큐 작업 실패 시 throw하여 BullMQ 재시도를 활용합니다.
+ * 1. contract.listener.ts에서 확정된 이벤트를 queue.add()로 적재
+ * 2. BullMQ 워커가 이벤트 큐에서 작업을 가져옴
+ * 3. 이 함수(dispatchEventToSinks)가 싱크 설정(config/sinks.config.ts)에서 이벤트 이름에 해당하는 싱크를 찾아
+ *    싱크 큐마다 같은 작업 ID로 적재
+ * 4. 싱크 큐 워커가 deliverEventToSink()로 실제 전달
+ *
+ * 분배 전에 페이로드를 이벤트 스키마(schemas/events)로 검증합니다.
+ * 검증에 실패한 작업은 재시도해도 결과가 같으므로 재시도 없이 데드레터 큐로 옮깁니다.
+ * 바로 이전 schemaVersion으로 적재된 작업은 이전 버전 스키마로 검증하여 그대로 전달합니다.
+ *
+ * 싱크 큐에는 원래 작업 ID를 그대로 사용하므로, 분배 작업이 재시도되어도 같은 싱크에 두 번 적재되지 않습니다.
+ * 순서 보장 대상 이벤트(리스너 정의의 orderingKey)는 적재 전에 그룹 대기 목록에 등록합니다.
+ * (이미 전달을 마친 작업은 다시 등록하지 않으므로, 일부 싱크만 적재된 뒤 재시도되어도 그룹이 막히지 않음)
+ * 분배 워커는 이벤트 큐마다 동시성 1로 실행되어 큐 순서(블록/logIndex 순서)대로 등록하며,
+ * 순서 보장 그룹은 이벤트 큐(리스너)별로 나뉩니다. (ordering.service.ts)
  */
-const sendEventToMainServer = async (job: Job<Record<string, unknown>>) => {
-  if (!mainServerApiUrl) {
-    mainServerApiUrl = resolveEnv("MAIN_SERVER_API_URL").replace(/\/+$/, "");
+const dispatchEventToSinks = async (job: Job<Record<string, unknown>>) => {
+  const schemaErrors = validateEventPayload(job.name, job.data);
+  if (schemaErrors.length > 0) {
+    throw new UnrecoverableError(`페이로드 스키마 검증 실패: ${schemaErrors.join("; ")}`);
   }
 
-  const endpoint = `${mainServerApiUrl}/api/events/${toKebabCase(job.name)}`;
-
-  try {
-    // 이벤트의 모든 파라미터가 job.data에 포함되어 있음
-    // buildPayload() 함수가 이벤트의 모든 파라미터를 동적으로 추출하여 포함시킴
-    await axios.post(endpoint, job.data);
-    console.log("[BlockchainWorker] 이벤트 전송 성공", {
-      jobId: job.id,
-      eventName: job.name,
-      endpoint,
-      payload: job.data, // 전송되는 모든 파라미터 확인용
-    });
-  } catch (error: unknown) {
-    if (axios.isAxiosError(error)) {
-      console.error("[BlockchainWorker] 이벤트 전송 실패 (AxiosError)", {
-        jobId: job.id,
-        eventName: job.name,
-        status: error.response?.status,
-        data: error.response?.data ?? error.message,
-      });
-    } else {
-      console.error("[BlockchainWorker] 이벤트 전송 실패", {
-        jobId: job.id,
-        eventName: job.name,
-        error,
-      });
+  const targets = resolveSinksForEvent(sinkDefinitions, job.name);
+  if (targets.length === 0) {
+    console.warn("[BlockchainWorker] 이벤트를 받을 싱크가 없습니다", { jobId: job.id, eventName: job.name });
+    return;
+  }
+
+  const ordered = job.id ? resolveOrderedEvent(job.name, job.data) : null;
+
+  await Promise.all(
+    targets.map(async (definition) => {
+      // 싱크 워커가 먼저 처리하고 해제한 뒤에 등록되지 않도록 적재 전에 등록합니다.
+      if (ordered && job.id) {
+        await registerOrderedJob(toSinkQueueName(definition), ordered, job.id);
+      }
+      await getSinkQueue(definition).add(job.name, job.data, job.id ? { jobId: job.id } : undefined);
+    }),
+  );
+};
+
+/**
+ * 싱크 큐 워커가 수행할 실제 전달 로직입니다.
+ *
+ * 순서 보장 대상 이벤트는 같은 그룹(예: 같은 tokenId)에서 앞선 이벤트가 전달될 때까지
+ * 시도 횟수를 소모하지 않고 지연 상태로 되돌립니다. (BLOCKCHAIN_ORDERING_RETRY_DELAY_MS 후 다시 확인)
+ * 앞선 이벤트가 데드레터 큐로 옮겨지면 재전송되거나 삭제될 때까지 그룹의 뒤 이벤트도 대기합니다.
+ *
+ * 전달 실패 시 throw하여 싱크별 재시도 정책(BullMQ attempts/backoff)을 활용합니다.
+ * 재시도를 모두 소진하면 데드레터 큐(deadLetter.service.ts)로 옮겨지며, 재전송하면 같은 싱크 큐로 돌아갑니다.
+ */
+const deliverEventToSink = async (sink: EventSink, job: Job<Record<string, unknown>>, token?: string) => {
+  const queueName = toSinkQueueName(sink.definition);
+  const ordered = job.id ? resolveOrderedEvent(job.name, job.data) : null;
+
+  if (ordered && job.id) {
+    // 데드레터 재전송으로 다시 들어온 작업도 그룹에 포함되도록 처리 직전에 한 번 더 등록합니다.
+    await registerOrderedJob(queueName, ordered, job.id);
+    if (!(await isOrderedJobAtHead(queueName, ordered, job.id))) {
+      await job.moveToDelayed(Date.now() + resolveOrderingRetryDelayMs(), token);
+      throw new DelayedError();
     }
-    throw error;
   }
+
+  await sink.deliver({
+    id: job.id ?? `${job.name}-${job.timestamp}`,
+    name: job.name,
+    payload: job.data,
+  });
+
+  if (ordered && job.id) {
+    await releaseOrderedJob(queueName, ordered, job.id);
+  }
+};
+
+const getSinkQueue = (definition: EventSinkDefinition): Queue<Record<string, unknown>> => {
+  let queue = sinkQueues.get(definition.name);
+  if (!queue) {
+    queue = createSinkQueue(definition);
+    sinkQueues.set(definition.name, queue);
+  }
+  return queue;
 };
 
-const createWorker = (queueName: string, workerName: string) => {
+const createWorker = (
+  queueName: string,
+  processor: (job: Job<Record<string, unknown>>, token?: string) => Promise<void>,
+  concurrency = Number(process.env.BLOCKCHAIN_EVENT_WORKER_CONCURRENCY ?? 5),
+) => {
+  workerConcurrency.set(queueName, concurrency);
   return new Worker<Record<string, unknown>>(
     queueName,
     /**
      * 워커가 큐에서 작업을 가져왔을 때 실행되는 핸들러 함수
-     * 
-     * 이 함수는 다음 상황에서 실행됩니다:
-     * - MarketplaceVault 이벤트가 marketplace-events 큐에 추가되었을 때
-     * - NftVault 이벤트가 nft-vault-events 큐에 추가되었을 때
-     * 
-     * 실행 순서:
-     * 1. marketplaceVault.listener.ts 또는 nftVault.listener.ts의 contract.on() 콜백 실행
-     * 2. queue.add()로 큐에 작업 추가
-     * 3. 이 함수가 실행되어 sendEventToMainServer() 호출
+     *
+     * 이벤트 큐(nft-vault-events, marketplace-events 등)에서는 dispatchEventToSinks()를,
+     * 싱크 큐(blockchain-sink-*)에서는 deliverEventToSink()를 실행합니다.
      */
-    async (job: Job<Record<string, unknown>>) => {
-      await sendEventToMainServer(job);
+    async (job: Job<Record<string, unknown>>, token?: string) => {
+      await processor(job, token);
     },
     {
       connection: getBullMQConnection(),
-      concurrency: Number(process.env.BLOCKCHAIN_EVENT_WORKER_CONCURRENCY ?? 5),
+      concurrency,
     },
   );
 };
@@ -101,36 +148,43 @@ const createWorker = (queueName: string, workerName: string) => {
 /**
  * BullMQ 워커를 시작합니다.
  * 
- * - marketplaceWorker: marketplace-events 큐를 처리 (임시 비활성화)
- *   → NFTListed, NFTSold, NFTReclaimed 이벤트 처리
- * 
- * - nftVaultWorker: nft-vault-events 큐를 처리
- *   → NftLocked, NftUnlocked 이벤트 처리
- * 
- * 각 워커는 큐에서 이벤트를 가져와 sendEventToMainServer()를 실행합니다.
+ * 활성화된 리스너 레지스트리 항목의 큐마다 분배 워커를 하나씩 생성합니다.
+ * - nft-vault-events: NftLocked, NftUnlocked 이벤트 처리
+ * - marketplace-events: NFTListed, NFTSold, NFTReclaimed 이벤트 처리 (기본 비활성화)
+ * - game-item-events: ItemMinted, ItemBurned 이벤트 처리 (GameItem Transfer 중 민팅/소각)
+ *
+ * 활성화된 싱크(BLOCKCHAIN_SINKS)마다 전달 워커를 하나씩 생성합니다.
+ * - main-server: 메인 서버로 HTTP POST (기본 활성화)
+ * - redis-stream, ndjson-file, stdout: 기본 비활성화
  */
 export const startBlockchainWorker = async (): Promise<{
-  marketplaceWorker: Worker<Record<string, unknown>> | null;
-  nftVaultWorker: Worker<Record<string, unknown>>;
+  workers: Worker<Record<string, unknown>>[];
 }> => {
-  if (nftVaultWorker) {
-    return { marketplaceWorker, nftVaultWorker };
+  if (workers) {
+    return { workers };
   }
 
   await ensureRedisConnected();
 
-  // MarketplaceVault 이벤트를 처리하는 워커 (임시 비활성화)
-  // NFTListed, NFTSold, NFTReclaimed 이벤트 발생 시 실행됨
-  // marketplaceWorker = createWorker(MARKETPLACE_QUEUE_NAME, "MarketplaceWorker");
-  
-  // NftVault 이벤트를 처리하는 워커
-  // NftLocked, NftUnlocked 이벤트 발생 시 실행됨
-  nftVaultWorker = createWorker(NFT_VAULT_QUEUE_NAME, "NftVaultWorker");
+  sinkDefinitions = getEnabledSinkDefinitions();
+  sinks = sinkDefinitions.map((definition) => createEventSink(definition));
+
+  const eventQueueNames = getEnabledEventQueueNames();
+  const queueNames = [...eventQueueNames, ...sinks.map((sink) => toSinkQueueName(sink.definition))];
+  const startedWorkers = [
+    ...eventQueueNames.map((queueName) => createWorker(queueName, dispatchEventToSinks, 1)),
+    ...sinks.map((sink) =>
+      createWorker(toSinkQueueName(sink.definition), (job, token) => deliverEventToSink(sink, job, token)),
+    ),
+  ];
 
   // 이벤트 핸들러 등록
-  [nftVaultWorker].filter(Boolean).forEach((worker) => {
+  startedWorkers.forEach((worker, index) => {
+    const queueName = queueNames[index];
+
     worker.on("completed", (job: Job<Record<string, unknown>>) => {
       console.log("[BlockchainWorker] 작업 완료", {
+        queueName,
         jobId: job.id,
         eventName: job.name,
       });
@@ -138,11 +192,26 @@ export const startBlockchainWorker = async (): Promise<{
 
     worker.on("failed", (job: Job<Record<string, unknown>> | undefined, error: Error) => {
       console.error("[BlockchainWorker] 작업 실패", {
+        queueName,
         jobId: job?.id,
         eventName: job?.name,
         attemptsMade: job?.attemptsMade,
         error: error?.message,
       });
+
+      // 재시도를 모두 소진한 작업은 사라지지 않도록 데드레터 큐로 옮깁니다.
+      if (job && isFinalAttempt(job, error)) {
+        const move = moveToDeadLetter(queueName, job, error)
+          .catch((dlqError) => {
+            console.error("[BlockchainWorker] 데드레터 큐 적재 실패", {
+              jobId: job.id,
+              eventName: job.name,
+              error: dlqError,
+            });
+          })
+          .finally(() => pendingDeadLetterMoves.delete(move));
+        pendingDeadLetterMoves.add(move);
+      }
     });
 
     worker.on("error", (error: Error) => {
@@ -150,8 +219,56 @@ export const startBlockchainWorker = async (): Promise<{
     });
   });
 
-  console.log("[BlockchainWorker] 워커들이 시작되었습니다.");
+  workers = startedWorkers;
+
+  // 워커 실행 상태를 상태 API(GET /api/admin/blockchain/status)에 보고합니다.
+  stopStatusReporter = startStatusReporter<WorkerStatus>("workers", async () =>
+    startedWorkers.map((worker, index) => ({
+      name: queueNames[index],
+      status: {
+        queueName: queueNames[index],
+        running: worker.isRunning(),
+        paused: worker.isPaused(),
+        concurrency: workerConcurrency.get(queueNames[index]) ?? 1,
+      },
+    })),
+  );
 
-  return { marketplaceWorker, nftVaultWorker };
+  console.log("[BlockchainWorker] 워커들이 시작되었습니다.", {
+    queues: eventQueueNames,
+    sinks: sinkDefinitions.map((definition) => definition.name),
+  });
+
+  return { workers };
 };
 
+/**
+ * BullMQ 워커를 종료합니다.
+ *
+ * 종료 순서:
+ * 1. 상태 보고 중지
+ * 2. 워커 종료 (새 작업을 가져오지 않고, 처리 중인 작업이 끝날 때까지 기다림)
+ * 3. 진행 중인 데드레터 적재 완료 대기
+ * 4. 싱크와 싱크 큐 연결 종료
+ */
+export const stopBlockchainWorker = async (): Promise<void> => {
+  if (!workers) {
+    return;
+  }
+
+  const runningWorkers = workers;
+  workers = null;
+
+  await stopStatusReporter?.();
+  stopStatusReporter = null;
+
+  await Promise.all(runningWorkers.map((worker) => worker.close()));
+  await Promise.all([...pendingDeadLetterMoves]);
+
+  await Promise.all(sinks.map((sink) => sink.close?.()));
+  await Promise.all([...sinkQueues.values()].map((queue) => queue.close()));
+  sinks = [];
+  sinkQueues.clear();
+
+  console.log("[BlockchainWorker] 워커들이 종료되었습니다.");
+};
@@ -0,0 +1,160 @@
+import { Server } from "http";
+import type { Express } from "express";
+import { ensureRedisConnected, redisConnection } from "../config/redis.config";
+import { initializeEventListeners } from "./blockchain/index.service";
+import { startBlockchainWorker, stopBlockchainWorker } from "./blockchain/worker.service";
+import { closeDeadLetterQueues } from "./blockchain/deadLetter.service";
+import { closeStatusQueues } from "./blockchain/status.service";
+
+export type AppRole = "api" | "listeners" | "workers";
+
+const APP_ROLES: AppRole[] = ["api", "listeners", "workers"];
+const DEFAULT_APP_ROLES: AppRole[] = ["api", "listeners", "workers"];
+const DEFAULT_SHUTDOWN_TIMEOUT_MS = 30_000;
+
+type StopFn = () => Promise<void>;
+
+/**
+ * APP_ROLES(쉼표 구분)에서 이 프로세스가 실행할 역할 목록을 읽어옵니다.
+ *
+ * - api: HTTP 서버
+ * - listeners: 블록체인 이벤트 리스너 (이벤트를 큐에 적재)
+ * - workers: BullMQ 워커 (큐의 이벤트를 싱크로 전달)
+ *
+ * 예: API 전용 "api", 워커 전용 "listeners,workers", 모두 실행 "api,listeners,workers"
+ * 설정하지 않으면 모든 역할을 실행합니다. (역할을 나누기 전과 같이 한 프로세스가 모두 처리)
+ */
+export const resolveAppRoles = (): AppRole[] => {
+  const raw = process.env.APP_ROLES;
+  if (raw === undefined) {
+    return DEFAULT_APP_ROLES;
+  }
+
+  const roles = raw
+    .split(",")
+    .map((role) => role.trim())
+    .filter((role) => role.length > 0);
+
+  const unknown = roles.filter((role) => !APP_ROLES.includes(role as AppRole));
+  if (unknown.length > 0) {
+    throw new Error(`APP_ROLES에 알 수 없는 역할이 있습니다: ${unknown.join(", ")} (사용 가능: ${APP_ROLES.join(", ")})`);
+  }
+
+  return [...new Set(roles as AppRole[])];
+};
+
+/**
+ * SHUTDOWN_TIMEOUT_MS 설정값을 반환합니다. (기본 30초)
+ * 처리 중인 작업이 이 시간 안에 끝나지 않으면 강제로 종료합니다.
+ */
+const resolveShutdownTimeoutMs = (): number => {
+  const value = Number(process.env.SHUTDOWN_TIMEOUT_MS);
+  return Number.isInteger(value) && value > 0 ? value : DEFAULT_SHUTDOWN_TIMEOUT_MS;
+};
+
+const listen = (app: Express, port: number): Promise<Server> =>
+  new Promise((resolve, reject) => {
+    const server = app.listen(port, () => resolve(server));
+    server.once("error", reject);
+  });
+
+const closeServer = (server: Server): Promise<void> =>
+  new Promise((resolve, reject) => {
+    server.close((error) => (error ? reject(error) : resolve()));
+    // 유휴 keep-alive 연결이 종료를 막지 않도록 정리합니다.
+    server.closeIdleConnections?.();
+  });
+
+/**
+ * 애플리케이션 생명주기를 관리합니다.
+ *
+ * 시작 순서 (APP_ROLES에 포함된 역할만):
+ * 1. 워커 시작 - 리스너가 적재하는 이벤트를 바로 처리할 수 있도록 먼저 시작
+ * 2. HTTP 서버 시작 - 리스너의 누락 구간 백필이 오래 걸려도 API와 헬스 체크가 먼저 응답하도록 리스너보다 먼저 시작
+ * 3. 리스너 시작 - 체크포인트 이후 누락 구간 백필 후 실시간 구독
+ *
+ * 종료 순서 (SIGTERM, SIGINT 수신 시, 시작 순서의 역순):
+ * 1. 리스너 - 구독 해제, WebSocketProvider 종료 (더 이상 이벤트를 적재하지 않음)
+ * 2. HTTP 서버 - 새 요청을 받지 않고 처리 중인 요청 완료 대기
+ * 3. 워커 - 새 작업을 가져오지 않고 처리 중인 작업 완료 대기
+ * 4. 데드레터/상태 조회용 큐 연결 종료
+ * 5. Redis 연결 종료
+ *
+ * 종료가 SHUTDOWN_TIMEOUT_MS 안에 끝나지 않으면 강제로 종료합니다.
+ * 시작 중 실패하면(APP_ROLES 설정 오류 포함) 이미 시작한 구성 요소를 같은 순서로 정리한 뒤 종료합니다.
+ */
+export const startApplication = async (app: Express, port: number): Promise<void> => {
+  const stops: Array<{ name: string; stop: StopFn }> = [];
+  let shuttingDown = false;
+
+  const shutdown = async (reason: string, exitCode: number) => {
+    if (shuttingDown) {
+      return;
+    }
+    shuttingDown = true;
+
+    console.log("[Lifecycle] 종료 시작", { reason });
+
+    const forceExitTimer = setTimeout(() => {
+      console.error("[Lifecycle] 종료 시간 초과로 강제 종료합니다.");
+      process.exit(1);
+    }, resolveShutdownTimeoutMs());
+    forceExitTimer.unref();
+
+    // 시작 순서의 역순으로 정리합니다.
+    for (const { name, stop } of [...stops].reverse()) {
+      try {
+        await stop();
+        console.log(`[Lifecycle] ${name} 종료 완료`);
+      } catch (error) {
+        console.error(`[Lifecycle] ${name} 종료 실패`, error);
+        exitCode = 1;
+      }
+    }
+
+    try {
+      await Promise.all([closeDeadLetterQueues(), closeStatusQueues()]);
+      if (redisConnection.status === "ready") {
+        await redisConnection.quit();
+      }
+    } catch (error) {
+      console.error("[Lifecycle] Redis 연결 종료 실패", error);
+      exitCode = 1;
+    }
+
+    clearTimeout(forceExitTimer);
+    console.log("[Lifecycle] 종료 완료");
+    process.exit(exitCode);
+  };
+
+  process.once("SIGTERM", () => void shutdown("SIGTERM", 0));
+  process.once("SIGINT", () => void shutdown("SIGINT", 0));
+
+  try {
+    const roles = resolveAppRoles();
+    console.log("[Lifecycle] 시작", { roles });
+
+    if (roles.includes("listeners") || roles.includes("workers")) {
+      await ensureRedisConnected();
+    }
+
+    if (roles.includes("workers")) {
+      await startBlockchainWorker();
+      stops.push({ name: "워커", stop: stopBlockchainWorker });
+    }
+
+    if (roles.includes("api")) {
+      const server = await listen(app, port);
+      stops.push({ name: "HTTP 서버", stop: () => closeServer(server) });
+      console.log(`Server listening on http://localhost:${port}`);
+    }
+
+    if (roles.includes("listeners")) {
+      const { cleanup } = await initializeEventListeners();
+      stops.push({ name: "리스너", stop: async () => cleanup() });
+    }
+  } catch (error) {
+    console.error("[Lifecycle] 시작 실패", error);
+    await shutdown("startup failure", 1);
+  }
+};
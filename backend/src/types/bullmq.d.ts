@@ -6,8 +6,26 @@ declare module "bullmq" {
     name: N;
     data: T;
     attemptsMade: number;
+    opts: { attempts?: number; [key: string]: unknown };
+    timestamp: number;
+    failedReason?: string;
+    stacktrace?: string[];
+    remove(): Promise<void>;
+    moveToDelayed(timestamp: number, token?: string): Promise<void>;
   }
 
+  /** 처리기에서 job.moveToDelayed() 후 throw하면 시도 횟수를 소모하지 않고 지연 상태로 남습니다. */
+  export class DelayedError extends Error {
+    constructor(message?: string);
+  }
+
+  /** 처리기에서 throw하면 남은 시도 횟수와 관계없이 재시도하지 않고 실패 처리됩니다. */
+  export class UnrecoverableError extends Error {
+    constructor(message?: string);
+  }
+
+  export type JobType = "active" | "waiting" | "delayed" | "completed" | "failed" | "paused" | "prioritized";
+
   export interface QueueOptions {
     connection?: string | RedisOptions;
     defaultJobOptions?: Record<string, unknown>;
@@ -16,6 +34,12 @@ declare module "bullmq" {
   export class Queue<T = unknown, R = unknown, N extends string = string> {
     constructor(name: string, opts?: QueueOptions);
     add(name: string, data: T, opts?: Record<string, unknown>): Promise<Job<T, R, N>>;
+    remove(jobId: string): Promise<number>;
+    getJob(jobId: string): Promise<Job<T, R, N> | undefined>;
+    getJobs(types?: JobType[] | JobType, start?: number, end?: number, asc?: boolean): Promise<Job<T, R, N>[]>;
+    getJobCounts(...types: JobType[]): Promise<Record<string, number>>;
+    drain(delayed?: boolean): Promise<void>;
+    close(): Promise<void>;
   }
 
   export interface WorkerOptions {
@@ -26,9 +50,12 @@ declare module "bullmq" {
   export class Worker<T = unknown, R = unknown, N extends string = string> {
     constructor(
       name: string,
-      processor: (job: Job<T, R, N>) => Promise<R> | R,
+      processor: (job: Job<T, R, N>, token?: string) => Promise<R> | R,
       opts?: WorkerOptions,
     );
+    isRunning(): boolean;
+    isPaused(): boolean;
+    close(force?: boolean): Promise<void>;
     on(event: "completed", handler: (job: Job<T, R, N>, result?: R) => void): void;
     on(event: "failed", handler: (job: Job<T, R, N> | undefined, error: Error) => void): void;
     on(event: "error", handler: (error: Error) => void): void;
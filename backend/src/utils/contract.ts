@@ -9,11 +9,13 @@
  * 의존성:
  * - ethers.js: 이더리움 블록체인 상호작용 라이브러리
  * - GameItem.sol: NFT 스마트 컨트랙트 ABI
+ * - NftVault.sol, MarketplaceVault.sol: 락업/마켓플레이스 보관소 ABI
  */
 
 import { ethers } from "ethers";
 import abiJson from "../../../blockchain/artifacts/blockchain/contracts/GameItem.sol/GameItem.json";
 import vaultAbiJson from "../../../blockchain/artifacts/blockchain/contracts/NftVault.sol/NftVault.json";
+import marketplaceAbiJson from "../../../blockchain/artifacts/blockchain/contracts/MarketplaceVault.sol/MarketplaceVault.json";
 
 // 환경 변수는 app.ts에서 이미 로드됨 (dotenv.config() 호출)
 
@@ -157,4 +159,40 @@ export async function getVaultContract() {
   return new ethers.Contract(address, vaultAbiJson.abi, wallet);
 }
 
+/**
+ * MarketplaceVault 컨트랙트 인스턴스 생성 (조회 전용)
+ * 
+ * 리스팅/구매는 판매자와 구매자가 직접 서명하므로 서버 지갑 없이 Provider로 연결합니다.
+ * 
+ * @returns Promise<ethers.Contract> - MarketplaceVault 컨트랙트 인스턴스
+ * @throws Error - MARKETPLACE_VAULT_ADDRESS 환경변수가 없을 때
+ */
+export async function getMarketplaceContract() {
+  const address = process.env.MARKETPLACE_VAULT_ADDRESS;
+  if (!address) {
+    console.error('[getMarketplaceContract] MARKETPLACE_VAULT_ADDRESS가 설정되지 않았습니다.');
+    throw new Error("MARKETPLACE_VAULT_ADDRESS is required");
+  }
+  
+  // 컨트랙트 인스턴스 생성 (주소, ABI, Provider)
+  return new ethers.Contract(address, marketplaceAbiJson.abi, getProvider());
+}
 
+
+
+/**
+ * GameItem 토큰 ID에서 itemId와 인스턴스 번호를 추출 (컨트랙트 호출 없이)
+ * 
+ * 토큰 ID 구조: [itemId(8자리)] + [instance(8자리)]
+ * GameItem.getItemId(), getInstanceNumber()와 같은 계산이며, itemId가 0이면 기존 방식(mint)으로 발행된 토큰입니다.
+ * 
+ * @param tokenId - 토큰 ID
+ * @returns { itemId: number, instanceNumber: number }
+ */
+export function decodeGameItemTokenId(tokenId: bigint | string | number): { itemId: number, instanceNumber: number } {
+  const value = BigInt(tokenId);
+  return {
+    itemId: Number(value / 100000000n),
+    instanceNumber: Number(value % 100000000n)
+  };
+}
@@ -0,0 +1,110 @@
+/**
+ * JSON Schema 검증 유틸리티
+ *
+ * 기능:
+ * - 이벤트 페이로드 스키마(backend/src/schemas/events)가 사용하는 JSON Schema(draft-07) 키워드의 부분 집합으로 값 검증
+ *
+ * 지원 키워드: type, properties, required, additionalProperties(boolean), items, pattern, const, enum
+ * 그 외 키워드($schema, $id, title, description 등)는 무시합니다.
+ */
+
+export type JsonSchemaType = "string" | "integer" | "number" | "boolean" | "object" | "array" | "null";
+
+export interface JsonSchema {
+  $schema?: string;
+  $id?: string;
+  title?: string;
+  description?: string;
+  type?: JsonSchemaType | JsonSchemaType[];
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean;
+  items?: JsonSchema;
+  pattern?: string;
+  const?: unknown;
+  enum?: unknown[];
+}
+
+/**
+ * 값이 JSON Schema 타입에 해당하는지 확인하는 함수
+ */
+function matchesType(value: unknown, type: JsonSchemaType): boolean {
+  switch (type) {
+    case "string":
+      return typeof value === "string";
+    case "integer":
+      return typeof value === "number" && Number.isInteger(value);
+    case "number":
+      return typeof value === "number" && Number.isFinite(value);
+    case "boolean":
+      return typeof value === "boolean";
+    case "object":
+      return typeof value === "object" && value !== null && !Array.isArray(value);
+    case "array":
+      return Array.isArray(value);
+    case "null":
+      return value === null;
+    default:
+      return false;
+  }
+}
+
+/**
+ * 값을 스키마로 검증하는 함수
+ *
+ * @param schema - JSON Schema
+ * @param value - 검증할 값
+ * @param pointer - 오류 메시지에 표시할 위치 (JSON Pointer 형식, 기본값: 루트)
+ * @returns 오류 메시지 배열 (비어 있으면 통과)
+ */
+export function validateJsonSchema(schema: JsonSchema, value: unknown, pointer = ""): string[] {
+  const at = pointer || "/";
+  const errors: string[] = [];
+
+  if (schema.type !== undefined) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some((type) => matchesType(value, type))) {
+      return [`${at} must be ${types.join(" or ")}`];
+    }
+  }
+
+  if (schema.const !== undefined && value !== schema.const) {
+    errors.push(`${at} must be ${JSON.stringify(schema.const)}`);
+  }
+
+  if (schema.enum !== undefined && !schema.enum.includes(value)) {
+    errors.push(`${at} must be one of ${schema.enum.map((item) => JSON.stringify(item)).join(", ")}`);
+  }
+
+  if (schema.pattern !== undefined && typeof value === "string" && !new RegExp(schema.pattern).test(value)) {
+    errors.push(`${at} must match ${schema.pattern}`);
+  }
+
+  if (schema.items !== undefined && Array.isArray(value)) {
+    value.forEach((item, index) => {
+      errors.push(...validateJsonSchema(schema.items as JsonSchema, item, `${pointer}/${index}`));
+    });
+  }
+
+  if (matchesType(value, "object")) {
+    const record = value as Record<string, unknown>;
+    const properties = schema.properties ?? {};
+
+    (schema.required ?? []).forEach((key) => {
+      if (record[key] === undefined) {
+        errors.push(`${pointer}/${key} is required`);
+      }
+    });
+
+    Object.entries(record).forEach(([key, item]) => {
+      if (item === undefined) return;
+      if (properties[key]) {
+        errors.push(...validateJsonSchema(properties[key], item, `${pointer}/${key}`));
+      } else if (schema.additionalProperties === false) {
+        errors.push(`${pointer}/${key} is not allowed`);
+      }
+    });
+  }
+
+  return errors;
+}
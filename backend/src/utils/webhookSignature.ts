@@ -0,0 +1,137 @@
+/**
+ * 웹훅 서명 유틸리티
+ *
+ * 기능:
+ * - 블록체인 워커가 메인 서버로 보내는 이벤트 요청에 HMAC-SHA256 서명 생성
+ * - 메인 서버에서 요청 서명 검증 (이 파일은 node:crypto 외 의존성이 없어 그대로 복사해 사용할 수 있음)
+ *
+ * 요청 헤더:
+ * - X-Tore-Event-Id: 이벤트 ID (작업 ID, 재시도해도 동일)
+ * - X-Tore-Timestamp: 서명 시각 (unix seconds)
+ * - X-Tore-Signature: "v1=<hex>" 형식의 서명 목록 (공백 구분)
+ *
+ * 서명 대상 문자열: `${eventId}.${timestamp}.${rawBody}`
+ *
+ * 키 교체:
+ * - 송신 측은 설정된 모든 시크릿으로 각각 서명하여 X-Tore-Signature에 모두 담습니다.
+ * - 수신 측은 자신이 가진 시크릿 중 하나라도 일치하면 통과시킵니다.
+ * - 새 시크릿을 송신 측 목록 앞에 추가 → 수신 측을 새 시크릿으로 교체 → 송신 측에서 이전 시크릿 제거 순서로 진행합니다.
+ *
+ * 메인 서버 사용 예 (Express, 원본 본문 필요):
+ *   app.post("/api/events/:name", express.raw({ type: "application/json" }), (req, res) => {
+ *     const result = verifyWebhookSignature({
+ *       rawBody: req.body.toString("utf8"),
+ *       headers: req.headers,
+ *       secrets: [process.env.WEBHOOK_SIGNING_SECRET!],
+ *     });
+ *     if (!result.valid) return res.status(401).json({ error: result.reason });
+ *     ...
+ *   });
+ */
+
+import { createHmac, timingSafeEqual } from "crypto";
+
+export const WEBHOOK_EVENT_ID_HEADER = "X-Tore-Event-Id";
+export const WEBHOOK_TIMESTAMP_HEADER = "X-Tore-Timestamp";
+export const WEBHOOK_SIGNATURE_HEADER = "X-Tore-Signature";
+
+const SIGNATURE_VERSION = "v1";
+const DEFAULT_TOLERANCE_SECONDS = 300;
+
+/**
+ * 서명 대상 문자열에 대한 HMAC-SHA256 값을 계산하는 함수
+ *
+ * @param secret - 서명 시크릿
+ * @param eventId - 이벤트 ID
+ * @param timestamp - unix seconds
+ * @param rawBody - 전송되는 본문 그대로의 문자열
+ * @returns hex 문자열
+ */
+export function computeWebhookSignature(secret: string, eventId: string, timestamp: number, rawBody: string): string {
+  return createHmac("sha256", secret).update(`${eventId}.${timestamp}.${rawBody}`).digest("hex");
+}
+
+/**
+ * 웹훅 요청 헤더를 생성하는 함수
+ *
+ * @param options.secrets - 서명에 사용할 시크릿 목록 (키 교체 중에는 여러 개)
+ * @param options.eventId - 이벤트 ID
+ * @param options.rawBody - 전송할 본문 문자열 (서명한 문자열을 그대로 전송해야 함)
+ * @param options.timestamp - 서명 시각 (기본값: 현재 시각)
+ * @returns 요청에 추가할 헤더 객체
+ */
+export function signWebhookPayload(options: {
+  secrets: string[];
+  eventId: string;
+  rawBody: string;
+  timestamp?: number;
+}): Record<string, string> {
+  const timestamp = options.timestamp ?? Math.floor(Date.now() / 1000);
+  const signatures = options.secrets.map(
+    (secret) => `${SIGNATURE_VERSION}=${computeWebhookSignature(secret, options.eventId, timestamp, options.rawBody)}`
+  );
+
+  return {
+    [WEBHOOK_EVENT_ID_HEADER]: options.eventId,
+    [WEBHOOK_TIMESTAMP_HEADER]: String(timestamp),
+    [WEBHOOK_SIGNATURE_HEADER]: signatures.join(" ")
+  };
+}
+
+/**
+ * 헤더 객체에서 값을 대소문자 구분 없이 읽는 함수 (Node.js는 헤더 이름을 소문자로 변환)
+ */
+function readHeader(headers: Record<string, string | string[] | undefined>, name: string): string | undefined {
+  const value = headers[name] ?? headers[name.toLowerCase()];
+  return Array.isArray(value) ? value[0] : value;
+}
+
+/**
+ * 웹훅 요청 서명을 검증하는 함수
+ *
+ * 실행 흐름:
+ * 1. 이벤트 ID, 타임스탬프, 서명 헤더 확인
+ * 2. 타임스탬프가 허용 범위(기본 5분) 안인지 확인 (재전송 공격 방지)
+ * 3. 보유한 시크릿마다 서명을 계산하여 헤더의 서명 중 하나와 일치하는지 상수 시간 비교
+ *
+ * @param options.rawBody - 수신한 본문 그대로의 문자열 (JSON 파싱 후 다시 직렬화하면 안 됨)
+ * @param options.headers - 요청 헤더
+ * @param options.secrets - 검증에 사용할 시크릿 목록
+ * @param options.toleranceSeconds - 허용할 시각 차이 (기본 300초)
+ * @param options.now - 현재 시각 (unix seconds, 테스트용)
+ * @returns { valid: boolean, eventId?: string, reason?: string }
+ */
+export function verifyWebhookSignature(options: {
+  rawBody: string;
+  headers: Record<string, string | string[] | undefined>;
+  secrets: string[];
+  toleranceSeconds?: number;
+  now?: number;
+}): { valid: boolean, eventId?: string, reason?: string } {
+  const eventId = readHeader(options.headers, WEBHOOK_EVENT_ID_HEADER);
+  const timestampHeader = readHeader(options.headers, WEBHOOK_TIMESTAMP_HEADER);
+  const signatureHeader = readHeader(options.headers, WEBHOOK_SIGNATURE_HEADER);
+
+  if (!eventId || !timestampHeader || !signatureHeader) {
+    return { valid: false, reason: "Missing webhook signature headers" };
+  }
+
+  const timestamp = Number(timestampHeader);
+  const now = options.now ?? Math.floor(Date.now() / 1000);
+  const tolerance = options.toleranceSeconds ?? DEFAULT_TOLERANCE_SECONDS;
+  if (!Number.isInteger(timestamp) || Math.abs(now - timestamp) > tolerance) {
+    return { valid: false, eventId, reason: "Webhook timestamp outside tolerance" };
+  }
+
+  const received = signatureHeader
+    .split(" ")
+    .filter((part) => part.startsWith(`${SIGNATURE_VERSION}=`))
+    .map((part) => Buffer.from(part.slice(SIGNATURE_VERSION.length + 1), "hex"));
+
+  const matched = options.secrets.some((secret) => {
+    const expected = Buffer.from(computeWebhookSignature(secret, eventId, timestamp, options.rawBody), "hex");
+    return received.some((signature) => signature.length === expected.length && timingSafeEqual(signature, expected));
+  });
+
+  return matched ? { valid: true, eventId } : { valid: false, eventId, reason: "Invalid webhook signature" };
+}